@@ -1,19 +1,43 @@
-import { ChakraProvider, Box, Flex } from '@chakra-ui/react';
+import { ChakraProvider, Box, Flex, Spinner } from '@chakra-ui/react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AppProvider, useAppContext } from './context/AppContext';
 import { FolderPicker } from './components/FolderPicker';
 import { ConversationList } from './pages/ConversationList';
 import { ConversationView } from './pages/ConversationView';
+import { ConversationStats } from './pages/ConversationStats';
+import { SearchPage } from './pages/SearchPage';
+import { ArchiveDashboard } from './pages/ArchiveDashboard';
+import { PhotosPage } from './pages/PhotosPage';
+import { IntegrityPage } from './pages/IntegrityPage';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
 function AppContent() {
-  const { directoryHandle, setDirectoryHandle } = useAppContext();
+  const {
+    directoryHandle,
+    openArchiveSource,
+    isRestoringArchive,
+    recentArchives,
+    removeRecentArchive,
+  } = useAppContext();
+
+  // Wait for the remembered archive so deep links aren't lost to the folder picker
+  if (isRestoringArchive) {
+    return (
+      <Flex minH="100vh" align="center" justify="center" bg="gray.50">
+        <Spinner size="xl" color="blue.500" />
+      </Flex>
+    );
+  }
 
   if (!directoryHandle) {
     return (
       <Flex minH="100vh" align="center" justify="center" bg="gray.50" px={4}>
         <Box maxW="md" w="full" bg="white" p={8} borderRadius="xl" boxShadow="lg">
-          <FolderPicker onDirectorySelected={setDirectoryHandle} />
+          <FolderPicker
+            onArchiveSelected={openArchiveSource}
+            recentArchives={recentArchives}
+            onForgetArchive={removeRecentArchive}
+          />
         </Box>
       </Flex>
     );
@@ -23,6 +47,11 @@ function AppContent() {
     <Routes>
       <Route path="/" element={<ConversationList />} />
       <Route path="/conversation/:threadId" element={<ConversationView />} />
+      <Route path="/conversation/:threadId/stats" element={<ConversationStats />} />
+      <Route path="/search" element={<SearchPage />} />
+      <Route path="/dashboard" element={<ArchiveDashboard />} />
+      <Route path="/photos" element={<PhotosPage />} />
+      <Route path="/integrity" element={<IntegrityPage />} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
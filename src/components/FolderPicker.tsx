@@ -1,29 +1,140 @@
-import React from 'react';
-import { Button, VStack, Text, Icon, useToast } from '@chakra-ui/react';
-import { FiFolder } from 'react-icons/fi';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Button,
+  VStack,
+  HStack,
+  Text,
+  Icon,
+  IconButton,
+  Divider,
+  useToast,
+} from '@chakra-ui/react';
+import { FiArchive, FiFolder, FiRotateCcw, FiX } from 'react-icons/fi';
 import { logger } from '../utils/logger';
+import { verifyArchiveAccess, type RecentArchive } from '../utils/archiveHistory';
+import type { ArchiveSource } from '../types/archive';
+import { getDroppedSource, getSelectedFilesSource } from '../utils/fileSelection';
 
 interface FolderPickerProps {
-  onDirectorySelected: (handle: FileSystemDirectoryHandle) => void;
+  // Rejects with a user-facing message if the archive holds no conversations
+  onArchiveSelected: (source: ArchiveSource) => Promise<void>;
+  recentArchives?: RecentArchive[];
+  onForgetArchive?: (key: string) => void;
+  // Override the welcome text, e.g. when adding another export to an open archive
+  title?: string;
+  description?: string;
 }
 
-export const FolderPicker: React.FC<FolderPickerProps> = ({ onDirectorySelected }) => {
+export const FolderPicker: React.FC<FolderPickerProps> = ({
+  onArchiveSelected,
+  recentArchives = [],
+  onForgetArchive,
+  title = 'Welcome to Messenger Archive Viewer',
+  description = 'Select your Facebook Messenger data export folder to begin browsing your conversations. Your data stays private and is processed entirely in your browser.',
+}) => {
   const toast = useToast();
+  const [reopeningKey, setReopeningKey] = useState<string | null>(null);
+  const [isOpeningFiles, setIsOpeningFiles] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFolderPick = async () => {
+  useEffect(() => {
+    // Not in React's input typings, but supported by every current browser
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Shared by the ZIP input, the folder input fallback and drag and drop
+  const openFiles = async (getSource: () => Promise<ArchiveSource | null>) => {
+    setIsOpeningFiles(true);
     try {
-      logger.debug('DIR_PICKED', 'Opening directory picker');
+      const source = await getSource();
+      if (!source) return;
+      logger.debug('FILES_PICKED', { kind: source.kind });
+      await onArchiveSelected(source);
+    } catch (error: any) {
+      logger.error('FILES_PICKED_ERROR', error);
+      toast({
+        title: 'Could not open archive',
+        description:
+          error.message || 'Please select the "messages" folder or the ZIP files of your export.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsOpeningFiles(false);
+    }
+  };
 
-      // Check if the File System Access API is supported
-      if (!('showDirectoryPicker' in window)) {
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    openFiles(async () => getSelectedFilesSource(files));
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    // Read the items now; the DataTransfer is emptied once the event returns
+    const droppedSource = getDroppedSource(event.dataTransfer);
+    openFiles(() => droppedSource);
+  };
+
+  const handleReopenArchive = async (archive: RecentArchive) => {
+    setReopeningKey(archive.key);
+    try {
+      const access = await verifyArchiveAccess(archive.handle, true);
+      logger.debug('ARCHIVE_REOPEN', { name: archive.name, access });
+
+      if (access === 'granted') {
+        await onArchiveSelected({ kind: 'directory', handle: archive.handle });
+      } else if (access === 'denied') {
         toast({
-          title: 'Browser not supported',
-          description:
-            'Your browser does not support the File System Access API. Please use Chrome, Edge, or another compatible browser.',
+          title: 'Permission denied',
+          description: `Allow access to "${archive.name}" or select the folder again.`,
+          status: 'warning',
+          duration: 5000,
+          isClosable: true,
+        });
+      } else {
+        toast({
+          title: 'Folder not found',
+          description: `"${archive.name}" was moved or deleted. Please select it again.`,
           status: 'error',
           duration: 5000,
           isClosable: true,
         });
+        onForgetArchive?.(archive.key);
+      }
+    } catch (error) {
+      logger.error('ARCHIVE_REOPEN_ERROR', error);
+      toast({
+        title: 'Could not reopen archive',
+        description: 'Please select the folder again.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setReopeningKey(null);
+    }
+  };
+
+  const [lastArchive, ...olderArchives] = recentArchives;
+
+  const handleFolderPick = async () => {
+    try {
+      logger.debug('DIR_PICKED', 'Opening directory picker');
+
+      // Without the File System Access API (Firefox, Safari), fall back to a folder upload input
+      if (!('showDirectoryPicker' in window)) {
+        folderInputRef.current?.click();
         return;
       }
 
@@ -33,39 +144,18 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({ onDirectorySelected
 
       logger.debug('DIR_PICKED', { name: dirHandle.name });
 
-      // Verify it contains a messages folder
+      // Opening the archive finds the messages folder inside, or rejects if there is none
       try {
-        await dirHandle.getDirectoryHandle('inbox');
-        onDirectorySelected(dirHandle);
-      } catch {
-        // Try to check if we're already inside the messages folder
-        try {
-          const entries = [];
-          for await (const entry of dirHandle.values()) {
-            entries.push(entry.name);
-          }
-
-          if (entries.some((name) => name === 'inbox' || name === 'e2ee_cutover')) {
-            onDirectorySelected(dirHandle);
-          } else {
-            toast({
-              title: 'Invalid folder',
-              description: 'Please select the "messages" folder from your Facebook data export.',
-              status: 'error',
-              duration: 5000,
-              isClosable: true,
-            });
-          }
-        } catch (error) {
-          logger.error('DIR_PICKED_ERROR', error);
-          toast({
-            title: 'Error reading folder',
-            description: 'Could not read the selected folder. Please try again.',
-            status: 'error',
-            duration: 5000,
-            isClosable: true,
-          });
-        }
+        await onArchiveSelected({ kind: 'directory', handle: dirHandle });
+      } catch (error: any) {
+        logger.error('DIR_PICKED_ERROR', error);
+        toast({
+          title: 'Invalid folder',
+          description: error.message || 'Could not read the selected folder. Please try again.',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        });
       }
     } catch (error: any) {
       if (error.name !== 'AbortError') {
@@ -82,15 +172,27 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({ onDirectorySelected
   };
 
   return (
-    <VStack spacing={8} align="center" justify="center" minH="400px">
+    <VStack
+      spacing={8}
+      align="center"
+      justify="center"
+      minH="400px"
+      borderWidth="2px"
+      borderStyle="dashed"
+      borderColor={isDragging ? 'blue.400' : 'transparent'}
+      bg={isDragging ? 'blue.50' : undefined}
+      borderRadius="xl"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <Icon as={FiFolder} boxSize={20} color="blue.500" />
       <VStack spacing={4}>
         <Text fontSize="2xl" fontWeight="bold" textAlign="center">
-          Welcome to Messenger Archive Viewer
+          {title}
         </Text>
         <Text color="gray.600" textAlign="center" maxW="500px">
-          Select your Facebook Messenger data export folder to begin browsing your conversations.
-          Your data stays private and is processed entirely in your browser.
+          {description}
         </Text>
       </VStack>
       <Button
@@ -101,9 +203,70 @@ export const FolderPicker: React.FC<FolderPickerProps> = ({ onDirectorySelected
       >
         Select Messages Folder
       </Button>
+      <Button
+        variant="ghost"
+        colorScheme="blue"
+        onClick={() => zipInputRef.current?.click()}
+        leftIcon={<Icon as={FiArchive} />}
+        isLoading={isOpeningFiles}
+        loadingText="Reading files..."
+      >
+        Open ZIP Files
+      </Button>
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        multiple
+        hidden
+        onChange={handleFilesSelected}
+      />
+      <input ref={folderInputRef} type="file" multiple hidden onChange={handleFilesSelected} />
       <Text fontSize="sm" color="gray.500" textAlign="center" maxW="400px">
-        Select the "messages" folder from your Facebook data download
+        Select the "messages" folder from your Facebook data download, or all of the export's ZIP
+        files without unzipping them. You can also drop the folder or ZIP files here, including
+        WhatsApp chat exports and Telegram Desktop JSON exports.
       </Text>
+      {lastArchive && (
+        <VStack spacing={3} w="full">
+          <Divider />
+          <Button
+            colorScheme="blue"
+            variant="outline"
+            leftIcon={<Icon as={FiRotateCcw} />}
+            onClick={() => handleReopenArchive(lastArchive)}
+            isLoading={reopeningKey === lastArchive.key}
+          >
+            Reopen last archive
+          </Button>
+          <Text fontSize="xs" color="gray.500">
+            {lastArchive.name} • opened {new Date(lastArchive.lastOpenedAt).toLocaleString()}
+          </Text>
+          {olderArchives.map((archive) => (
+            <HStack key={archive.key} w="full" spacing={2}>
+              <Button
+                flex={1}
+                size="sm"
+                variant="ghost"
+                justifyContent="flex-start"
+                onClick={() => handleReopenArchive(archive)}
+                isLoading={reopeningKey === archive.key}
+              >
+                <Text isTruncated>
+                  {archive.name} • {new Date(archive.lastOpenedAt).toLocaleDateString()}
+                </Text>
+              </Button>
+              <IconButton
+                aria-label={`Forget ${archive.name}`}
+                icon={<FiX />}
+                size="sm"
+                variant="ghost"
+                onClick={() => onForgetArchive?.(archive.key)}
+              />
+            </HStack>
+          ))}
+        </VStack>
+      )}
     </VStack>
   );
 };
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import {
+  Badge,
+  Box,
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  Heading,
+  Text,
+  VStack,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import type { Message, SystemEventKind } from '../types/messenger';
+import { getGroupHistory } from '../utils/systemEvents';
+
+const KIND_LABELS: Partial<Record<SystemEventKind, { label: string; color: string }>> = {
+  group_created: { label: 'Created', color: 'purple' },
+  member_added: { label: 'Added', color: 'green' },
+  member_joined: { label: 'Joined', color: 'green' },
+  member_removed: { label: 'Removed', color: 'red' },
+  member_left: { label: 'Left', color: 'red' },
+  group_renamed: { label: 'Renamed', color: 'blue' },
+  group_photo_changed: { label: 'Photo', color: 'blue' },
+  nickname_set: { label: 'Nickname', color: 'orange' },
+};
+
+interface GroupHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: Message[];
+  onSelect: (index: number) => void; // Scrolls the conversation to the event
+}
+
+// Membership and name changes of a group over time, grouped by year
+export const GroupHistory: React.FC<GroupHistoryProps> = ({
+  isOpen,
+  onClose,
+  messages,
+  onSelect,
+}) => {
+  const hoverBg = useColorModeValue('gray.100', 'gray.700');
+  const entries = useMemo(() => getGroupHistory(messages), [messages]);
+
+  const years = useMemo(() => {
+    const byYear = new Map<number, typeof entries>();
+    for (const entry of entries) {
+      const year = new Date(entry.timestamp_ms).getFullYear();
+      byYear.set(year, [...(byYear.get(year) ?? []), entry]);
+    }
+    return [...byYear.entries()];
+  }, [entries]);
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} placement="right" size="sm">
+      <DrawerOverlay />
+      <DrawerContent>
+        <DrawerCloseButton />
+        <DrawerHeader>Group history</DrawerHeader>
+        <DrawerBody>
+          {entries.length === 0 ? (
+            <Text color="gray.500">No membership or name changes in this conversation.</Text>
+          ) : (
+            <VStack align="stretch" spacing={6}>
+              {years.map(([year, yearEntries]) => (
+                <Box key={year}>
+                  <Heading size="sm" mb={2}>
+                    {year}
+                  </Heading>
+                  <VStack align="stretch" spacing={1}>
+                    {yearEntries.map((entry) => {
+                      const kind = KIND_LABELS[entry.event.kind];
+                      return (
+                        <Box
+                          key={entry.index}
+                          as="button"
+                          type="button"
+                          textAlign="left"
+                          px={2}
+                          py={1}
+                          borderRadius="md"
+                          _hover={{ bg: hoverBg }}
+                          onClick={() => {
+                            onSelect(entry.index);
+                            onClose();
+                          }}
+                        >
+                          <Text fontSize="xs" color="gray.500">
+                            {new Date(entry.timestamp_ms).toLocaleString()}
+                            {kind && (
+                              <Badge ml={2} colorScheme={kind.color} fontSize="2xs">
+                                {kind.label}
+                              </Badge>
+                            )}
+                          </Text>
+                          <Text fontSize="sm">{entry.text}</Text>
+                        </Box>
+                      );
+                    })}
+                  </VStack>
+                </Box>
+              ))}
+            </VStack>
+          )}
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import {
+  AspectRatio,
+  Box,
+  HStack,
+  Icon,
+  IconButton,
+  Input,
+  Select,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FiFile, FiMessageSquare, FiMusic } from 'react-icons/fi';
+import { VirtuosoGrid, type GridItemProps, type GridListProps } from 'react-virtuoso';
+import { MediaItem } from './MediaItem';
+import { MediaLightbox } from './MediaLightbox';
+import {
+  MEDIA_KINDS,
+  MEDIA_KIND_LABELS,
+  collectThreadMedia,
+  filterMedia,
+  type MediaEntry,
+  type MediaKind,
+} from '../utils/mediaGallery';
+import { parseDateRange } from '../utils/searchQuery';
+import type { Message } from '../types/messenger';
+
+interface MediaGalleryProps {
+  messages: Message[];
+  onJumpToMessage: (messageIndex: number) => void; // Shows the message in the conversation
+}
+
+const getFileName = (uri: string) => uri.split('/').pop() || uri;
+
+// Photos and videos show a thumbnail, GIFs and stickers themselves; the rest an icon
+const PREVIEW_ICONS: Partial<Record<MediaKind, typeof FiFile>> = {
+  audio: FiMusic,
+  file: FiFile,
+};
+
+const GridList = React.forwardRef<HTMLDivElement, GridListProps>(
+  ({ children, className, style }, ref) => (
+    <Box ref={ref} className={className} style={style} display="flex" flexWrap="wrap">
+      {children}
+    </Box>
+  ),
+);
+
+const GridItem: React.FC<GridItemProps> = ({ children, className, style }) => (
+  <Box className={className} style={style} w={{ base: '33.333%', sm: '25%', md: '16.666%' }} p={1}>
+    {children}
+  </Box>
+);
+
+interface MediaTileProps {
+  entry: MediaEntry;
+  onOpen: () => void;
+  onJump: () => void;
+}
+
+const MediaTile: React.FC<MediaTileProps> = ({ entry, onOpen, onJump }) => {
+  const previewIcon = PREVIEW_ICONS[entry.kind];
+  return (
+    <AspectRatio ratio={1}>
+      <Box
+        position="relative"
+        bg="gray.100"
+        borderRadius="md"
+        overflow="hidden"
+        title={`${entry.sender_name}, ${new Date(entry.timestamp_ms).toLocaleString()}`}
+      >
+        {previewIcon ? (
+          <VStack
+            as="button"
+            type="button"
+            w="full"
+            h="full"
+            justify="center"
+            spacing={1}
+            p={2}
+            color="gray.600"
+            onClick={onOpen}
+          >
+            <Icon as={previewIcon} boxSize={6} />
+            <Text fontSize="xs" noOfLines={2} wordBreak="break-all">
+              {getFileName(entry.uri)}
+            </Text>
+          </VStack>
+        ) : (
+          <MediaItem
+            uri={entry.uri}
+            altText={`${MEDIA_KIND_LABELS[entry.kind]} from ${entry.sender_name}`}
+            itemType={entry.kind}
+            onMediaClick={onOpen}
+            variant="tile"
+          />
+        )}
+        <IconButton
+          aria-label="Jump to message"
+          title="Jump to message"
+          icon={<FiMessageSquare />}
+          size="xs"
+          position="absolute"
+          top={1}
+          right={1}
+          bg="whiteAlpha.800"
+          onClick={onJump}
+        />
+      </Box>
+    </AspectRatio>
+  );
+};
+
+// Every attachment of a conversation in one grid, opened in a lightbox that swipes through
+// all of them
+export const MediaGallery: React.FC<MediaGalleryProps> = ({ messages, onJumpToMessage }) => {
+  const [kind, setKind] = useState<MediaKind | ''>('');
+  const [sender, setSender] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [lightboxIndex, setLightboxIndex] = useState(-1);
+
+  const media = useMemo(() => collectThreadMedia(messages), [messages]);
+  const senders = useMemo(
+    () => [...new Set(media.map((entry) => entry.sender_name))].sort(),
+    [media],
+  );
+
+  const entries = useMemo(
+    () =>
+      filterMedia(media, {
+        kind: kind || undefined,
+        sender: sender || undefined,
+        from: parseDateRange(fromDate)?.start,
+        to: parseDateRange(toDate)?.end, // The end date is included
+      }),
+    [media, kind, sender, fromDate, toDate],
+  );
+
+  const jumpTo = (entry: MediaEntry | undefined) => {
+    if (!entry) return;
+    setLightboxIndex(-1);
+    onJumpToMessage(entry.messageIndex);
+  };
+
+  return (
+    <VStack h="full" spacing={3} align="stretch" py={3}>
+      <HStack spacing={2} flexWrap="wrap">
+        <Select
+          size="sm"
+          w="auto"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as MediaKind | '')}
+          aria-label="Media type"
+        >
+          <option value="">All media</option>
+          {MEDIA_KINDS.map((mediaKind) => (
+            <option key={mediaKind} value={mediaKind}>
+              {MEDIA_KIND_LABELS[mediaKind]}
+            </option>
+          ))}
+        </Select>
+        <Select
+          size="sm"
+          w="auto"
+          value={sender}
+          onChange={(e) => setSender(e.target.value)}
+          aria-label="Sender"
+        >
+          <option value="">Everyone</option>
+          {senders.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </Select>
+        <Input
+          size="sm"
+          w="auto"
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          aria-label="From date"
+        />
+        <Input
+          size="sm"
+          w="auto"
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          aria-label="To date"
+        />
+        <Text fontSize="sm" color="gray.500">
+          {entries.length.toLocaleString()} of {media.length.toLocaleString()}
+        </Text>
+      </HStack>
+
+      {entries.length === 0 ? (
+        <Text color="gray.500" fontSize="sm">
+          {media.length === 0 ? 'No media in this conversation' : 'No media matches the filters'}
+        </Text>
+      ) : (
+        <Box flex={1} minH={0}>
+          <VirtuosoGrid
+            style={{ height: '100%' }}
+            totalCount={entries.length}
+            components={{ List: GridList, Item: GridItem }}
+            itemContent={(index) => (
+              <MediaTile
+                entry={entries[index]}
+                onOpen={() => setLightboxIndex(index)}
+                onJump={() => jumpTo(entries[index])}
+              />
+            )}
+          />
+        </Box>
+      )}
+
+      <MediaLightbox
+        items={entries}
+        index={lightboxIndex}
+        onClose={() => setLightboxIndex(-1)}
+        onJump={(index) => jumpTo(entries[index])}
+        jumpLabel="Jump to message"
+      />
+    </VStack>
+  );
+};
@@ -0,0 +1,207 @@
+import React from 'react';
+import {
+  AspectRatio,
+  Box,
+  Button,
+  Center,
+  HStack,
+  Icon,
+  Image,
+  Link,
+  Skeleton,
+  Text,
+} from '@chakra-ui/react';
+import { FiDownload, FiMusic, FiPlay } from 'react-icons/fi';
+import ReactPlayer from 'react-player';
+import type { MediaKind } from '../utils/mediaGallery';
+import { getMediaPath, type MediaErrorKind } from '../utils/mediaResolver';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+
+// Exports often leave media out, so missing files are shown quieter than failures
+const MEDIA_ERROR_DISPLAY: Record<MediaErrorKind, { label: string; color: string; hint: string }> =
+  {
+    'not-found': { label: 'Missing', color: 'gray', hint: 'The file is not in this export' },
+    'permission-denied': {
+      label: 'No access',
+      color: 'orange',
+      hint: 'Open the archive again to allow reading its files',
+    },
+    unreadable: { label: 'Failed', color: 'red', hint: 'The file could not be read' },
+  };
+
+// Helper component to manage individual media item loading and display
+interface MediaItemProps {
+  uri: string;
+  altText: string;
+  itemType: MediaKind;
+  onMediaClick?: () => void; // Renamed from onImageClick, for photos, videos, gifs
+  fileName?: string; // For file attachments
+  // "tile" fills a square of the media gallery, "slide" fits a lightbox slide
+  variant?: 'bubble' | 'tile' | 'slide';
+}
+
+export const MediaItem: React.FC<MediaItemProps> = ({
+  uri,
+  altText,
+  itemType,
+  onMediaClick,
+  fileName,
+  variant = 'bubble',
+}) => {
+  // Bubbles and tiles show a thumbnail; the original is only loaded in the lightbox
+  const thumbnailKind =
+    variant !== 'slide' && (itemType === 'photo' || itemType === 'video') ? itemType : undefined;
+  const { media, isLoading, error } = useMediaUrl(uri, thumbnailKind);
+  const objectUrl = media?.url;
+  const isThumbnail = media?.isThumbnail ?? false;
+
+  if (isLoading) {
+    return variant === 'bubble' ? (
+      <Skeleton height="100px" width="100px" borderRadius="md" />
+    ) : (
+      <Skeleton height="full" width="full" borderRadius="md" />
+    );
+  }
+
+  if (error) {
+    const { label, color, hint } = MEDIA_ERROR_DISPLAY[error.kind];
+    return (
+      <Box
+        p={1}
+        borderWidth="1px"
+        borderRadius="md"
+        borderColor={`${color}.300`}
+        bg={`${color}.50`}
+        maxW="150px"
+        title={`${hint}\n${error.message}`}
+      >
+        <Text fontSize="xs" color={`${color}.500`} isTruncated>
+          {label}: {fileName || getMediaPath(uri).fileName || uri}
+        </Text>
+      </Box>
+    );
+  }
+
+  if (!objectUrl) return null;
+
+  switch (itemType) {
+    case 'photo':
+    case 'gif':
+    case 'sticker':
+      if (variant === 'tile') {
+        return (
+          <Image
+            src={objectUrl}
+            alt={altText}
+            w="full"
+            h="full"
+            borderRadius="md"
+            cursor={onMediaClick ? 'pointer' : 'default'}
+            onClick={onMediaClick}
+            objectFit={itemType === 'sticker' ? 'contain' : 'cover'}
+          />
+        );
+      }
+      if (variant === 'slide') {
+        return <Image src={objectUrl} alt={altText} maxW="full" maxH="full" objectFit="contain" />;
+      }
+      return (
+        <Image
+          src={objectUrl}
+          alt={altText}
+          maxH={itemType === 'sticker' ? '100px' : '200px'} // Stickers usually smaller
+          borderRadius="md"
+          cursor={onMediaClick ? 'pointer' : 'default'}
+          onClick={onMediaClick}
+          loading="lazy"
+          objectFit="contain"
+        />
+      );
+    case 'video':
+      if (isThumbnail) {
+        return (
+          <Box
+            position="relative"
+            w={variant === 'tile' ? 'full' : undefined}
+            h={variant === 'tile' ? 'full' : undefined}
+            cursor={onMediaClick ? 'pointer' : 'default'}
+            onClick={onMediaClick}
+          >
+            <Image
+              src={objectUrl}
+              alt={altText}
+              w={variant === 'tile' ? 'full' : undefined}
+              h={variant === 'tile' ? 'full' : undefined}
+              maxH={variant === 'tile' ? undefined : '200px'}
+              borderRadius="md"
+              objectFit="cover"
+            />
+            <Center position="absolute" inset={0} pointerEvents="none">
+              <Icon as={FiPlay} boxSize={10} color="white" filter="drop-shadow(0 0 4px black)" />
+            </Center>
+          </Box>
+        );
+      }
+      if (variant === 'tile') {
+        return (
+          <Center
+            as="button"
+            type="button"
+            w="full"
+            h="full"
+            color="gray.600"
+            onClick={onMediaClick}
+          >
+            <Icon as={FiPlay} boxSize={8} />
+          </Center>
+        );
+      }
+      if (variant === 'slide') {
+        return (
+          <Box w="full" h="full" maxW="1200px" maxH="80vh">
+            <ReactPlayer url={objectUrl} controls width="100%" height="100%" />
+          </Box>
+        );
+      }
+      return (
+        <Box
+          onClick={onMediaClick}
+          cursor={onMediaClick ? 'pointer' : 'default'}
+          maxW={{ base: '100%', sm: '320px', md: '480px' }} // Increased and responsive max width
+          w="full"
+        >
+          <AspectRatio ratio={16 / 9} w="full">
+            <ReactPlayer url={objectUrl} controls width="100%" height="100%" />
+          </AspectRatio>
+        </Box>
+      );
+    case 'audio':
+      return (
+        <HStack>
+          <Icon as={FiMusic} />
+          <ReactPlayer
+            url={objectUrl}
+            controls
+            width="250px"
+            height="40px"
+            config={{ file: { forceAudio: true } }}
+          />
+        </HStack>
+      );
+    case 'file':
+      return (
+        <Button
+          as={Link}
+          href={objectUrl}
+          download={fileName || 'download'}
+          leftIcon={<FiDownload />}
+          size="sm"
+          variant="outline"
+        >
+          {fileName || 'Download File'}
+        </Button>
+      );
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { Box } from '@chakra-ui/react';
+import { FiMessageSquare } from 'react-icons/fi';
+import Lightbox from 'yet-another-react-lightbox';
+import 'yet-another-react-lightbox/styles.css';
+import { MediaItem } from './MediaItem';
+import type { MediaKind } from '../utils/mediaGallery';
+
+export interface LightboxMedia {
+  uri: string;
+  kind: MediaKind;
+}
+
+interface MediaLightboxProps {
+  items: LightboxMedia[];
+  index: number; // Item to open with, -1 while closed
+  onClose: () => void;
+  // Adds a toolbar button that is called with the item on display
+  onJump?: (index: number) => void;
+  jumpLabel?: string;
+}
+
+const getFileName = (uri: string) => uri.split('/').pop() || uri;
+
+// Lightbox over a list of media. Slides are rendered with MediaItem and looked up by URI,
+// so only the slides next to the open one are loaded.
+export const MediaLightbox: React.FC<MediaLightboxProps> = ({
+  items,
+  index,
+  onClose,
+  onJump,
+  jumpLabel,
+}) => {
+  const [viewedIndex, setViewedIndex] = useState<number | null>(null);
+
+  const itemsByUri = useMemo(() => new Map(items.map((item) => [item.uri, item])), [items]);
+  const slides = useMemo(
+    () => items.map((item) => ({ src: item.uri, alt: getFileName(item.uri) })),
+    [items],
+  );
+
+  const close = () => {
+    setViewedIndex(null);
+    onClose();
+  };
+
+  return (
+    <Lightbox
+      open={index >= 0}
+      close={close}
+      index={Math.max(index, 0)}
+      slides={slides}
+      on={{ view: ({ index: current }) => setViewedIndex(current) }}
+      toolbar={{
+        buttons: [
+          onJump && (
+            <button
+              key="jump"
+              type="button"
+              className="yarl__button"
+              aria-label={jumpLabel}
+              title={jumpLabel}
+              onClick={() => {
+                const current = viewedIndex ?? index;
+                close();
+                onJump(current);
+              }}
+            >
+              <FiMessageSquare size={24} />
+            </button>
+          ),
+          'close',
+        ].filter(Boolean),
+      }}
+      render={{
+        slide: ({ slide }) => {
+          const item = 'src' in slide ? itemsByUri.get(slide.src) : undefined;
+          if (!item) return undefined;
+          const media = (
+            <MediaItem
+              uri={item.uri}
+              altText={getFileName(item.uri)}
+              itemType={item.kind}
+              fileName={getFileName(item.uri)}
+              variant="slide"
+            />
+          );
+          // Players and download buttons are styled for a light background
+          return item.kind === 'audio' || item.kind === 'file' ? (
+            <Box bg="white" p={4} borderRadius="md">
+              {media}
+            </Box>
+          ) : (
+            media
+          );
+        },
+      }}
+    />
+  );
+};
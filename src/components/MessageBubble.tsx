@@ -1,235 +1,125 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Box,
   Text,
   HStack,
   VStack,
-  Image,
   Badge,
   useColorModeValue,
-  AspectRatio,
   Icon,
   Wrap,
   WrapItem,
   Avatar,
   Link,
-  Button,
-  Skeleton,
   Tooltip,
 } from '@chakra-ui/react';
-import { FiPlay, FiMusic, FiDownload } from 'react-icons/fi';
-import ReactPlayer from 'react-player';
-import Lightbox from 'yet-another-react-lightbox';
-import Video from 'yet-another-react-lightbox/plugins/video';
-import 'yet-another-react-lightbox/styles.css';
-import type { Message, Attachment as AttachmentType } from '../types/messenger';
+import { FiPlay } from 'react-icons/fi';
+import type {
+  Message,
+  Attachment as AttachmentType,
+  ReplyReference,
+  Share,
+} from '../types/messenger';
 import { useAppContext } from '../context/AppContext';
 import { getAvatarColor } from '../utils/avatarColors';
-import { logger } from '../utils/logger';
+import { getHighlightTerms } from '../utils/searchQuery';
+import { MediaItem } from './MediaItem';
+import { MediaLightbox, type LightboxMedia } from './MediaLightbox';
 
 interface MessageBubbleProps {
   message: Message;
   isHighlighted?: boolean;
   searchQuery?: string;
+  onReplyClick?: (reply: ReplyReference) => void; // Jumps to the message a reply quotes
 }
 
-// Helper component to manage individual media item loading and display
-interface MediaItemProps {
-  uri: string;
-  altText: string;
-  itemType: 'photo' | 'video' | 'audio' | 'gif' | 'sticker' | 'file';
-  onMediaClick?: () => void; // Renamed from onImageClick, for photos, videos, gifs
-  fileName?: string; // For file attachments
-}
-
-const MediaItem: React.FC<MediaItemProps> = ({
-  uri,
-  altText,
-  itemType,
-  onMediaClick,
-  fileName,
-}) => {
-  const { directoryHandle } = useAppContext();
-  const [objectUrl, setObjectUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let isActive = true;
-    let currentObjectUrl: string | null = null;
-
-    const loadMedia = async () => {
-      if (!directoryHandle || !uri) {
-        if (isActive) {
-          // Check if it's an external URL (e.g. from a share)
-          if (uri && (uri.startsWith('http://') || uri.startsWith('https://'))) {
-            setObjectUrl(uri); // Use direct URL
-            setIsLoading(false);
-            return;
-          }
-          setError('Missing directory handle or URI');
-          setIsLoading(false);
-        }
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const pathSegments = uri.split('/');
-        const fileName = pathSegments.pop();
-        if (!fileName) {
-          throw new Error('Invalid media URI (no filename)');
-        }
-
-        let currentFsHandle = directoryHandle;
-        for (const segment of pathSegments) {
-          if (
-            segment === '.' ||
-            segment === '' ||
-            segment === 'your_facebook_activity' ||
-            segment === 'messages'
-          ) {
-            // Skip '.', '', and ignore potential "your_facebook_activity/messages/" prefix if it somehow remains
-            if (segment === 'messages' && uri.startsWith('messages/')) {
-              // This case should ideally not happen if worker normalized correctly,
-              // but as a safeguard, if URI starts with "messages/", we assume directoryHandle is already "messages"
-              // and we should not try to get "messages" dir handle again from itself.
-              continue;
-            } else if (segment === 'your_facebook_activity') {
-              continue; // This segment should have been stripped by worker.
-            } else if (segment) {
-              // Ensure segment is not empty before trying to get handle
-              currentFsHandle = await currentFsHandle.getDirectoryHandle(segment);
-            }
-          } else {
-            currentFsHandle = await currentFsHandle.getDirectoryHandle(segment);
-          }
-        }
-
-        const fileHandle = await currentFsHandle.getFileHandle(fileName);
-        const file = await fileHandle.getFile();
-
-        currentObjectUrl = URL.createObjectURL(file);
-        if (isActive) {
-          setObjectUrl(currentObjectUrl);
-        }
-      } catch (err: any) {
-        logger.error('MEDIA_LOAD_ERROR', {
-          uri,
-          type: itemType,
-          error: err.message,
-          stack: err.stack,
-        });
-        if (isActive) {
-          setError(`Failed: ${fileName || uri}`);
-        }
-      } finally {
-        if (isActive) {
-          setIsLoading(false);
-        }
-      }
-    };
-
-    loadMedia();
+// "example.com" for "https://www.example.com/page", or the link itself if it isn't a URL
+const getLinkHost = (link: string) => {
+  try {
+    return new URL(link).hostname.replace(/^www\./, '');
+  } catch {
+    return link;
+  }
+};
 
-    return () => {
-      isActive = false;
-      if (currentObjectUrl && !currentObjectUrl.startsWith('http')) {
-        // Don't revoke external URLs
-        URL.revokeObjectURL(currentObjectUrl);
-        logger.debug('MEDIA_URL_REVOKED', { url: currentObjectUrl });
-      }
-    };
-  }, [directoryHandle, uri, itemType]);
+interface ReplyQuoteProps {
+  reply: ReplyReference;
+  isMyMessage: boolean;
+  onClick?: () => void;
+}
 
-  if (isLoading) {
-    return <Skeleton height="100px" width="100px" borderRadius="md" />;
-  }
+const ReplyQuote: React.FC<ReplyQuoteProps> = ({ reply, isMyMessage, onClick }) => (
+  <Box
+    as="button"
+    type="button"
+    display="block"
+    w="full"
+    textAlign="left"
+    mb={2}
+    pl={2}
+    borderLeftWidth="3px"
+    borderColor={isMyMessage ? 'whiteAlpha.700' : 'gray.400'}
+    color={isMyMessage ? 'whiteAlpha.900' : 'gray.600'}
+    fontSize="xs"
+    cursor={onClick ? 'pointer' : 'default'}
+    title={onClick ? 'Go to the original message' : undefined}
+    onClick={onClick}
+  >
+    <Text fontWeight="semibold">{reply.sender_name ?? 'Reply'}</Text>
+    <Text noOfLines={2}>{reply.content ?? 'Original message'}</Text>
+  </Box>
+);
+
+interface LinkPreviewProps {
+  share: Share;
+  isMyMessage: boolean;
+}
 
-  if (error) {
-    return (
-      <Box p={1} borderWidth="1px" borderRadius="md" borderColor="red.300" bg="red.50" maxW="150px">
-        <Text fontSize="xs" color="red.500" isTruncated title={error}>
-          {error}
+// Exports don't keep the page's preview image, so the card shows the site and shared text
+const LinkPreview: React.FC<LinkPreviewProps> = ({ share, isMyMessage }) => {
+  const cardBg = useColorModeValue('white', 'gray.800');
+  const card = (
+    <Box
+      p={2}
+      borderRadius="md"
+      bg={isMyMessage ? 'whiteAlpha.200' : cardBg}
+      color={isMyMessage ? 'white' : undefined}
+    >
+      {share.link && (
+        <Text fontSize="xs" fontWeight="semibold" noOfLines={1}>
+          {getLinkHost(share.link)}
         </Text>
-      </Box>
-    );
-  }
+      )}
+      {share.share_text && (
+        <Text fontSize="sm" noOfLines={3}>
+          {share.share_text}
+        </Text>
+      )}
+      {share.original_content_owner && (
+        <Text fontSize="xs" opacity={0.8}>
+          @{share.original_content_owner}
+        </Text>
+      )}
+    </Box>
+  );
 
-  if (!objectUrl) return null;
-
-  switch (itemType) {
-    case 'photo':
-    case 'gif':
-    case 'sticker':
-      return (
-        <Image
-          src={objectUrl}
-          alt={altText}
-          maxH={itemType === 'sticker' ? '100px' : '200px'} // Stickers usually smaller
-          borderRadius="md"
-          cursor={onMediaClick ? 'pointer' : 'default'}
-          onClick={onMediaClick}
-          loading="lazy"
-          objectFit="contain"
-        />
-      );
-    case 'video':
-      return (
-        <Box
-          onClick={onMediaClick}
-          cursor={onMediaClick ? 'pointer' : 'default'}
-          maxW={{ base: '100%', sm: '320px', md: '480px' }} // Increased and responsive max width
-          w="full"
-        >
-          <AspectRatio ratio={16 / 9} w="full">
-            <ReactPlayer url={objectUrl} controls width="100%" height="100%" />
-          </AspectRatio>
-        </Box>
-      );
-    case 'audio':
-      return (
-        <HStack>
-          <Icon as={FiMusic} />
-          <ReactPlayer
-            url={objectUrl}
-            controls
-            width="250px"
-            height="40px"
-            config={{ file: { forceAudio: true } }}
-          />
-        </HStack>
-      );
-    case 'file':
-      return (
-        <Button
-          as={Link}
-          href={objectUrl}
-          download={fileName || 'download'}
-          leftIcon={<FiDownload />}
-          size="sm"
-          variant="outline"
-        >
-          {fileName || 'Download File'}
-        </Button>
-      );
-    default:
-      return null;
-  }
+  if (!share.link) return card;
+  return (
+    <Link href={share.link} isExternal display="block" _hover={{ textDecoration: 'none' }}>
+      {card}
+    </Link>
+  );
 };
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({
   message,
   isHighlighted = false,
   searchQuery = '',
+  onReplyClick,
 }) => {
-  const [lightboxOpen, setLightboxOpen] = useState(false);
-  const [lightboxSlides, setLightboxSlides] = useState<any[]>([]);
-  const [currentLightboxIndex, setCurrentLightboxIndex] = useState(0);
+  const [lightboxIndex, setLightboxIndex] = useState(-1);
 
-  const { currentUserName, directoryHandle } = useAppContext();
+  const { currentUserName } = useAppContext();
 
   const otherTextColor = useColorModeValue('gray.800', 'whiteAlpha.900');
   const otherMetaTextColor = useColorModeValue('gray.500', 'gray.400');
@@ -257,15 +147,20 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     return date.toLocaleString();
   };
 
+  const highlightTerms = useMemo(() => getHighlightTerms(searchQuery), [searchQuery]);
+
   const highlightText = (text: string | undefined) => {
     if (!text) return '';
-    if (!searchQuery) return text;
+    if (highlightTerms.length === 0) return text;
 
     const parts = text.split(
-      new RegExp(`(${searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'),
+      new RegExp(
+        `(${highlightTerms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+        'gi',
+      ),
     );
     return parts.map((part, i) =>
-      part.toLowerCase() === searchQuery.toLowerCase() ? (
+      highlightTerms.some((term) => part.toLowerCase() === term.toLowerCase()) ? (
         <Text
           as="mark"
           key={i}
@@ -307,127 +202,17 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     }));
   }, [message.reactions]);
 
-  const collectLightboxSlides = useCallback(async () => {
-    if (!directoryHandle) {
-      setLightboxSlides([]);
-      return () => {}; // Return an empty cleanup function
-    }
-
-    const newResolvedSlides: any[] = [];
-    let active = true; // To prevent state updates on unmounted component
-
-    const processMedia = async () => {
-      // Process photos
-      if (message.photos) {
-        for (let i = 0; i < message.photos.length; i++) {
-          const photo = message.photos[i];
-          try {
-            const pathSegments = photo.uri.split('/');
-            const fileName = pathSegments.pop();
-            if (!fileName) continue;
-
-            let currentFsHandle = directoryHandle;
-            for (const segment of pathSegments) {
-              if (
-                segment === '.' ||
-                segment === '' ||
-                segment === 'your_facebook_activity' ||
-                segment === 'messages'
-              )
-                continue;
-              if (segment) currentFsHandle = await currentFsHandle.getDirectoryHandle(segment);
-            }
-            const fileHandle = await currentFsHandle.getFileHandle(fileName);
-            const file = await fileHandle.getFile();
-            const objectUrl = URL.createObjectURL(file);
-            if (active) {
-              newResolvedSlides.push({
-                src: objectUrl,
-                type: 'image',
-                alt: `Photo ${i + 1} from ${message.sender_name}`,
-              });
-            }
-          } catch (err) {
-            logger.error('LIGHTBOX_PHOTO_LOAD_ERROR', { uri: photo.uri, error: err });
-          }
-        }
-      }
-
-      // Process videos
-      if (message.videos) {
-        for (let i = 0; i < message.videos.length; i++) {
-          const video = message.videos[i];
-          try {
-            const pathSegments = video.uri.split('/');
-            const fileName = pathSegments.pop();
-            if (!fileName) continue;
-
-            let currentFsHandle = directoryHandle;
-            for (const segment of pathSegments) {
-              if (
-                segment === '.' ||
-                segment === '' ||
-                segment === 'your_facebook_activity' ||
-                segment === 'messages'
-              )
-                continue;
-              if (segment) currentFsHandle = await currentFsHandle.getDirectoryHandle(segment);
-            }
-            const fileHandle = await currentFsHandle.getFileHandle(fileName);
-            const file = await fileHandle.getFile();
-            const objectUrl = URL.createObjectURL(file);
-            if (active) {
-              newResolvedSlides.push({
-                type: 'video',
-                alt: `Video ${i + 1} from ${message.sender_name}`,
-                sources: [{ src: objectUrl, type: file.type || 'video/mp4' }], // Use file.type, fallback to video/mp4
-              });
-            }
-          } catch (err) {
-            logger.error('LIGHTBOX_VIDEO_LOAD_ERROR', { uri: video.uri, error: err });
-          }
-        }
-      }
-      if (active) {
-        setLightboxSlides(newResolvedSlides);
-      }
-    };
-
-    processMedia();
-
-    return () => {
-      // Cleanup function
-      active = false;
-      newResolvedSlides.forEach((slide: any) => {
-        if (slide.src && slide.src.startsWith('blob:')) {
-          URL.revokeObjectURL(slide.src);
-        }
-        if (slide.type === 'video' && slide.sources) {
-          slide.sources.forEach((source: any) => {
-            if (source.src.startsWith('blob:')) {
-              URL.revokeObjectURL(source.src);
-            }
-          });
-        }
-      });
-      logger.debug('LIGHTBOX_SLIDES_CLEANED_UP', { count: newResolvedSlides.length });
-    };
-  }, [message.photos, message.videos, directoryHandle, message.sender_name]);
-
-  useEffect(() => {
-    let revokeUrls = () => {};
-    if (lightboxOpen) {
-      // Only resolve all if lightbox is to be opened
-      collectLightboxSlides().then((cleanup) => {
-        if (cleanup) revokeUrls = cleanup;
-      });
-    }
-    return () => revokeUrls(); // Revoke on unmount or when lightboxOpen changes
-  }, [lightboxOpen, collectLightboxSlides]);
+  // Photos then videos, as numbered by handleMediaItemClick
+  const lightboxItems = useMemo<LightboxMedia[]>(
+    () => [
+      ...(message.photos ?? []).map(({ uri }) => ({ uri, kind: 'photo' as const })),
+      ...(message.videos ?? []).map(({ uri }) => ({ uri, kind: 'video' as const })),
+    ],
+    [message.photos, message.videos],
+  );
 
   const handleMediaItemClick = (itemGlobalIndex: number) => {
-    setCurrentLightboxIndex(itemGlobalIndex);
-    setLightboxOpen(true);
+    setLightboxIndex(itemGlobalIndex);
   };
 
   return (
@@ -464,6 +249,11 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
           >
             {!isMyMessage && <Text fontWeight="medium">{highlightText(message.sender_name)}</Text>}
             <Text>{formatTime(message.timestamp_ms)}</Text>
+            {message.edited_timestamp_ms !== undefined && (
+              <Tooltip label={`Edited ${formatTime(message.edited_timestamp_ms)}`} hasArrow>
+                <Text fontStyle="italic">edited</Text>
+              </Tooltip>
+            )}
           </HStack>
 
           <Box
@@ -476,12 +266,32 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
             maxW="full"
             boxShadow="sm"
           >
+            {message.reply_to && (
+              <ReplyQuote
+                reply={message.reply_to}
+                isMyMessage={Boolean(isMyMessage)}
+                onClick={onReplyClick && (() => onReplyClick(message.reply_to!))}
+              />
+            )}
+
             {message.content && (
               <Text whiteSpace="pre-wrap" color={textColor} fontSize={{ base: 'sm', md: 'sm' }}>
                 {highlightText(message.content)}
               </Text>
             )}
 
+            {(message.share?.link || message.share?.share_text) && (
+              <Box mt={message.content ? 2 : 0}>
+                <LinkPreview share={message.share} isMyMessage={Boolean(isMyMessage)} />
+              </Box>
+            )}
+
+            {(message.story_share?.link || message.story_share?.share_text) && (
+              <Box mt={message.content ? 2 : 0}>
+                <LinkPreview share={message.story_share} isMyMessage={Boolean(isMyMessage)} />
+              </Box>
+            )}
+
             {/* Photos */}
             {message.photos && message.photos.length > 0 && (
               <Wrap
@@ -653,13 +463,11 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
         )}
       </HStack>
 
-      {lightboxOpen && (message.photos || message.videos) && (
-        <Lightbox
-          open={lightboxOpen}
-          close={() => setLightboxOpen(false)}
-          slides={lightboxSlides}
-          index={currentLightboxIndex}
-          plugins={[Video]} // Add the Video plugin
+      {lightboxItems.length > 0 && (
+        <MediaLightbox
+          items={lightboxItems}
+          index={lightboxIndex}
+          onClose={() => setLightboxIndex(-1)}
         />
       )}
     </>
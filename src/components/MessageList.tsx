@@ -1,11 +1,21 @@
-import React, { useCallback, useRef, useEffect, useImperativeHandle } from 'react';
+import React, {
+  useCallback,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useImperativeHandle,
+  useMemo,
+  useState,
+} from 'react';
 import { Virtuoso } from 'react-virtuoso';
 import type { VirtuosoHandle, ListRange } from 'react-virtuoso';
 import { Box } from '@chakra-ui/react';
 import { MessageBubble } from './MessageBubble';
+import { SystemEventRow } from './SystemEventRow';
 import { logger } from '../utils/logger';
-import type { Message } from '../types/messenger';
+import type { Message, ReplyReference } from '../types/messenger';
 import Fuse from 'fuse.js';
+import { parseSearchQuery, isPlainQuery, matchesQuery } from '../utils/searchQuery';
 
 export interface MessageListHandle {
   navigateToNextResult: () => void;
@@ -21,14 +31,19 @@ interface MessageListProps {
   searchQuery: string;
   onUpdateSearchResults: (count: number, currentIndexInResultsArray: number) => void;
   onVisibleDateChanged: (date: Date | null) => void; // New prop
+  focusedIndex?: number; // Message opened from a link, e.g. an archive-wide search hit
 }
 
 export const MessageList = React.forwardRef<MessageListHandle, MessageListProps>(
-  ({ messages, searchQuery, onUpdateSearchResults, onVisibleDateChanged }, ref) => {
+  ({ messages, searchQuery, onUpdateSearchResults, onVisibleDateChanged, focusedIndex }, ref) => {
     const virtuosoRef = useRef<VirtuosoHandle>(null);
     const searchResultsRef = useRef<number[]>([]);
     const currentSearchIndexRef = useRef(0);
     const isScrollingRef = useRef(false);
+    const topVisibleMessageRef = useRef<Message | undefined>(undefined);
+    const firstMessageRef = useRef<Message | undefined>(messages[0]);
+    // Original message opened from a reply, highlighted until another one is opened
+    const [replyTarget, setReplyTarget] = useState<Message>();
 
     useEffect(() => {
       logger.debug('LIST_MOUNTED', { messageCount: messages.length });
@@ -48,8 +63,38 @@ export const MessageList = React.forwardRef<MessageListHandle, MessageListProps>
       }
     }, []);
 
+    const indexByMessageId = useMemo(() => {
+      const indexes = new Map<string, number>();
+      messages.forEach((message, index) => {
+        if (message.message_id) indexes.set(message.message_id, index);
+      });
+      return indexes;
+    }, [messages]);
+
+    // Replies name the original by id when the export has ids, otherwise by time and sender
+    const handleReplyClick = useCallback(
+      (reply: ReplyReference) => {
+        let index = reply.message_id ? indexByMessageId.get(reply.message_id) : undefined;
+        if (index === undefined && reply.timestamp_ms !== undefined) {
+          index = messages.findIndex(
+            (message) =>
+              message.timestamp_ms === reply.timestamp_ms &&
+              (!reply.sender_name || message.sender_name === reply.sender_name),
+          );
+        }
+        if (index === undefined || index < 0) {
+          logger.debug('REPLY_TARGET_NOT_FOUND', { messageId: reply.message_id });
+          return;
+        }
+        setReplyTarget(messages[index]);
+        jumpToMessage(index);
+      },
+      [messages, indexByMessageId, jumpToMessage],
+    );
+
     const handleRangeChanged = useCallback(
       (range: ListRange) => {
+        topVisibleMessageRef.current = messages[range.startIndex];
         if (!isScrollingRef.current && messages[range.startIndex]) {
           const topMessage = messages[range.startIndex];
           const topMessageDate = new Date(topMessage.timestamp_ms);
@@ -65,20 +110,52 @@ export const MessageList = React.forwardRef<MessageListHandle, MessageListProps>
       [messages, onVisibleDateChanged],
     );
 
+    // While a thread is still streaming in, older messages get prepended. Keep the message
+    // the user is looking at in place instead of letting the list jump to older ones.
+    useLayoutEffect(() => {
+      const previousFirstMessage = firstMessageRef.current;
+      firstMessageRef.current = messages[0];
+      const anchor = topVisibleMessageRef.current;
+      if (!previousFirstMessage || previousFirstMessage === messages[0] || !anchor) return;
+
+      const anchorIndex = messages.indexOf(anchor);
+      if (anchorIndex > 0) {
+        virtuosoRef.current?.scrollToIndex({
+          index: anchorIndex,
+          align: 'start',
+          behavior: 'auto',
+        });
+      }
+    }, [messages]);
+
     useEffect(() => {
       if (searchQuery) {
         logger.debug('SEARCH_QUERY', { query: searchQuery });
 
-        // Create Fuse instance for fuzzy search
-        const fuse = new Fuse(messages, {
-          keys: ['content', 'sender_name'],
-          threshold: 0.4,
-          includeScore: true,
-        });
+        const queryNode = parseSearchQuery(searchQuery);
 
-        const results = fuse.search(searchQuery);
-        searchResultsRef.current = results.map((r) => r.refIndex);
+        if (isPlainQuery(queryNode)) {
+          // Create Fuse instance for fuzzy search
+          const fuse = new Fuse(messages, {
+            keys: ['content', 'sender_name'],
+            threshold: 0.4,
+            includeScore: true,
+          });
+
+          searchResultsRef.current = fuse.search(searchQuery).map((r) => r.refIndex);
+        } else {
+          // Structured queries (from:, has:, quoted phrases, OR...) filter in chronological order
+          searchResultsRef.current = [];
+          if (queryNode) {
+            messages.forEach((message, index) => {
+              if (matchesQuery(message, queryNode)) {
+                searchResultsRef.current.push(index);
+              }
+            });
+          }
+        }
 
+        const results = searchResultsRef.current;
         logger.debug('SEARCH_RESULTS_COUNT', { count: results.length });
 
         // Jump to first result and update search state
@@ -134,19 +211,27 @@ export const MessageList = React.forwardRef<MessageListHandle, MessageListProps>
     const itemContent = useCallback(
       (index: number) => {
         const message = messages[index];
-        const isHighlighted = Boolean(searchQuery && isMessageHighlighted(index));
+        const isHighlighted =
+          Boolean(searchQuery && isMessageHighlighted(index)) ||
+          index === focusedIndex ||
+          message === replyTarget;
 
         return (
           <Box px={4}>
-            <MessageBubble
-              message={message}
-              isHighlighted={isHighlighted}
-              searchQuery={searchQuery}
-            />
+            {message.system_event ? (
+              <SystemEventRow message={message} isHighlighted={isHighlighted} />
+            ) : (
+              <MessageBubble
+                message={message}
+                isHighlighted={isHighlighted}
+                searchQuery={searchQuery}
+                onReplyClick={handleReplyClick}
+              />
+            )}
           </Box>
         );
       },
-      [messages, searchQuery, isMessageHighlighted],
+      [messages, searchQuery, isMessageHighlighted, focusedIndex, replyTarget, handleReplyClick],
     );
 
     return (
@@ -156,7 +241,11 @@ export const MessageList = React.forwardRef<MessageListHandle, MessageListProps>
           data={messages}
           itemContent={itemContent}
           overscan={200}
-          initialTopMostItemIndex={messages.length - 1}
+          initialTopMostItemIndex={
+            focusedIndex !== undefined && focusedIndex >= 0
+              ? { index: focusedIndex, align: 'center' }
+              : messages.length - 1
+          }
           followOutput={false}
           style={{ height: '100%' }}
           isScrolling={(scrolling: boolean) => {
@@ -237,4 +237,4 @@ export const MessageTimeline: React.FC<MessageTimelineProps> = ({
       </Text>
     </VStack>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  HStack,
+  Text,
+  Select,
+  SimpleGrid,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  computeResponseAnalytics,
+  DEFAULT_SESSION_GAP_MS,
+  type ParticipantResponses,
+  type YearResponses,
+} from '../utils/responseAnalytics';
+import { CHART_COLORS, formatDuration } from '../utils/chartFormat';
+import type { Message } from '../types/messenger';
+
+interface ResponseTimesProps {
+  messages: Message[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const SESSION_GAP_OPTIONS = [1, 3, 6, 12, 24].map((hours) => hours * HOUR_MS);
+
+// Charts get unreadable with more series than colors; the table still lists everyone
+const MAX_CHART_PARTICIPANTS = CHART_COLORS.length;
+
+// Reads one participant's figure for a year; names can contain dots, which recharts
+// would take for a path in a string dataKey
+const yearValue =
+  (index: number, read: (participant: ParticipantResponses) => number | undefined) =>
+  (year: YearResponses) =>
+    read(year.participants[index]);
+
+const toMinutes = (ms?: number) => (ms === undefined ? undefined : Math.round(ms / 6000) / 10);
+
+export const ResponseTimes: React.FC<ResponseTimesProps> = ({ messages }) => {
+  const [sessionGapMs, setSessionGapMs] = useState(DEFAULT_SESSION_GAP_MS);
+  const cardBg = useColorModeValue('white', 'gray.800');
+
+  const analytics = useMemo(
+    () => computeResponseAnalytics(messages, { sessionGapMs }),
+    [messages, sessionGapMs],
+  );
+  const charted = analytics.participants.slice(0, MAX_CHART_PARTICIPANTS);
+
+  if (analytics.participants.length === 0) return null;
+
+  return (
+    <Box bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+      <HStack justify="space-between" mb={4} flexWrap="wrap" gap={2}>
+        <Box>
+          <Text fontWeight="600" color="gray.800">
+            Conversations and replies
+          </Text>
+          <Text fontSize="sm" color="gray.500">
+            {analytics.sessions.toLocaleString()} conversations, counting a new one after
+          </Text>
+        </Box>
+        <Select
+          size="sm"
+          w="auto"
+          value={sessionGapMs}
+          onChange={(e) => setSessionGapMs(Number(e.target.value))}
+          aria-label="Inactivity gap between conversations"
+        >
+          {SESSION_GAP_OPTIONS.map((gap) => (
+            <option key={gap} value={gap}>
+              {gap / HOUR_MS} hour{gap !== HOUR_MS ? 's' : ''} of silence
+            </option>
+          ))}
+        </Select>
+      </HStack>
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4} mb={4}>
+        <Box>
+          <Text fontSize="sm" color="gray.600" mb={2}>
+            Conversations started per year
+          </Text>
+          <Box h="220px">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.years}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} vertical={false} />
+                <XAxis dataKey="year" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {charted.map((participant, index) => (
+                  <Bar
+                    key={participant.name}
+                    name={participant.name}
+                    dataKey={yearValue(index, (p) => p.sessionsStarted)}
+                    stackId="started"
+                    fill={CHART_COLORS[index]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </Box>
+        </Box>
+        <Box>
+          <Text fontSize="sm" color="gray.600" mb={2}>
+            Median reply time per year (minutes)
+          </Text>
+          <Box h="220px">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.years}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} vertical={false} />
+                <XAxis dataKey="year" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                {charted.map((participant, index) => (
+                  <Bar
+                    key={participant.name}
+                    name={participant.name}
+                    dataKey={yearValue(index, (p) => toMinutes(p.medianReplyMs))}
+                    fill={CHART_COLORS[index]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </Box>
+        </Box>
+      </SimpleGrid>
+
+      <TableContainer>
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Participant</Th>
+              <Th isNumeric>Started</Th>
+              <Th isNumeric>Median reply</Th>
+              <Th isNumeric>90% within</Th>
+              <Th isNumeric>Double texts</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {analytics.participants.map((participant) => (
+              <Tr key={participant.name}>
+                <Td>{participant.name}</Td>
+                <Td isNumeric>
+                  {participant.sessionsStarted.toLocaleString()} (
+                  {Math.round((participant.sessionsStarted / analytics.sessions) * 100)}%)
+                </Td>
+                <Td isNumeric>
+                  {participant.medianReplyMs !== undefined
+                    ? formatDuration(participant.medianReplyMs)
+                    : '–'}
+                </Td>
+                <Td isNumeric>
+                  {participant.p90ReplyMs !== undefined
+                    ? formatDuration(participant.p90ReplyMs)
+                    : '–'}
+                </Td>
+                <Td isNumeric>
+                  {participant.doubleTexts.toLocaleString()} (
+                  {Math.round(participant.doubleTextRate * 100)}%)
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
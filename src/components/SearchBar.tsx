@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useImperativeHandle, useState } from 'react';
 import {
   HStack,
   Input,
@@ -9,8 +9,29 @@ import {
   Tooltip,
   Text,
   VStack,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+  PopoverArrow,
+  PopoverBody,
+  Code,
 } from '@chakra-ui/react';
-import { FiSearch, FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { FiSearch, FiChevronLeft, FiChevronRight, FiHelpCircle } from 'react-icons/fi';
+
+// Shown in the help popover; the grammar itself lives in utils/searchQuery.ts
+const QUERY_EXAMPLES = [
+  { syntax: 'from:anna', description: 'Messages sent by a participant' },
+  { syntax: 'after:2019 before:2020-06', description: 'Date range (also on:2019-05-12)' },
+  { syntax: 'has:photo', description: 'photo, video, audio, gif, sticker, file, link, call' },
+  { syntax: 'is:unsent', description: 'Unsent messages' },
+  { syntax: 'reacted:❤', description: 'Messages with a reaction' },
+  { syntax: '"exact phrase"', description: 'Match words in order' },
+  { syntax: 'cat OR dog -bird', description: 'Combine with AND, OR, NOT or -' },
+];
+
+export interface SearchBarHandle {
+  search: (query: string) => void; // Fills in and runs a query, e.g. a term from the word counts
+}
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
@@ -20,90 +41,115 @@ interface SearchBarProps {
   onNavigatePrev: () => void;
 }
 
-export const SearchBar: React.FC<SearchBarProps> = ({
-  onSearch,
-  searchResultCount,
-  currentResultIndex,
-  onNavigateNext,
-  onNavigatePrev,
-}) => {
-  const [query, setQuery] = useState('');
+export const SearchBar = React.forwardRef<SearchBarHandle, SearchBarProps>(
+  ({ onSearch, searchResultCount, currentResultIndex, onNavigateNext, onNavigatePrev }, ref) => {
+    const [query, setQuery] = useState('');
 
-  const handleSearch = (value: string) => {
-    setQuery(value);
-    onSearch(value);
-  };
+    const handleSearch = (value: string) => {
+      setQuery(value);
+      onSearch(value);
+    };
 
-  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-    if (event.key === 'Enter' && searchResultCount > 0) {
-      event.preventDefault(); // Prevent form submission if any
-      onNavigateNext();
-    }
-  };
+    useImperativeHandle(ref, () => ({ search: handleSearch }));
 
-  return (
-    <VStack spacing={2} w="full" align="stretch">
-      <HStack spacing={3} w="full">
-        <InputGroup flex={1}>
-          <InputLeftElement pointerEvents="none">
-            <Icon as={FiSearch} color="gray.400" />
-          </InputLeftElement>
-          <Input
-            placeholder="Search messages..."
-            value={query}
-            onChange={(e) => handleSearch(e.target.value)}
-            onKeyDown={handleKeyDown}
-            bg="gray.50"
-            border="none"
-            borderRadius="full"
-            _focus={{ bg: 'white', boxShadow: 'outline' }}
-            _placeholder={{ color: 'gray.500' }}
-          />
-        </InputGroup>
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter' && searchResultCount > 0) {
+        event.preventDefault(); // Prevent form submission if any
+        onNavigateNext();
+      }
+    };
 
-        {/* Search navigation buttons */}
-        {query && (
-          <HStack spacing={1}>
-            <Tooltip label="Previous result">
-              <IconButton
-                aria-label="Previous result"
-                icon={<Icon as={FiChevronLeft} />}
-                onClick={onNavigatePrev}
-                isDisabled={searchResultCount === 0}
-                size="sm"
-                variant="ghost"
-                borderRadius="full"
-              />
-            </Tooltip>
-            <Tooltip label="Next result">
+    return (
+      <VStack spacing={2} w="full" align="stretch">
+        <HStack spacing={3} w="full">
+          <InputGroup flex={1}>
+            <InputLeftElement pointerEvents="none">
+              <Icon as={FiSearch} color="gray.400" />
+            </InputLeftElement>
+            <Input
+              placeholder="Search messages... (try from:name has:photo after:2019)"
+              value={query}
+              onChange={(e) => handleSearch(e.target.value)}
+              onKeyDown={handleKeyDown}
+              bg="gray.50"
+              border="none"
+              borderRadius="full"
+              _focus={{ bg: 'white', boxShadow: 'outline' }}
+              _placeholder={{ color: 'gray.500' }}
+            />
+          </InputGroup>
+
+          <Popover placement="bottom-end">
+            <PopoverTrigger>
               <IconButton
-                aria-label="Next result"
-                icon={<Icon as={FiChevronRight} />}
-                onClick={onNavigateNext}
-                isDisabled={searchResultCount === 0}
+                aria-label="Search syntax help"
+                icon={<Icon as={FiHelpCircle} />}
                 size="sm"
                 variant="ghost"
                 borderRadius="full"
               />
-            </Tooltip>
-          </HStack>
-        )}
-      </HStack>
+            </PopoverTrigger>
+            <PopoverContent>
+              <PopoverArrow />
+              <PopoverBody>
+                <VStack align="stretch" spacing={2}>
+                  {QUERY_EXAMPLES.map((example) => (
+                    <VStack key={example.syntax} align="start" spacing={0}>
+                      <Code fontSize="xs">{example.syntax}</Code>
+                      <Text fontSize="xs" color="gray.600">
+                        {example.description}
+                      </Text>
+                    </VStack>
+                  ))}
+                </VStack>
+              </PopoverBody>
+            </PopoverContent>
+          </Popover>
 
-      {/* Search result count */}
-      {query && (
-        <HStack justify="start" pl={2}>
-          <Text fontSize="sm" color="gray.600">
-            {searchResultCount === 0
-              ? 'No results found'
-              : searchResultCount === 1
-                ? '1 result found'
-                : currentResultIndex > 0
-                  ? `Result ${currentResultIndex} of ${searchResultCount}`
-                  : `${searchResultCount} results found`}
-          </Text>
+          {/* Search navigation buttons */}
+          {query && (
+            <HStack spacing={1}>
+              <Tooltip label="Previous result">
+                <IconButton
+                  aria-label="Previous result"
+                  icon={<Icon as={FiChevronLeft} />}
+                  onClick={onNavigatePrev}
+                  isDisabled={searchResultCount === 0}
+                  size="sm"
+                  variant="ghost"
+                  borderRadius="full"
+                />
+              </Tooltip>
+              <Tooltip label="Next result">
+                <IconButton
+                  aria-label="Next result"
+                  icon={<Icon as={FiChevronRight} />}
+                  onClick={onNavigateNext}
+                  isDisabled={searchResultCount === 0}
+                  size="sm"
+                  variant="ghost"
+                  borderRadius="full"
+                />
+              </Tooltip>
+            </HStack>
+          )}
         </HStack>
-      )}
-    </VStack>
-  );
-};
+
+        {/* Search result count */}
+        {query && (
+          <HStack justify="start" pl={2}>
+            <Text fontSize="sm" color="gray.600">
+              {searchResultCount === 0
+                ? 'No results found'
+                : searchResultCount === 1
+                  ? '1 result found'
+                  : currentResultIndex > 0
+                    ? `Result ${currentResultIndex} of ${searchResultCount}`
+                    : `${searchResultCount} results found`}
+            </Text>
+          </HStack>
+        )}
+      </VStack>
+    );
+  },
+);
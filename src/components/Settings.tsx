@@ -22,10 +22,17 @@ import {
   Icon,
   Divider,
 } from '@chakra-ui/react';
-import { FiKey, FiLock, FiUser } from 'react-icons/fi';
+import { FiDatabase, FiKey, FiLock, FiUser } from 'react-icons/fi';
 import { logger } from '../utils/logger';
+import { clearThreadCache, getThreadCacheStats, type ThreadCacheStats } from '../utils/threadCache';
 import { useAppContext } from '../context/AppContext';
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
@@ -36,6 +43,8 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
   const [rememberKey, setRememberKey] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const [userName, setUserName] = useState('');
+  const [cacheStats, setCacheStats] = useState<ThreadCacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
   const { currentUserName, setCurrentUserName } = useAppContext();
   const toast = useToast();
 
@@ -53,6 +62,41 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
     }
   }, [currentUserName]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    getThreadCacheStats()
+      .then(setCacheStats)
+      .catch((error) => {
+        logger.debug('CACHE_STATS_ERROR', error);
+        setCacheStats(null);
+      });
+  }, [isOpen]);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      await clearThreadCache();
+      setCacheStats(await getThreadCacheStats());
+      toast({
+        title: 'Cache Cleared',
+        description: 'Conversations will be parsed again the next time you open them.',
+        status: 'info',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      logger.error('CACHE_CLEAR_ERROR', error);
+      toast({
+        title: 'Could not clear cache',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
   const validateApiKey = async (key: string): Promise<boolean> => {
     if (!key) return false;
 
@@ -232,6 +276,40 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
 
             <Divider />
 
+            <FormControl>
+              <FormLabel>
+                <HStack>
+                  <Icon as={FiDatabase} />
+                  <Text>Conversation Cache</Text>
+                </HStack>
+              </FormLabel>
+              <HStack justify="space-between">
+                <Text fontSize="sm" color="gray.600">
+                  {cacheStats
+                    ? `${cacheStats.threadCount} conversations and ` +
+                      `${cacheStats.thumbnailCount} thumbnails cached` +
+                      (cacheStats.siteUsageBytes !== undefined
+                        ? ` • ${formatBytes(cacheStats.siteUsageBytes)} of site storage used`
+                        : '')
+                    : 'Cache unavailable in this browser'}
+                </Text>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleClearCache}
+                  isLoading={isClearingCache}
+                  isDisabled={!cacheStats}
+                >
+                  Clear cache
+                </Button>
+              </HStack>
+              <FormHelperText>
+                Parsed conversations are kept in your browser so reopening the archive is instant.
+              </FormHelperText>
+            </FormControl>
+
+            <Divider />
+
             <Alert status="info" borderRadius="md">
               <AlertIcon />
               <Text fontSize="sm">
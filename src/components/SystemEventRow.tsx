@@ -0,0 +1,68 @@
+import React from 'react';
+import { HStack, Icon, Text, useColorModeValue } from '@chakra-ui/react';
+import type { IconType } from 'react-icons';
+import {
+  FiBarChart2,
+  FiEdit3,
+  FiImage,
+  FiLogIn,
+  FiLogOut,
+  FiMapPin,
+  FiSettings,
+  FiTag,
+  FiUserMinus,
+  FiUserPlus,
+  FiUsers,
+  FiVideo,
+} from 'react-icons/fi';
+import type { Message, SystemEventKind } from '../types/messenger';
+import { describeSystemEvent } from '../utils/systemEvents';
+
+const EVENT_ICONS: Record<SystemEventKind, IconType> = {
+  member_added: FiUserPlus,
+  member_removed: FiUserMinus,
+  member_left: FiLogOut,
+  member_joined: FiLogIn,
+  group_created: FiUsers,
+  group_renamed: FiEdit3,
+  group_photo_changed: FiImage,
+  nickname_set: FiTag,
+  poll: FiBarChart2,
+  call: FiVideo,
+  chat_settings: FiSettings,
+  pinned: FiMapPin,
+};
+
+interface SystemEventRowProps {
+  message: Message;
+  isHighlighted?: boolean;
+}
+
+// A group notice, shown as a centered line between the chat bubbles
+export const SystemEventRow: React.FC<SystemEventRowProps> = ({ message, isHighlighted }) => {
+  const color = useColorModeValue('gray.500', 'gray.400');
+  const highlightBg = useColorModeValue('yellow.100', 'yellow.800');
+  const event = message.system_event;
+  if (!event) return null;
+
+  return (
+    <HStack
+      justify="center"
+      spacing={2}
+      mb={4}
+      px={3}
+      py={1}
+      mx="auto"
+      w="fit-content"
+      maxW="full"
+      borderRadius="full"
+      bg={isHighlighted ? highlightBg : undefined}
+      color={color}
+      fontSize="xs"
+      title={new Date(message.timestamp_ms).toLocaleString()}
+    >
+      <Icon as={EVENT_ICONS[event.kind]} flexShrink={0} />
+      <Text textAlign="center">{message.content || describeSystemEvent(event)}</Text>
+    </HStack>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  HStack,
+  Input,
+  Select,
+  Spinner,
+  Text,
+  VStack,
+  Wrap,
+  WrapItem,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { useTermAnalysis } from '../hooks/useTermAnalysis';
+import { getTermKey, getTermQuery, type TermKind } from '../utils/termFrequency';
+import {
+  STOP_WORD_LANGUAGES,
+  STOP_WORD_LANGUAGE_LABELS,
+  loadStopWordSettings,
+  saveStopWordSettings,
+  type StopWordLanguage,
+  type StopWordSettings,
+} from '../utils/stopWords';
+import { CHART_COLORS } from '../utils/chartFormat';
+import type { Message } from '../types/messenger';
+import type { TermCount } from '../types/terms';
+
+interface TermFrequenciesProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: Message[];
+  onTermSelect: (query: string) => void; // Runs the term as a conversation search
+}
+
+const CLOUD_SIZE = 40;
+const CHART_SIZE = 15;
+
+const parseExtraWords = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+// Terms sized by how often they're used, most used first
+const TermCloud: React.FC<{
+  terms: TermCount[];
+  emoji?: boolean;
+  onSelect: (term: string) => void;
+}> = ({ terms, emoji, onSelect }) => {
+  const hoverBg = useColorModeValue('gray.100', 'gray.700');
+  if (terms.length === 0) {
+    return (
+      <Text fontSize="sm" color="gray.500">
+        Nothing to show
+      </Text>
+    );
+  }
+  const max = terms[0].count;
+  return (
+    <Wrap spacing={2} align="center">
+      {terms.slice(0, CLOUD_SIZE).map(({ term, count }, index) => (
+        <WrapItem key={term}>
+          <Box
+            as="button"
+            type="button"
+            title={`${term}: ${count.toLocaleString()}`}
+            px={1}
+            borderRadius="md"
+            lineHeight="short"
+            _hover={{ bg: hoverBg }}
+            // Square root keeps rare terms readable next to the most used one
+            fontSize={`${(emoji ? 1 : 0.75) + Math.sqrt(count / max) * 1.25}rem`}
+            color={emoji ? undefined : CHART_COLORS[index % CHART_COLORS.length]}
+            onClick={() => onSelect(term)}
+          >
+            {term}
+          </Box>
+        </WrapItem>
+      ))}
+    </Wrap>
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <Box>
+    <Text fontWeight="600" color="gray.800" mb={2}>
+      {title}
+    </Text>
+    {children}
+  </Box>
+);
+
+// Most used words, phrases, emoji and reactions of a conversation, per participant and year
+export const TermFrequencies: React.FC<TermFrequenciesProps> = ({
+  isOpen,
+  onClose,
+  messages,
+  onTermSelect,
+}) => {
+  const [stopWords, setStopWords] = useState<StopWordSettings>(loadStopWordSettings);
+  const [extraWordsInput, setExtraWordsInput] = useState(stopWords.extraWords.join(', '));
+  const [participant, setParticipant] = useState('');
+  const [year, setYear] = useState('');
+  const { status, analysis } = useTermAnalysis(messages, stopWords, isOpen);
+
+  const updateStopWords = (settings: StopWordSettings) => {
+    setStopWords(settings);
+    saveStopWordSettings(settings);
+  };
+
+  const toggleLanguage = (language: StopWordLanguage) =>
+    updateStopWords({
+      ...stopWords,
+      languages: stopWords.languages.includes(language)
+        ? stopWords.languages.filter((l) => l !== language)
+        : [...stopWords.languages, language],
+    });
+
+  const applyExtraWords = () =>
+    updateStopWords({ ...stopWords, extraWords: parseExtraWords(extraWordsInput) });
+
+  const selectedYear = year ? Number(year) : undefined;
+  const frequencies =
+    analysis?.frequencies[getTermKey(participant || undefined, selectedYear)] ?? null;
+
+  const selectTerm = (kind: TermKind) => (term: string) => {
+    onTermSelect(getTermQuery(kind, term, participant || undefined, selectedYear));
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} placement="right" size="md">
+      <DrawerOverlay />
+      <DrawerContent>
+        <DrawerCloseButton />
+        <DrawerHeader>Words and emoji</DrawerHeader>
+        <DrawerBody>
+          <VStack align="stretch" spacing={6}>
+            <HStack>
+              <Select
+                size="sm"
+                value={participant}
+                onChange={(e) => setParticipant(e.target.value)}
+                aria-label="Participant"
+              >
+                <option value="">Everyone</option>
+                {analysis?.participants.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+              <Select
+                size="sm"
+                value={year}
+                onChange={(e) => setYear(e.target.value)}
+                aria-label="Year"
+              >
+                <option value="">All years</option>
+                {analysis?.years.map((y) => (
+                  <option key={y} value={y}>
+                    {y}
+                  </option>
+                ))}
+              </Select>
+            </HStack>
+
+            {/* Stop words, saved for every conversation */}
+            <Box>
+              <Text fontSize="sm" color="gray.600" mb={2}>
+                Leave out common words in
+              </Text>
+              <HStack spacing={4} mb={2}>
+                {STOP_WORD_LANGUAGES.map((language) => (
+                  <Checkbox
+                    key={language}
+                    size="sm"
+                    isChecked={stopWords.languages.includes(language)}
+                    onChange={() => toggleLanguage(language)}
+                  >
+                    {STOP_WORD_LANGUAGE_LABELS[language]}
+                  </Checkbox>
+                ))}
+              </HStack>
+              <HStack>
+                <Input
+                  size="sm"
+                  placeholder="More words to leave out, e.g. lol, haha"
+                  value={extraWordsInput}
+                  onChange={(e) => setExtraWordsInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && applyExtraWords()}
+                />
+                <Button size="sm" onClick={applyExtraWords}>
+                  Apply
+                </Button>
+              </HStack>
+            </Box>
+
+            {status === 'error' && (
+              <Text fontSize="sm" color="red.500">
+                Failed to count words
+              </Text>
+            )}
+            {status === 'analyzing' && !frequencies && (
+              <HStack color="gray.500">
+                <Spinner size="sm" />
+                <Text fontSize="sm">Counting words…</Text>
+              </HStack>
+            )}
+
+            {status === 'ready' && !frequencies && (
+              <Text fontSize="sm" color="gray.500">
+                No messages for this selection
+              </Text>
+            )}
+
+            {frequencies && (
+              <>
+                <Text fontSize="xs" color="gray.500">
+                  {frequencies.messageCount.toLocaleString()} messages
+                  {status === 'analyzing' && ' • updating…'} • click a term to search for it
+                </Text>
+                <Section title="Words">
+                  <TermCloud terms={frequencies.words} onSelect={selectTerm('word')} />
+                </Section>
+                <Section title="Phrases">
+                  {frequencies.bigrams.length === 0 ? (
+                    <Text fontSize="sm" color="gray.500">
+                      Nothing to show
+                    </Text>
+                  ) : (
+                    <Box h={`${Math.min(frequencies.bigrams.length, CHART_SIZE) * 24 + 20}px`}>
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart
+                          data={frequencies.bigrams.slice(0, CHART_SIZE)}
+                          layout="vertical"
+                          margin={{ left: 8, right: 16 }}
+                        >
+                          <XAxis type="number" allowDecimals={false} hide />
+                          <YAxis
+                            type="category"
+                            dataKey="term"
+                            width={140}
+                            tick={{ fontSize: 12 }}
+                            interval={0}
+                          />
+                          <Tooltip />
+                          <Bar
+                            dataKey="count"
+                            name="Uses"
+                            fill={CHART_COLORS[0]}
+                            cursor="pointer"
+                            onClick={(entry: { term?: string }) =>
+                              entry.term && selectTerm('bigram')(entry.term)
+                            }
+                          />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </Box>
+                  )}
+                </Section>
+                <Section title="Emoji">
+                  <TermCloud terms={frequencies.emoji} emoji onSelect={selectTerm('emoji')} />
+                </Section>
+                <Section title="Reactions given">
+                  <TermCloud
+                    terms={frequencies.reactions}
+                    emoji
+                    onSelect={selectTerm('reaction')}
+                  />
+                </Section>
+              </>
+            )}
+          </VStack>
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { Box, HStack, VStack, Text, Select, Grid } from '@chakra-ui/react';
+import CalendarHeatmap from 'react-calendar-heatmap';
+import 'react-calendar-heatmap/dist/styles.css';
+import {
+  getDailyCounts,
+  getHeatLevel,
+  getPunchCard,
+  HEATMAP_LEVELS,
+} from '../utils/activityHeatmap';
+import type { Message } from '../types/messenger';
+
+interface TimelineHeatmapProps {
+  messages: Message[];
+  onDaySelect: (date: Date) => void;
+}
+
+interface CalendarValue {
+  date: Date;
+  count: number;
+}
+
+// Lightest to darkest, index = heat level
+const LEVEL_COLORS = ['gray.100', 'blue.100', 'blue.300', 'blue.500', 'blue.700'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0]; // Monday first
+
+const toLocalDate = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const TimelineHeatmap: React.FC<TimelineHeatmapProps> = ({ messages, onDaySelect }) => {
+  const [participant, setParticipant] = useState('');
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+
+  // Most active senders first
+  const participants = useMemo(() => {
+    const counts = new Map<string, number>();
+    messages.forEach((message) => {
+      if (!message.system_event) {
+        counts.set(message.sender_name, (counts.get(message.sender_name) ?? 0) + 1);
+      }
+    });
+    return [...counts].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  }, [messages]);
+
+  const dailyCounts = useMemo(
+    () => getDailyCounts(messages, participant || undefined),
+    [messages, participant],
+  );
+  const punchCard = useMemo(
+    () => getPunchCard(messages, participant || undefined),
+    [messages, participant],
+  );
+
+  const years = useMemo(
+    () => [...new Set(dailyCounts.map(({ date }) => Number(date.slice(0, 4))))],
+    [dailyCounts],
+  );
+  // Show the latest year until another is picked, also when the filter drops the picked one
+  const year =
+    selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[years.length - 1];
+
+  const calendarValues = useMemo<CalendarValue[]>(
+    () =>
+      dailyCounts
+        .filter(({ date }) => Number(date.slice(0, 4)) === year)
+        .map(({ date, count }) => ({ date: toLocalDate(date), count })),
+    [dailyCounts, year],
+  );
+  const maxDaily = Math.max(0, ...calendarValues.map((value) => value.count));
+  const maxHourly = Math.max(0, ...punchCard.flat());
+
+  if (dailyCounts.length === 0) {
+    return (
+      <Box p={4} textAlign="center">
+        <Text color="gray.500">No message data available</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <VStack spacing={4} align="stretch" w="full">
+      <HStack spacing={2} flexWrap="wrap">
+        <Select
+          size="sm"
+          w="auto"
+          value={participant}
+          onChange={(e) => setParticipant(e.target.value)}
+          aria-label="Participant"
+        >
+          <option value="">Everyone</option>
+          {participants.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </Select>
+        <Select
+          size="sm"
+          w="auto"
+          value={year}
+          onChange={(e) => setSelectedYear(Number(e.target.value))}
+          aria-label="Year"
+        >
+          {years.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </Select>
+      </HStack>
+
+      {/* Daily calendar */}
+      <Box
+        sx={{
+          '.react-calendar-heatmap text': { fontSize: '8px', fill: 'gray.500' },
+          '.react-calendar-heatmap rect:hover': { stroke: 'gray.600', strokeWidth: '1px' },
+          ...Object.fromEntries(
+            LEVEL_COLORS.map((color, level) => [
+              `.react-calendar-heatmap .color-level-${level}`,
+              { fill: color, cursor: level > 0 ? 'pointer' : 'default' },
+            ]),
+          ),
+        }}
+      >
+        <CalendarHeatmap<Date>
+          startDate={new Date(year - 1, 11, 31)}
+          endDate={new Date(year, 11, 31)}
+          values={calendarValues}
+          showWeekdayLabels
+          classForValue={(value) =>
+            `color-level-${value ? getHeatLevel(value.count, maxDaily) : 0}`
+          }
+          titleForValue={(value) =>
+            value
+              ? `${value.count} message${value.count !== 1 ? 's' : ''} on ${value.date.toLocaleDateString()}`
+              : 'No messages'
+          }
+          onClick={(value) => value && onDaySelect(value.date)}
+        />
+      </Box>
+
+      {/* Weekday × hour punch card */}
+      <Box overflowX="auto">
+        <Grid templateColumns="32px repeat(24, minmax(14px, 1fr))" gap="2px" minW="420px">
+          {WEEK_ORDER.map((weekday) => (
+            <React.Fragment key={weekday}>
+              <Text fontSize="xs" color="gray.500" lineHeight="14px">
+                {WEEKDAYS[weekday]}
+              </Text>
+              {punchCard[weekday].map((count, hour) => (
+                <Box
+                  key={hour}
+                  h="14px"
+                  borderRadius="sm"
+                  bg={LEVEL_COLORS[getHeatLevel(count, maxHourly)]}
+                  title={`${WEEKDAYS[weekday]} ${hour}:00–${hour + 1}:00 • ${count} message${count !== 1 ? 's' : ''}`}
+                />
+              ))}
+            </React.Fragment>
+          ))}
+          <Box />
+          {Array.from({ length: 24 }, (_, hour) => (
+            <Text key={hour} fontSize="2xs" color="gray.500" textAlign="center">
+              {hour % 3 === 0 ? hour : ''}
+            </Text>
+          ))}
+        </Grid>
+      </Box>
+
+      <HStack spacing={1}>
+        <Text fontSize="xs" color="gray.500" flex={1}>
+          Click a day to jump to it
+        </Text>
+        <Text fontSize="xs" color="gray.500" mr={1}>
+          Less
+        </Text>
+        {Array.from({ length: HEATMAP_LEVELS + 1 }, (_, level) => (
+          <Box key={level} w="10px" h="10px" borderRadius="sm" bg={LEVEL_COLORS[level]} />
+        ))}
+        <Text fontSize="xs" color="gray.500" ml={1}>
+          More
+        </Text>
+      </HStack>
+    </VStack>
+  );
+};
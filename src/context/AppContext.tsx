@@ -4,18 +4,48 @@ import React, {
   useState,
   useCallback,
   useEffect,
+  useMemo,
   type ReactNode,
 } from 'react';
-import type { ParsedThread, ThreadMetadata } from '../types/messenger';
+import type { ParsedThread, Platform, ThreadMetadata } from '../types/messenger';
+import type { ArchiveDirectoryHandle, ArchiveSource } from '../types/archive';
+import { openArchive } from '../utils/archiveSource';
+import { getSourcePlatform } from '../utils/platform';
 import { detectUserName } from '../utils/userDetection';
 import { logger } from '../utils/logger';
+import { getThreadDirectory, getThreadFolder } from '../utils/threadDiscovery';
+import {
+  cacheThread,
+  cacheThreadMetadata,
+  cacheThreadSummary,
+  getCachedThread,
+  getThreadFingerprint,
+} from '../utils/threadCache';
+import { summarizeThread } from '../utils/archiveOverview';
+import {
+  forgetArchive,
+  getRecentArchives,
+  rememberArchive,
+  verifyArchiveAccess,
+  type RecentArchive,
+} from '../utils/archiveHistory';
 
 interface AppContextType {
-  directoryHandle: FileSystemDirectoryHandle | null;
-  setDirectoryHandle: (handle: FileSystemDirectoryHandle | null) => void;
+  archiveSource: ArchiveSource | null;
+  // Platform of the open export when its names tell; merged exports know it per export
+  archivePlatform: Platform | undefined;
+  // The archive's messages folder, which thread ids and media URIs are relative to
+  directoryHandle: ArchiveDirectoryHandle | null;
+  openArchiveSource: (source: ArchiveSource) => Promise<void>;
+  // Merges another export of the same account into the open archive
+  addArchiveSource: (source: ArchiveSource) => Promise<void>;
+  isRestoringArchive: boolean;
+  recentArchives: RecentArchive[];
+  removeRecentArchive: (key: string) => void;
   threads: Map<string, ParsedThread>;
   threadMetadata: ThreadMetadata[];
   addThread: (thread: ParsedThread) => void;
+  loadCachedThread: (threadId: string) => Promise<ParsedThread | undefined>;
   getThread: (threadId: string) => ParsedThread | undefined;
   isThreadLoading: (threadId: string) => boolean;
   setThreadLoading: (threadId: string, loading: boolean) => void;
@@ -27,6 +57,16 @@ interface AppContextType {
   setCurrentUserName: (name: string | null) => void;
 }
 
+const getThreadMetadata = (thread: ParsedThread): ThreadMetadata => ({
+  id: thread.threadId,
+  participants: thread.participants,
+  lastMessageTime: thread.messages[thread.messages.length - 1]?.timestamp_ms || 0,
+  totalMessages: thread.messages.length,
+  title: thread.title,
+  folder: getThreadFolder(thread.threadId),
+  platform: thread.platform,
+});
+
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const useAppContext = () => {
@@ -42,7 +82,21 @@ interface AppProviderProps {
 }
 
 export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
-  const [directoryHandle, setDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
+  const [archive, setArchive] = useState<{
+    source: ArchiveSource;
+    directoryHandle: ArchiveDirectoryHandle;
+  } | null>(null);
+  const archiveSource = archive?.source ?? null;
+  const directoryHandle = archive?.directoryHandle ?? null;
+  const archivePlatform = useMemo(
+    () => (archiveSource ? getSourcePlatform(archiveSource) : undefined),
+    [archiveSource],
+  );
+  // Without IndexedDB there is no remembered archive to wait for
+  const [isRestoringArchive, setIsRestoringArchive] = useState(
+    () => typeof indexedDB !== 'undefined',
+  );
+  const [recentArchives, setRecentArchives] = useState<RecentArchive[]>([]);
   const [threads, setThreads] = useState<Map<string, ParsedThread>>(new Map());
   const [threadMetadata, setThreadMetadataState] = useState<ThreadMetadata[]>([]);
   const [threadLoadingStates, setThreadLoadingStates] = useState<Map<string, boolean>>(new Map());
@@ -50,6 +104,75 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const [currentUserName, setCurrentUserName] = useState<string | null>(null);
   const [isDetectingUser, setIsDetectingUser] = useState(false);
 
+  // Reopen the last archive on startup when the browser still grants read access to it.
+  // Otherwise FolderPicker offers it again, since asking for permission needs a click.
+  useEffect(() => {
+    let mounted = true;
+
+    const restoreLastArchive = async () => {
+      try {
+        const archives = await getRecentArchives();
+        if (!mounted) return;
+        setRecentArchives(archives);
+
+        const [lastArchive] = archives;
+        if (lastArchive && (await verifyArchiveAccess(lastArchive.handle, false)) === 'granted') {
+          const source: ArchiveSource = { kind: 'directory', handle: lastArchive.handle };
+          const messagesRoot = await openArchive(source);
+          logger.debug('ARCHIVE_RESTORED', { name: lastArchive.name });
+          if (mounted) setArchive({ source, directoryHandle: messagesRoot });
+        }
+      } catch (error) {
+        logger.debug('ARCHIVE_RESTORE_ERROR', error);
+      } finally {
+        if (mounted) setIsRestoringArchive(false);
+      }
+    };
+
+    restoreLastArchive();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Rejects with a user-facing message when the source holds no Messenger conversations
+  const openArchiveSource = useCallback(async (source: ArchiveSource) => {
+    const messagesRoot = await openArchive(source);
+    setArchive({ source, directoryHandle: messagesRoot });
+    // Only picked folders can be reopened later; ZIP files have to be selected again
+    if (source.kind === 'directory') {
+      rememberArchive(source.handle).then(setRecentArchives);
+    }
+  }, []);
+
+  const addArchiveSource = useCallback(
+    async (source: ArchiveSource) => {
+      if (!archive) {
+        await openArchiveSource(source);
+        return;
+      }
+
+      const sources = archive.source.kind === 'merged' ? archive.source.sources : [archive.source];
+      const mergedSource: ArchiveSource = { kind: 'merged', sources: [...sources, source] };
+      const messagesRoot = await openArchive(mergedSource);
+      logger.debug('ARCHIVE_MERGED', { exports: mergedSource.sources.length });
+
+      // Thread lists, parsed threads and their ids change once exports are merged
+      setThreads(new Map());
+      setThreadMetadataState([]);
+      setThreadLoadingStates(new Map());
+      setParseProgressState(new Map());
+      setArchive({ source: mergedSource, directoryHandle: messagesRoot });
+    },
+    [archive, openArchiveSource],
+  );
+
+  const removeRecentArchive = useCallback((key: string) => {
+    setRecentArchives((prev) => prev.filter((archive) => archive.key !== key));
+    forgetArchive(key);
+  }, []);
+
   const loadInitialThreads = useCallback((initialThreads: ThreadMetadata[]) => {
     // Sort initial threads by title (folder name) alphabetically
     const sortedInitialThreads = [...initialThreads].sort((a, b) =>
@@ -58,7 +181,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     setThreadMetadataState(sortedInitialThreads);
   }, []);
 
-  const addThread = useCallback((thread: ParsedThread) => {
+  // Keeps a parsed thread in memory; shared by freshly parsed and cached threads
+  const storeThread = useCallback((thread: ParsedThread) => {
     setThreads((prev) => {
       const newThreads = new Map(prev);
       newThreads.set(thread.threadId, thread);
@@ -66,13 +190,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     });
 
     // Update metadata
-    const metadata: ThreadMetadata = {
-      id: thread.threadId,
-      participants: thread.participants,
-      lastMessageTime: thread.messages[thread.messages.length - 1]?.timestamp_ms || 0,
-      totalMessages: thread.messages.length,
-      title: thread.title,
-    };
+    const metadata = getThreadMetadata(thread);
 
     setThreadMetadataState((prev) => {
       const existingIndex = prev.findIndex((m) => m.id === metadata.id);
@@ -96,6 +214,52 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     });
   }, []);
 
+  const addThread = useCallback(
+    (thread: ParsedThread) => {
+      storeThread(thread);
+
+      // Persist in the background so reopening the archive doesn't need the worker
+      if (!directoryHandle) return;
+      const persist = async () => {
+        try {
+          const threadHandle = await getThreadDirectory(directoryHandle, thread.threadId);
+          const fingerprint = await getThreadFingerprint(threadHandle);
+          await Promise.all([
+            cacheThread(thread, fingerprint),
+            cacheThreadMetadata(getThreadMetadata(thread), fingerprint),
+            cacheThreadSummary(summarizeThread(thread), fingerprint),
+          ]);
+          logger.debug('THREAD_CACHED', { threadId: thread.threadId });
+        } catch (error) {
+          logger.debug('THREAD_CACHE_ERROR', { threadId: thread.threadId, error });
+        }
+      };
+      persist();
+    },
+    [directoryHandle, storeThread],
+  );
+
+  // Resolves to the cached thread when its files haven't changed since it was parsed
+  const loadCachedThread = useCallback(
+    async (threadId: string) => {
+      if (!directoryHandle) return undefined;
+      try {
+        const threadHandle = await getThreadDirectory(directoryHandle, threadId);
+        const fingerprint = await getThreadFingerprint(threadHandle);
+        const cachedThread = await getCachedThread(threadId, fingerprint);
+        if (cachedThread) {
+          logger.debug('THREAD_CACHE_HIT', { threadId });
+          storeThread(cachedThread);
+        }
+        return cachedThread;
+      } catch (error) {
+        logger.debug('THREAD_CACHE_ERROR', { threadId, error });
+        return undefined;
+      }
+    },
+    [directoryHandle, storeThread],
+  );
+
   const getThread = useCallback(
     (threadId: string) => {
       return threads.get(threadId);
@@ -171,11 +335,18 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   }, [directoryHandle]); // Remove currentUserName and isDetectingUser from dependencies to prevent loop
 
   const value: AppContextType = {
+    archiveSource,
+    archivePlatform,
     directoryHandle,
-    setDirectoryHandle,
+    openArchiveSource,
+    addArchiveSource,
+    isRestoringArchive,
+    recentArchives,
+    removeRecentArchive,
     threads,
     threadMetadata,
     addThread,
+    loadCachedThread,
     getThread,
     isThreadLoading,
     setThreadLoading,
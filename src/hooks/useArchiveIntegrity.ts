@@ -0,0 +1,19 @@
+import type { ThreadIntegrity } from '../types/integrity';
+import type { ArchiveSource } from '../types/archive';
+import { useArchiveScan } from './useArchiveScan';
+
+const createIntegrityWorker = () =>
+  new Worker(new URL('../workers/integrity.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Scans every thread of the archive for missing and orphaned media and invalid message
+ * files in a worker.
+ */
+export function useArchiveIntegrity(source: ArchiveSource | null) {
+  const { status, progress, results } = useArchiveScan<ThreadIntegrity>(
+    source,
+    createIntegrityWorker,
+    'INTEGRITY',
+  );
+  return { status, progress, threads: results };
+}
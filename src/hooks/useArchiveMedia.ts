@@ -0,0 +1,19 @@
+import type { ThreadMedia } from '../types/media';
+import type { ArchiveSource } from '../types/archive';
+import { useArchiveScan } from './useArchiveScan';
+
+const createMediaWorker = () =>
+  new Worker(new URL('../workers/media.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Collects the photos and videos of every thread in the archive, listing the threads that
+ * have no cached media list yet in a worker.
+ */
+export function useArchiveMedia(source: ArchiveSource | null) {
+  const { status, progress, results } = useArchiveScan<ThreadMedia>(
+    source,
+    createMediaWorker,
+    'MEDIA',
+  );
+  return { status, progress, threads: results };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { logger } from '../utils/logger';
+import type { ArchiveScanMessage, ArchiveScanRequest } from '../types/archiveScan';
+import type { ArchiveSource } from '../types/archive';
+
+export type ArchiveScanStatus = 'idle' | 'scanning' | 'ready' | 'error';
+
+export interface ArchiveScanProgress {
+  scanned: number;
+  total: number;
+}
+
+/**
+ * Runs an archive scan worker (see workers/archiveScan.ts) over the archive and collects its
+ * per-thread results. `createWorker` must be defined outside the component, so the scan is
+ * only restarted when the archive changes.
+ */
+export function useArchiveScan<T>(
+  source: ArchiveSource | null,
+  createWorker: () => Worker,
+  name: string,
+) {
+  const [status, setStatus] = useState<ArchiveScanStatus>('idle');
+  const [progress, setProgress] = useState<ArchiveScanProgress>({ scanned: 0, total: 0 });
+  const [results, setResults] = useState<T[]>([]);
+
+  useEffect(() => {
+    if (!source) return;
+
+    const worker = createWorker();
+
+    worker.addEventListener('message', (event: MessageEvent<ArchiveScanMessage<T>>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'SCAN_PROGRESS':
+          setProgress({ scanned: message.scanned || 0, total: message.total || 0 });
+          break;
+
+        case 'SCAN_READY':
+          logger.debug(`ARCHIVE_${name}_READY`, {
+            threads: message.results?.length,
+            parsed: message.parsed,
+          });
+          setResults(message.results || []);
+          setStatus('ready');
+          break;
+
+        case 'SCAN_ERROR':
+          logger.error(`${name}_WORKER_ERROR`, message.error);
+          setStatus('error');
+          break;
+      }
+    });
+
+    setStatus('scanning');
+    const request: ArchiveScanRequest = { type: 'SCAN_ARCHIVE', source };
+    worker.postMessage(request);
+
+    // A new archive gets a new worker, so results of the old one can't arrive late
+    return () => {
+      worker.terminate();
+    };
+  }, [source, createWorker, name]);
+
+  return { status, progress, results };
+}
@@ -0,0 +1,96 @@
+import { useRef, useCallback, useEffect, useState } from 'react';
+import { logger } from '../utils/logger';
+import type { SearchHit, SearchWorkerMessage, SearchWorkerRequest } from '../types/search';
+import type { ArchiveSource } from '../types/archive';
+
+export type SearchIndexStatus = 'idle' | 'building' | 'ready' | 'error';
+
+interface IndexProgress {
+  indexed: number;
+  total: number;
+}
+
+/**
+ * Builds a full-text index of every thread in the archive inside a worker
+ * and runs queries against it.
+ */
+export function useArchiveSearch(source: ArchiveSource | null) {
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequestIdRef = useRef(0);
+  const [status, setStatus] = useState<SearchIndexStatus>('idle');
+  const [progress, setProgress] = useState<IndexProgress>({ indexed: 0, total: 0 });
+  const [messageCount, setMessageCount] = useState(0);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (!source) return;
+
+    // Create worker on mount
+    const worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+
+    // Set up message handler
+    worker.addEventListener('message', (event: MessageEvent<SearchWorkerMessage>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'INDEX_PROGRESS':
+          setProgress({ indexed: message.indexed || 0, total: message.total || 0 });
+          break;
+
+        case 'INDEX_READY':
+          logger.debug('SEARCH_INDEX_READY', { messageCount: message.messageCount });
+          setMessageCount(message.messageCount || 0);
+          setStatus('ready');
+          break;
+
+        case 'SEARCH_RESULTS':
+          // Ignore answers to queries the user has already replaced
+          if (message.requestId === latestRequestIdRef.current) {
+            setResults(message.results || []);
+            setIsSearching(false);
+          }
+          break;
+
+        case 'SEARCH_ERROR':
+          logger.error('SEARCH_WORKER_ERROR', message.error);
+          if (message.requestId === undefined) {
+            setStatus('error');
+          } else if (message.requestId === latestRequestIdRef.current) {
+            setIsSearching(false);
+          }
+          break;
+      }
+    });
+
+    setStatus('building');
+    const request: SearchWorkerRequest = { type: 'BUILD_INDEX', source };
+    worker.postMessage(request);
+
+    // Cleanup on unmount
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [source]);
+
+  const search = useCallback((query: string) => {
+    const trimmedQuery = query.trim();
+    const requestId = ++latestRequestIdRef.current;
+
+    if (!trimmedQuery || !workerRef.current) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    logger.debug('ARCHIVE_SEARCH_REQUEST', { query: trimmedQuery });
+    setIsSearching(true);
+    workerRef.current.postMessage({ type: 'SEARCH', query: trimmedQuery, requestId });
+  }, []);
+
+  return { status, progress, messageCount, results, isSearching, search };
+}
@@ -0,0 +1,19 @@
+import type { ThreadSummary } from '../types/dashboard';
+import type { ArchiveSource } from '../types/archive';
+import { useArchiveScan } from './useArchiveScan';
+
+const createSummaryWorker = () =>
+  new Worker(new URL('../workers/summary.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Collects the cached summary of every thread in the archive, summarizing the threads that
+ * have none yet in a worker.
+ */
+export function useArchiveSummaries(source: ArchiveSource | null) {
+  const { status, progress, results } = useArchiveScan<ThreadSummary>(
+    source,
+    createSummaryWorker,
+    'SUMMARIES',
+  );
+  return { status, progress, summaries: results };
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { MediaError, acquireMedia, type ResolvedMedia } from '../utils/mediaResolver';
+import { logger } from '../utils/logger';
+
+interface MediaUrlState {
+  media: ResolvedMedia | null;
+  isLoading: boolean;
+  error: MediaError | null;
+}
+
+const isExternalUrl = (uri: string) => uri.startsWith('http://') || uri.startsWith('https://');
+
+/**
+ * Object URL for a media URI of the open archive, or of its thumbnail when thumbnailKind is
+ * set. The URL is held while the component is mounted and released when it unmounts.
+ */
+export function useMediaUrl(uri: string, thumbnailKind?: 'photo' | 'video'): MediaUrlState {
+  const { directoryHandle } = useAppContext();
+  const [state, setState] = useState<MediaUrlState>({ media: null, isLoading: true, error: null });
+
+  useEffect(() => {
+    // Shares can link media outside the archive
+    if (isExternalUrl(uri)) {
+      setState({ media: { url: uri, isThumbnail: false }, isLoading: false, error: null });
+      return;
+    }
+    if (!directoryHandle || !uri) {
+      setState({
+        media: null,
+        isLoading: false,
+        error: new MediaError('unreadable', uri, 'No archive is open'),
+      });
+      return;
+    }
+
+    let isActive = true;
+    setState({ media: null, isLoading: true, error: null });
+    const { media, release } = acquireMedia(directoryHandle, uri, thumbnailKind);
+    media.then(
+      (resolved) => {
+        if (isActive) setState({ media: resolved, isLoading: false, error: null });
+      },
+      (error: MediaError) => {
+        logger.error('MEDIA_LOAD_ERROR', { uri, kind: error.kind, error: error.message });
+        if (isActive) setState({ media: null, isLoading: false, error });
+      },
+    );
+
+    return () => {
+      isActive = false;
+      release();
+    };
+  }, [directoryHandle, uri, thumbnailKind]);
+
+  return state;
+}
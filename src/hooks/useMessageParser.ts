@@ -1,18 +1,39 @@
 import { useRef, useCallback, useEffect } from 'react';
 import { logger } from '../utils/logger';
-import type { ParsedThread, WorkerMessage } from '../types/messenger';
+import type { Message, ParsedThread, WorkerMessage } from '../types/messenger';
+import type { ArchiveSource } from '../types/archive';
 
 interface UseMessageParserOptions {
   onThreadParsed?: (thread: ParsedThread) => void;
-  onProgress?: (threadId: string, progress: number, data?: any) => void;
+  onPartialThread?: (thread: ParsedThread) => void;
+  onProgress?: (threadId: string, progress: number, data?: unknown) => void;
   onError?: (threadId: string, error: string) => void;
 }
 
+// Merges two arrays that are already sorted by timestamp into a new sorted array
+const mergeByTimestamp = (existing: Message[], incoming: Message[]): Message[] => {
+  const merged: Message[] = new Array(existing.length + incoming.length);
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i < existing.length && j < incoming.length) {
+    merged[k++] =
+      existing[i].timestamp_ms <= incoming[j].timestamp_ms ? existing[i++] : incoming[j++];
+  }
+  while (i < existing.length) merged[k++] = existing[i++];
+  while (j < incoming.length) merged[k++] = incoming[j++];
+  return merged;
+};
+
 export function useMessageParser(options: UseMessageParserOptions = {}) {
   const workerRef = useRef<Worker | null>(null);
-  const { onThreadParsed, onProgress, onError } = options;
+  // Threads being streamed in, assembled from MESSAGES_BATCH messages
+  const pendingThreadsRef = useRef<Map<string, ParsedThread>>(new Map());
+  const { onThreadParsed, onPartialThread, onProgress, onError } = options;
 
   useEffect(() => {
+    const pendingThreads = pendingThreadsRef.current;
+
     // Create worker on mount
     workerRef.current = new Worker(new URL('../workers/parser.worker.ts', import.meta.url), {
       type: 'module',
@@ -23,12 +44,58 @@ export function useMessageParser(options: UseMessageParserOptions = {}) {
       const message = event.data;
 
       switch (message.type) {
-        case 'THREAD_PARSED':
+        case 'MESSAGES_BATCH': {
+          const batch = message.data as ParsedThread | undefined;
+          if (!message.threadId || !batch) break;
+
+          const pending = pendingThreads.get(message.threadId) || {
+            threadId: message.threadId,
+            participants: [],
+            messages: [],
+          };
+          const sortedBatch = [...batch.messages].sort((a, b) => a.timestamp_ms - b.timestamp_ms);
+          const updated: ParsedThread = {
+            ...pending,
+            participants: pending.participants.length ? pending.participants : batch.participants,
+            title: pending.title || batch.title,
+            messages: mergeByTimestamp(pending.messages, sortedBatch),
+          };
+          pendingThreads.set(message.threadId, updated);
+
+          if (onPartialThread && batch.messages.length > 0) {
+            onPartialThread(updated);
+          }
+          break;
+        }
+
+        case 'WORKER_COMPLETED': {
           logger.debug('THREAD_PARSED_RECEIVED', { threadId: message.threadId });
-          if (onThreadParsed && message.data) {
-            onThreadParsed(message.data);
+          if (!message.threadId) break;
+
+          const pending = pendingThreads.get(message.threadId) || {
+            threadId: message.threadId,
+            participants: message.data?.participants || [],
+            messages: [],
+            title: message.data?.title,
+          };
+          // The platform, import report and (for Telegram, which only names senders as they
+          // appear) participants are only settled once every file has been read
+          const thread: ParsedThread = {
+            ...pending,
+            participants: message.data?.participants?.length
+              ? message.data.participants
+              : pending.participants,
+            platform: message.data?.platform,
+            threadType: message.data?.threadType,
+            unparsedLines: message.data?.unparsedLines,
+            invalidFiles: message.data?.invalidFiles,
+          };
+          pendingThreads.delete(message.threadId);
+          if (onThreadParsed) {
+            onThreadParsed(thread);
           }
           break;
+        }
 
         case 'PROGRESS':
           if (onProgress && message.threadId && message.progress !== undefined) {
@@ -41,6 +108,9 @@ export function useMessageParser(options: UseMessageParserOptions = {}) {
             threadId: message.threadId,
             error: message.error,
           });
+          if (message.threadId) {
+            pendingThreads.delete(message.threadId);
+          }
           if (onError && message.threadId && message.error) {
             onError(message.threadId, message.error);
           }
@@ -50,29 +120,27 @@ export function useMessageParser(options: UseMessageParserOptions = {}) {
 
     // Cleanup on unmount
     return () => {
+      pendingThreads.clear();
       if (workerRef.current) {
         workerRef.current.terminate();
         workerRef.current = null;
       }
     };
-  }, [onThreadParsed, onProgress, onError]);
+  }, [onThreadParsed, onPartialThread, onProgress, onError]);
 
-  const parseThread = useCallback(
-    (directoryHandle: FileSystemDirectoryHandle, threadPath: string) => {
-      if (!workerRef.current) {
-        logger.error('WORKER_NOT_INITIALIZED', 'Worker is not initialized');
-        return;
-      }
+  const parseThread = useCallback((source: ArchiveSource, threadPath: string) => {
+    if (!workerRef.current) {
+      logger.error('WORKER_NOT_INITIALIZED', 'Worker is not initialized');
+      return;
+    }
 
-      logger.debug('PARSE_THREAD_REQUEST', { threadPath });
-      workerRef.current.postMessage({
-        type: 'PARSE_THREAD',
-        directoryHandle,
-        threadPath,
-      });
-    },
-    [],
-  );
+    logger.debug('PARSE_THREAD_REQUEST', { threadPath });
+    workerRef.current.postMessage({
+      type: 'PARSE_THREAD',
+      source,
+      threadPath,
+    });
+  }, []);
 
   return { parseThread };
 }
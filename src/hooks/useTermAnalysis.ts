@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { logger } from '../utils/logger';
+import type { Message } from '../types/messenger';
+import type {
+  TermAnalysis,
+  TermMessage,
+  TermWorkerMessage,
+  TermWorkerRequest,
+} from '../types/terms';
+import type { StopWordSettings } from '../utils/stopWords';
+
+export type TermAnalysisStatus = 'idle' | 'analyzing' | 'ready' | 'error';
+
+/**
+ * Counts the words, phrases, emoji and reactions of a thread in a worker. Nothing runs while
+ * `enabled` is false; a new run starts whenever the messages or stop words change.
+ */
+export function useTermAnalysis(
+  messages: Message[],
+  stopWords: StopWordSettings,
+  enabled: boolean,
+) {
+  const [status, setStatus] = useState<TermAnalysisStatus>('idle');
+  const [analysis, setAnalysis] = useState<TermAnalysis | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/terms.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+
+    worker.addEventListener('message', (event: MessageEvent<TermWorkerMessage>) => {
+      const message = event.data;
+      // Results of a run that has since been replaced are dropped
+      if (message.requestId !== requestIdRef.current) return;
+
+      switch (message.type) {
+        case 'TERMS_READY':
+          setAnalysis(message.analysis || null);
+          setStatus('ready');
+          break;
+
+        case 'TERMS_ERROR':
+          logger.error('TERMS_WORKER_ERROR', message.error);
+          setStatus('error');
+          break;
+      }
+    });
+
+    // Cleanup on unmount
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !workerRef.current) return;
+
+    // Only the fields the analysis reads are copied to the worker
+    const termMessages: TermMessage[] = messages.map(
+      ({ sender_name, timestamp_ms, content, reactions, is_unsent, system_event }) => ({
+        sender_name,
+        timestamp_ms,
+        content,
+        reactions,
+        is_unsent,
+        system_event,
+      }),
+    );
+    const request: TermWorkerRequest = {
+      type: 'ANALYZE_TERMS',
+      requestId: ++requestIdRef.current,
+      messages: termMessages,
+      stopWords,
+    };
+    logger.debug('TERMS_REQUESTED', { requestId: request.requestId, messages: messages.length });
+    setStatus('analyzing');
+    workerRef.current.postMessage(request);
+  }, [messages, stopWords, enabled]);
+
+  return { status, analysis };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useToast } from '@chakra-ui/react';
+import { useAppContext } from '../context/AppContext';
+import { useMessageParser } from './useMessageParser';
+import { logger } from '../utils/logger';
+import type { ParsedThread } from '../types/messenger';
+
+/**
+ * Loads a thread for a page: from memory, the cache or, failing both, the parser worker,
+ * whose partial results are shown while it streams. Goes back to the list when no archive
+ * is open.
+ */
+export function useThread(threadId: string) {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const {
+    archiveSource,
+    getThread,
+    addThread,
+    loadCachedThread,
+    isThreadLoading,
+    setThreadLoading,
+    parseProgress,
+    setParseProgress,
+  } = useAppContext();
+  const [thread, setThread] = useState<ParsedThread | null>(null);
+
+  const handleThreadParsed = useCallback(
+    (parsedThread: ParsedThread) => {
+      logger.debug('THREAD_READY', { threadId: parsedThread.threadId });
+      addThread(parsedThread);
+      if (parsedThread.threadId === threadId) {
+        setThread(parsedThread);
+      }
+    },
+    [addThread, threadId],
+  );
+
+  // Render messages as the worker streams them in, before the whole thread has loaded
+  const handlePartialThread = useCallback(
+    (partialThread: ParsedThread) => {
+      if (partialThread.threadId === threadId) {
+        setThread(partialThread);
+      }
+    },
+    [threadId],
+  );
+
+  const handleProgress = useCallback(
+    (parsedThreadId: string, progress: number, data?: unknown) => {
+      logger.debug('PARSE_PROGRESS', { threadId: parsedThreadId, progress, data });
+      setParseProgress(parsedThreadId, progress);
+    },
+    [setParseProgress],
+  );
+
+  const handleError = useCallback(
+    (failedThreadId: string, error: string) => {
+      logger.error('THREAD_FAILED', { threadId: failedThreadId, error });
+      setThreadLoading(failedThreadId, false);
+      toast({
+        title: 'Failed to load conversation',
+        description: error,
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    },
+    [setThreadLoading, toast],
+  );
+
+  const { parseThread } = useMessageParser({
+    onThreadParsed: handleThreadParsed,
+    onPartialThread: handlePartialThread,
+    onProgress: handleProgress,
+    onError: handleError,
+  });
+
+  useEffect(() => {
+    if (!archiveSource || !threadId) {
+      navigate('/');
+      return;
+    }
+
+    // Check if thread is already loaded
+    const existingThread = getThread(threadId);
+    if (existingThread) {
+      setThread(existingThread);
+      return;
+    }
+
+    // Start loading the thread
+    if (!isThreadLoading(threadId)) {
+      logger.debug('THREAD_LOADING', { threadId });
+      setThreadLoading(threadId, true);
+      // Only fall back to the worker when the thread isn't cached or its files changed
+      loadCachedThread(threadId).then((cachedThread) => {
+        if (!cachedThread) {
+          parseThread(archiveSource, threadId);
+        }
+      });
+    }
+  }, [
+    archiveSource,
+    threadId,
+    getThread,
+    loadCachedThread,
+    isThreadLoading,
+    navigate,
+    parseThread,
+    setThreadLoading,
+  ]);
+
+  return {
+    thread,
+    loading: isThreadLoading(threadId),
+    progress: parseProgress.get(threadId),
+  };
+}
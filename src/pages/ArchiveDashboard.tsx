@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Heading,
+  IconButton,
+  Progress,
+  Select,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { FiArrowLeft } from 'react-icons/fi';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useAppContext } from '../context/AppContext';
+import { useArchiveSummaries } from '../hooks/useArchiveSummaries';
+import { buildArchiveOverview, type LabelCount, type MonthVolume } from '../utils/archiveOverview';
+import { CHART_COLORS } from '../utils/chartFormat';
+import { FOLDER_LABELS } from '../utils/threadDiscovery';
+
+const OTHER_COLOR = '#a0aec0';
+const GROUP_COLOR = '#4a5568';
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const BreakdownCard: React.FC<{ title: string; counts: LabelCount[] }> = ({ title, counts }) => (
+  <Box bg="white" p={4} borderRadius="lg" boxShadow="sm">
+    <Text fontWeight="600" color="gray.800" mb={3}>
+      {title}
+    </Text>
+    <VStack align="stretch" spacing={1}>
+      {counts.map(({ label, count }) => (
+        <HStack key={label} justify="space-between" fontSize="sm">
+          <Text color="gray.600">{label}</Text>
+          <Text fontWeight="600">{count.toLocaleString()}</Text>
+        </HStack>
+      ))}
+    </VStack>
+  </Box>
+);
+
+export const ArchiveDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const { archiveSource } = useAppContext();
+  const { status, progress, summaries } = useArchiveSummaries(archiveSource);
+  const [rankingYear, setRankingYear] = useState<number | null>(null);
+
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  useEffect(() => {
+    if (!archiveSource) {
+      navigate('/');
+    }
+  }, [archiveSource, navigate]);
+
+  const overview = useMemo(() => buildArchiveOverview(summaries), [summaries]);
+  const ranking =
+    overview.rankings.find((entry) => entry.year === rankingYear) ??
+    overview.rankings[overview.rankings.length - 1];
+
+  const folderCounts = overview.byFolder.map(({ label, count }) => ({
+    label: label === 'other' ? 'Other' : FOLDER_LABELS[label],
+    count,
+  }));
+  const summaryPercent =
+    progress.total > 0 ? Math.round((progress.scanned / progress.total) * 100) : 0;
+  const openThread = (threadId: string) =>
+    navigate(`/conversation/${encodeURIComponent(threadId)}`);
+
+  return (
+    <Box h="100vh" bg="gray.50" w="full" overflowY="auto">
+      {/* Header */}
+      <Box
+        bg="white"
+        borderBottomWidth="1px"
+        borderColor={borderColor}
+        px={{ base: 2, md: 4 }}
+        py={4}
+        position="sticky"
+        top={0}
+        zIndex={10}
+        boxShadow="sm"
+      >
+        <Box maxW="1200px" mx="auto" w="full">
+          <VStack spacing={3} align="stretch">
+            <HStack>
+              <IconButton
+                aria-label="Back to conversations"
+                icon={<FiArrowLeft />}
+                onClick={() => navigate('/')}
+                variant="ghost"
+                size="lg"
+              />
+              <Heading size="md" color="gray.800">
+                Archive Overview
+              </Heading>
+            </HStack>
+            {status === 'scanning' && (
+              <Box>
+                <Progress value={summaryPercent} size="sm" colorScheme="blue" borderRadius="full" />
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  Summarizing conversations… {progress.scanned} of {progress.total}
+                </Text>
+              </Box>
+            )}
+            {status === 'error' && (
+              <Text fontSize="xs" color="red.500">
+                Failed to summarize the archive
+              </Text>
+            )}
+          </VStack>
+        </Box>
+      </Box>
+
+      {status === 'ready' && (
+        <Box maxW="1200px" mx="auto" px={{ base: 2, md: 4 }} py={6} w="full">
+          <VStack spacing={6} align="stretch">
+            <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+              <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+                <StatLabel>Messages</StatLabel>
+                <StatNumber>{overview.totalMessages.toLocaleString()}</StatNumber>
+              </Stat>
+              <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+                <StatLabel>Conversations</StatLabel>
+                <StatNumber>{overview.threadCount.toLocaleString()}</StatNumber>
+              </Stat>
+              <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+                <StatLabel>One-to-one</StatLabel>
+                <StatNumber>{overview.directCount.toLocaleString()}</StatNumber>
+              </Stat>
+              <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+                <StatLabel>Groups</StatLabel>
+                <StatNumber>{overview.groupCount.toLocaleString()}</StatNumber>
+              </Stat>
+            </SimpleGrid>
+
+            {/* Messages over time by top contact */}
+            <Box bg="white" p={4} borderRadius="lg" boxShadow="sm">
+              <Text fontWeight="600" color="gray.800" mb={4}>
+                Messages over time
+              </Text>
+              <Box h="320px">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={overview.months}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                    <XAxis dataKey="month" tickFormatter={formatMonth} minTickGap={24} />
+                    <YAxis />
+                    <Tooltip labelFormatter={(month) => formatMonth(String(month))} />
+                    <Legend />
+                    {overview.topContacts.map((contact, index) => (
+                      <Area
+                        key={contact.threadId}
+                        name={contact.title}
+                        dataKey={(month: MonthVolume) => month.contacts[index]}
+                        stackId="messages"
+                        stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                        fill={CHART_COLORS[index % CHART_COLORS.length]}
+                        type="monotone"
+                      />
+                    ))}
+                    <Area
+                      name="Other contacts"
+                      dataKey="otherContacts"
+                      stackId="messages"
+                      stroke={OTHER_COLOR}
+                      fill={OTHER_COLOR}
+                      type="monotone"
+                    />
+                    <Area
+                      name="Groups"
+                      dataKey="groups"
+                      stackId="messages"
+                      stroke={GROUP_COLOR}
+                      fill={GROUP_COLOR}
+                      type="monotone"
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </Box>
+            </Box>
+
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              {/* Contacts ranked by messages in a year */}
+              <Box bg="white" p={4} borderRadius="lg" boxShadow="sm">
+                <HStack justify="space-between" mb={4}>
+                  <Text fontWeight="600" color="gray.800">
+                    Top contacts
+                  </Text>
+                  {ranking && (
+                    <Select
+                      size="sm"
+                      w="auto"
+                      value={ranking.year}
+                      onChange={(e) => setRankingYear(Number(e.target.value))}
+                      aria-label="Year"
+                    >
+                      {overview.rankings.map(({ year }) => (
+                        <option key={year} value={year}>
+                          {year}
+                        </option>
+                      ))}
+                    </Select>
+                  )}
+                </HStack>
+                <VStack align="stretch" spacing={1}>
+                  {ranking?.contacts.map((contact, index) => (
+                    <HStack
+                      key={contact.threadId}
+                      px={2}
+                      py={1}
+                      borderRadius="md"
+                      cursor="pointer"
+                      _hover={{ bg: 'gray.50' }}
+                      onClick={() => openThread(contact.threadId)}
+                    >
+                      <Text w="24px" color="gray.400" fontSize="sm">
+                        {index + 1}
+                      </Text>
+                      <Text flex={1} isTruncated>
+                        {contact.title}
+                      </Text>
+                      <Text fontWeight="600" fontSize="sm">
+                        {contact.count.toLocaleString()}
+                      </Text>
+                    </HStack>
+                  ))}
+                </VStack>
+              </Box>
+
+              {/* New and dormant relationships */}
+              <Box bg="white" p={4} borderRadius="lg" boxShadow="sm">
+                <Text fontWeight="600" color="gray.800" mb={1}>
+                  New and dormant contacts
+                </Text>
+                <Text fontSize="xs" color="gray.500" mb={4}>
+                  Dormant: silent for a year before the archive ends, counted in the year they went
+                  quiet
+                </Text>
+                <Box h="260px">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={overview.relationships}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.3} vertical={false} />
+                      <XAxis dataKey="year" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="started" name="New" fill="#38a169" />
+                      <Bar dataKey="dormant" name="Went dormant" fill="#e53e3e" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Box>
+              </Box>
+            </SimpleGrid>
+
+            <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+              <BreakdownCard
+                title="One-to-one and groups"
+                counts={[
+                  { label: 'One-to-one', count: overview.directCount },
+                  { label: 'Groups', count: overview.groupCount },
+                ]}
+              />
+              <BreakdownCard title="Thread types" counts={overview.byThreadType} />
+              <BreakdownCard title="Folders" counts={folderCounts} />
+            </SimpleGrid>
+          </VStack>
+        </Box>
+      )}
+    </Box>
+  );
+};
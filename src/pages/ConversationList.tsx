@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -15,30 +15,135 @@ import {
   Icon,
   Skeleton,
   SkeletonText,
+  Button,
+  Badge,
+  Wrap,
+  WrapItem,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalCloseButton,
+  ModalBody,
+  useDisclosure,
 } from '@chakra-ui/react';
-import { FiSearch, FiMessageCircle, FiFolder } from 'react-icons/fi';
+import {
+  FiSearch,
+  FiMessageCircle,
+  FiFolder,
+  FiFileText,
+  FiPlus,
+  FiPieChart,
+  FiImage,
+  FiCheckSquare,
+} from 'react-icons/fi';
 import { useAppContext } from '../context/AppContext';
 import { logger } from '../utils/logger';
 import { readFileWithProperEncoding, fixEncoding } from '../utils/encoding';
 import { ThreadSchema } from '../types/messenger';
-import type { ThreadMetadata } from '../types/messenger';
+import { THREAD_FOLDERS } from '../types/messenger';
+import type { Platform, ThreadFolder, ThreadMetadata } from '../types/messenger';
+import type { ArchiveDirectoryHandle, ArchiveSource } from '../types/archive';
 import { getAvatarColor } from '../utils/avatarColors';
+import { PLATFORM_LABELS, getThreadPlatform } from '../utils/platform';
+import { FolderPicker } from '../components/FolderPicker';
+import { FOLDER_LABELS, listThreadDirectories } from '../utils/threadDiscovery';
+import { readHtmlThread } from '../utils/facebookHtml';
+import { getTelegramChatSummary } from '../utils/telegramExport';
+import { readWhatsAppThread } from '../utils/whatsappChat';
+import {
+  cacheThreadMetadata,
+  getCachedThreadMetadata,
+  getThreadFingerprint,
+} from '../utils/threadCache';
 
 export const ConversationList: React.FC = () => {
   const navigate = useNavigate();
-  const { directoryHandle, threadMetadata, loadInitialThreads } = useAppContext();
+  const {
+    archiveSource,
+    archivePlatform,
+    directoryHandle,
+    threadMetadata,
+    loadInitialThreads,
+    addArchiveSource,
+  } = useAppContext();
+  const addExportModal = useDisclosure();
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
+  const [hiddenFolders, setHiddenFolders] = useState<Set<ThreadFolder>>(new Set());
 
   const borderColor = useColorModeValue('gray.200', 'gray.700');
 
   const parseThreadMetadata = async (
-    threadHandle: FileSystemDirectoryHandle,
+    threadHandle: ArchiveDirectoryHandle,
     threadId: string,
+    folder?: ThreadFolder,
+    sourcePlatform?: Platform,
   ): Promise<ThreadMetadata> => {
     try {
-      // Try to get message_1.json file
-      const messageFile = await threadHandle.getFileHandle('message_1.json');
+      // Reuse metadata from an earlier visit if the thread's files are unchanged
+      const fingerprint = await getThreadFingerprint(threadHandle);
+      const cachedMetadata = await getCachedThreadMetadata(threadId, fingerprint);
+      if (cachedMetadata) return { ...cachedMetadata, folder };
+
+      // Try to get message_1.json file, from the latest export when several are merged
+      const layers = threadHandle.layers;
+      const latestLayer = layers?.[layers.length - 1];
+
+      const metadataHandle = latestLayer?.handle ?? threadHandle;
+      const messageFile = await metadataHandle.getFileHandle('message_1.json').catch(() => null);
+
+      // Telegram chats share the export's result.json, which is summarized once for all chats
+      const telegramChat = messageFile ? undefined : await getTelegramChatSummary(metadataHandle);
+      if (telegramChat) {
+        const telegramMetadata: ThreadMetadata = {
+          id: threadId,
+          participants: telegramChat.participants.map((name) => ({ name })),
+          lastMessageTime: telegramChat.lastMessageTime,
+          totalMessages: telegramChat.messageCount,
+          title: telegramChat.name,
+          folder,
+          platform: 'telegram',
+        };
+        cacheThreadMetadata(telegramMetadata, fingerprint);
+        return telegramMetadata;
+      }
+
+      // HTML-format exports have message_1.html pages instead
+      const htmlPage = messageFile ? null : await readHtmlThread(metadataHandle);
+      if (htmlPage?.layout) {
+        const htmlMetadata: ThreadMetadata = {
+          id: threadId,
+          participants: htmlPage.participants,
+          lastMessageTime: Math.max(0, ...htmlPage.messages.map((m) => m.timestamp_ms)),
+          totalMessages: htmlPage.messages.length,
+          title: htmlPage.title,
+          folder,
+          platform: getThreadPlatform(
+            htmlPage.messages,
+            latestLayer ? latestLayer.platform : sourcePlatform,
+          ),
+        };
+        cacheThreadMetadata(htmlMetadata, fingerprint);
+        return htmlMetadata;
+      }
+
+      // Imported WhatsApp chats have a text file instead
+      if (!messageFile) {
+        const chat = await readWhatsAppThread(metadataHandle, threadId);
+        if (!chat) throw new Error('No message files in thread folder');
+        const whatsAppMetadata: ThreadMetadata = {
+          id: threadId,
+          participants: chat.participants,
+          lastMessageTime: chat.messages[chat.messages.length - 1]?.timestamp_ms || 0,
+          totalMessages: chat.messages.length,
+          title: threadId.split('/').pop(),
+          folder,
+          platform: 'whatsapp',
+        };
+        cacheThreadMetadata(whatsAppMetadata, fingerprint);
+        return whatsAppMetadata;
+      }
+
       const file = await messageFile.getFile();
       const fixedText = await readFileWithProperEncoding(file);
       const data = JSON.parse(fixedText);
@@ -54,13 +159,20 @@ export const ConversationList: React.FC = () => {
       const lastMessageTime = lastMessage?.timestamp_ms || 0;
       const title = validatedData.title ? fixEncoding(validatedData.title) : undefined;
 
-      return {
+      const metadata: ThreadMetadata = {
         id: threadId,
         participants,
         lastMessageTime,
         totalMessages: validatedData.messages.length,
         title,
+        folder,
+        platform: getThreadPlatform(
+          validatedData.messages,
+          latestLayer ? latestLayer.platform : sourcePlatform,
+        ),
       };
+      cacheThreadMetadata(metadata, fingerprint);
+      return metadata;
     } catch (error) {
       logger.debug('PARSE_METADATA_ERROR', { threadId, error });
       // Fallback to folder name if parsing fails
@@ -70,6 +182,7 @@ export const ConversationList: React.FC = () => {
         lastMessageTime: 0,
         totalMessages: 0,
         title: threadId.split('/').pop(),
+        folder,
       };
     }
   };
@@ -81,47 +194,10 @@ export const ConversationList: React.FC = () => {
       setLoading(true);
       logger.debug('SCANNING_THREADS');
 
-      const threadPromises: Promise<ThreadMetadata>[] = [];
-
-      // Scan inbox folder
-      try {
-        const inboxHandle = await directoryHandle.getDirectoryHandle('inbox');
-        for await (const entry of inboxHandle.values()) {
-          if (entry.kind === 'directory') {
-            const threadId = `inbox/${entry.name}`;
-            threadPromises.push(parseThreadMetadata(entry as FileSystemDirectoryHandle, threadId));
-          }
-        }
-      } catch {
-        logger.debug('NO_INBOX_FOLDER');
-      }
-
-      // Scan e2ee_cutover folder
-      try {
-        const e2eeHandle = await directoryHandle.getDirectoryHandle('e2ee_cutover');
-        for await (const entry of e2eeHandle.values()) {
-          if (entry.kind === 'directory') {
-            const threadId = `e2ee_cutover/${entry.name}`;
-            threadPromises.push(parseThreadMetadata(entry as FileSystemDirectoryHandle, threadId));
-          }
-        }
-      } catch {
-        logger.debug('NO_E2EE_FOLDER');
-      }
-
-      // If no subfolders found, scan current directory
-      if (threadPromises.length === 0) {
-        for await (const entry of directoryHandle.values()) {
-          if (
-            entry.kind === 'directory' &&
-            !['photos', 'videos', 'gifs', 'audio', 'files'].includes(entry.name)
-          ) {
-            threadPromises.push(
-              parseThreadMetadata(entry as FileSystemDirectoryHandle, entry.name),
-            );
-          }
-        }
-      }
+      const threadDirectories = await listThreadDirectories(directoryHandle);
+      const threadPromises = threadDirectories.map(({ threadId, handle, folder }) =>
+        parseThreadMetadata(handle, threadId, folder, archivePlatform),
+      );
 
       logger.debug('PARSING_THREADS', { count: threadPromises.length });
 
@@ -135,7 +211,7 @@ export const ConversationList: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [directoryHandle, loadInitialThreads]);
+  }, [directoryHandle, archivePlatform, loadInitialThreads]);
 
   useEffect(() => {
     if (!directoryHandle) {
@@ -152,7 +228,35 @@ export const ConversationList: React.FC = () => {
     }
   }, [directoryHandle, navigate, threadMetadata, scanForThreads]);
 
+  // Count conversations per folder so the filter only offers folders the export has
+  const folderCounts = useMemo(() => {
+    const counts = new Map<ThreadFolder, number>();
+    for (const thread of threadMetadata) {
+      if (thread.folder) counts.set(thread.folder, (counts.get(thread.folder) || 0) + 1);
+    }
+    return counts;
+  }, [threadMetadata]);
+
+  // Messenger is only worth a badge when the list mixes platforms
+  const hasSeveralPlatforms = useMemo(
+    () => new Set(threadMetadata.map((thread) => thread.platform ?? 'messenger')).size > 1,
+    [threadMetadata],
+  );
+
+  const toggleFolder = (folder: ThreadFolder) => {
+    setHiddenFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(folder)) {
+        next.delete(folder);
+      } else {
+        next.add(folder);
+      }
+      return next;
+    });
+  };
+
   const filteredThreads = threadMetadata.filter((thread) => {
+    if (thread.folder && hiddenFolders.has(thread.folder)) return false;
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
@@ -174,6 +278,13 @@ export const ConversationList: React.FC = () => {
     return date.toLocaleDateString();
   };
 
+  const exportCount = archiveSource?.kind === 'merged' ? archiveSource.sources.length : 1;
+
+  const handleExportAdded = async (source: ArchiveSource) => {
+    await addArchiveSource(source);
+    addExportModal.onClose();
+  };
+
   const handleThreadClick = (threadId: string) => {
     navigate(`/conversation/${encodeURIComponent(threadId)}`);
   };
@@ -201,6 +312,53 @@ export const ConversationList: React.FC = () => {
                   Messenger Archive
                 </Heading>
               </HStack>
+              <HStack>
+                <Button
+                  leftIcon={<Icon as={FiPlus} />}
+                  size="sm"
+                  variant="ghost"
+                  colorScheme="blue"
+                  onClick={addExportModal.onOpen}
+                >
+                  {exportCount > 1 ? `Add export (${exportCount} merged)` : 'Add export'}
+                </Button>
+                <Button
+                  leftIcon={<Icon as={FiPieChart} />}
+                  size="sm"
+                  variant="ghost"
+                  colorScheme="blue"
+                  onClick={() => navigate('/dashboard')}
+                >
+                  Overview
+                </Button>
+                <Button
+                  leftIcon={<Icon as={FiImage} />}
+                  size="sm"
+                  variant="ghost"
+                  colorScheme="blue"
+                  onClick={() => navigate('/photos')}
+                >
+                  Photos
+                </Button>
+                <Button
+                  leftIcon={<Icon as={FiCheckSquare} />}
+                  size="sm"
+                  variant="ghost"
+                  colorScheme="blue"
+                  onClick={() => navigate('/integrity')}
+                >
+                  Check archive
+                </Button>
+                <Button
+                  leftIcon={<Icon as={FiFileText} />}
+                  size="sm"
+                  variant="outline"
+                  colorScheme="blue"
+                  onClick={() => navigate('/search')}
+                >
+                  Search all messages
+                </Button>
+              </HStack>
             </HStack>
             <InputGroup maxW="md">
               <InputLeftElement pointerEvents="none">
@@ -216,6 +374,27 @@ export const ConversationList: React.FC = () => {
                 borderRadius="full"
               />
             </InputGroup>
+            {folderCounts.size > 1 && (
+              <Wrap justify="center" spacing={2}>
+                {THREAD_FOLDERS.filter((folder) => folderCounts.has(folder)).map((folder) => {
+                  const isShown = !hiddenFolders.has(folder);
+                  return (
+                    <WrapItem key={folder}>
+                      <Button
+                        size="xs"
+                        borderRadius="full"
+                        colorScheme="blue"
+                        variant={isShown ? 'solid' : 'outline'}
+                        aria-pressed={isShown}
+                        onClick={() => toggleFolder(folder)}
+                      >
+                        {FOLDER_LABELS[folder]} ({folderCounts.get(folder)})
+                      </Button>
+                    </WrapItem>
+                  );
+                })}
+              </Wrap>
+            )}
           </VStack>
         </Box>
       </Box>
@@ -242,7 +421,9 @@ export const ConversationList: React.FC = () => {
             <Box p={12} bg="white" textAlign="center" borderRadius="lg" mx={4}>
               <Icon as={FiFolder} boxSize={16} color="gray.300" mb={4} />
               <Text color="gray.500" fontSize="lg">
-                {searchQuery ? 'No conversations match your search' : 'No conversations found'}
+                {searchQuery || hiddenFolders.size > 0
+                  ? 'No conversations match your search'
+                  : 'No conversations found'}
               </Text>
             </Box>
           ) : (
@@ -296,6 +477,20 @@ export const ConversationList: React.FC = () => {
                               thread.participants.map((p) => p.name).join(', ') ||
                               'Unknown Thread'}
                           </Text>
+                          {thread.platform &&
+                            (hasSeveralPlatforms || thread.platform !== 'messenger') && (
+                              <Badge
+                                fontSize="2xs"
+                                colorScheme={thread.platform === 'instagram' ? 'pink' : 'blue'}
+                              >
+                                {PLATFORM_LABELS[thread.platform]}
+                              </Badge>
+                            )}
+                          {thread.folder && thread.folder !== 'inbox' && (
+                            <Badge fontSize="2xs" colorScheme="gray">
+                              {FOLDER_LABELS[thread.folder]}
+                            </Badge>
+                          )}
                           <Text fontSize="xs" color="gray.500">
                             {hasData && formatDate(thread.lastMessageTime)}
                           </Text>
@@ -321,6 +516,20 @@ export const ConversationList: React.FC = () => {
           )}
         </VStack>
       </Box>
+
+      <Modal isOpen={addExportModal.isOpen} onClose={addExportModal.onClose} size="xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalCloseButton />
+          <ModalBody py={6}>
+            <FolderPicker
+              onArchiveSelected={handleExportAdded}
+              title="Add another export"
+              description="Select another Facebook export of the same account. Conversations are merged and messages that appear in both exports are shown once."
+            />
+          </ModalBody>
+        </ModalContent>
+      </Modal>
     </Box>
   );
 };
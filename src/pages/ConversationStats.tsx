@@ -0,0 +1,310 @@
+import React, { useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Heading,
+  IconButton,
+  Progress,
+  Spinner,
+  Center,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { FiArrowLeft } from 'react-icons/fi';
+import {
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useThread } from '../hooks/useThread';
+import { ResponseTimes } from '../components/ResponseTimes';
+import { computeThreadStats, type MediaCounts } from '../utils/threadStats';
+import { CHART_COLORS, formatDuration } from '../utils/chartFormat';
+import type { Message } from '../types/messenger';
+
+const MEDIA_LABELS: Record<keyof MediaCounts, string> = {
+  photos: 'Photos',
+  videos: 'Videos',
+  audio: 'Audio',
+  gifs: 'GIFs',
+  stickers: 'Stickers',
+  files: 'Files',
+  links: 'Links',
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const formatDayKey = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return formatDate(new Date(year, month - 1, day).getTime());
+};
+
+export const ConversationStats: React.FC = () => {
+  const { threadId } = useParams<{ threadId: string }>();
+  const navigate = useNavigate();
+  const decodedThreadId = threadId ? decodeURIComponent(threadId) : '';
+  const { thread, loading, progress } = useThread(decodedThreadId);
+
+  const cardBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const stats = useMemo(() => (thread ? computeThreadStats(thread.messages) : null), [thread]);
+
+  const mediaData = useMemo(
+    () =>
+      stats
+        ? (Object.keys(MEDIA_LABELS) as (keyof MediaCounts)[])
+            .map((key) => ({ name: MEDIA_LABELS[key], value: stats.media[key] }))
+            .filter((entry) => entry.value > 0)
+        : [],
+    [stats],
+  );
+
+  const conversationPath = `/conversation/${encodeURIComponent(decodedThreadId)}`;
+  const handleBack = () => navigate(conversationPath);
+  // Opens the conversation at a message, the same way search results do
+  const openAt = (message?: Message) =>
+    message && navigate(`${conversationPath}?at=${message.timestamp_ms}`);
+
+  if (!thread || !stats) {
+    return (
+      <Box h="100vh" bg="gray.50" w="full">
+        <Center minH="60vh">
+          {loading ? (
+            <VStack spacing={6} w="full" maxW="md" px={4}>
+              <Spinner size="xl" color="blue.500" />
+              <Text color="gray.600" fontSize="lg">
+                Parsing messages...
+              </Text>
+              {progress !== undefined && (
+                <Progress value={progress} w="full" colorScheme="blue" size="lg" />
+              )}
+            </VStack>
+          ) : (
+            <VStack spacing={4}>
+              <Text fontSize="lg" color="gray.600">
+                Conversation not found
+              </Text>
+              <IconButton
+                aria-label="Back"
+                icon={<FiArrowLeft />}
+                onClick={() => navigate('/')}
+                colorScheme="blue"
+                size="lg"
+              />
+            </VStack>
+          )}
+        </Center>
+      </Box>
+    );
+  }
+
+  const title = thread.title || thread.participants.map((p) => p.name).join(', ') || 'Conversation';
+
+  return (
+    <Box h="100vh" bg="gray.50" w="full" overflowY="auto">
+      {/* Header */}
+      <Box
+        bg="white"
+        borderBottomWidth="1px"
+        borderColor={borderColor}
+        px={{ base: 2, md: 4 }}
+        py={4}
+        position="sticky"
+        top={0}
+        zIndex={10}
+        boxShadow="sm"
+      >
+        <Box maxW="1200px" mx="auto" w="full">
+          <HStack>
+            <IconButton
+              aria-label="Back to conversation"
+              icon={<FiArrowLeft />}
+              onClick={handleBack}
+              variant="ghost"
+              size="lg"
+            />
+            <Box flex={1}>
+              <Heading size="md" color="gray.800">
+                {title}
+              </Heading>
+              <Text color="gray.500" fontSize="sm">
+                Statistics{loading && ' • loading…'}
+              </Text>
+            </Box>
+          </HStack>
+        </Box>
+      </Box>
+      {loading && <Progress value={progress ?? 0} size="xs" colorScheme="blue" />}
+
+      <Box maxW="1200px" mx="auto" px={{ base: 2, md: 4 }} py={6} w="full">
+        <VStack spacing={6} align="stretch">
+          {/* Summary figures */}
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+            <Stat bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Messages</StatLabel>
+              <StatNumber>{stats.messageCount.toLocaleString()}</StatNumber>
+              <StatHelpText>{Math.round(stats.averageLength)} characters on average</StatHelpText>
+            </Stat>
+            <Stat bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Busiest day</StatLabel>
+              <StatNumber>{stats.busiestDay?.count.toLocaleString() ?? '–'}</StatNumber>
+              <StatHelpText>{stats.busiestDay && formatDayKey(stats.busiestDay.date)}</StatHelpText>
+            </Stat>
+            <Stat bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Longest streak</StatLabel>
+              <StatNumber>
+                {stats.longestStreak
+                  ? `${stats.longestStreak.days} day${stats.longestStreak.days !== 1 ? 's' : ''}`
+                  : '–'}
+              </StatNumber>
+              <StatHelpText>
+                {stats.longestStreak &&
+                  `${formatDayKey(stats.longestStreak.start)} – ${formatDayKey(stats.longestStreak.end)}`}
+              </StatHelpText>
+            </Stat>
+            <Stat bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Calls</StatLabel>
+              <StatNumber>{formatDuration(stats.totalCallSeconds * 1000)}</StatNumber>
+              <StatHelpText>
+                {stats.callCount} call{stats.callCount !== 1 ? 's' : ''}
+              </StatHelpText>
+            </Stat>
+          </SimpleGrid>
+
+          {/* First and last message */}
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            {(
+              [
+                ['First message', stats.firstMessage],
+                ['Last message', stats.lastMessage],
+              ] as const
+            ).map(([label, message]) => (
+              <Box
+                key={label}
+                bg={cardBg}
+                p={4}
+                borderRadius="lg"
+                boxShadow="sm"
+                cursor={message ? 'pointer' : undefined}
+                _hover={message ? { bg: 'gray.50' } : undefined}
+                onClick={() => openAt(message)}
+              >
+                <Text fontSize="sm" color="gray.500">
+                  {label}
+                  {message && ` • ${formatDate(message.timestamp_ms)}`}
+                </Text>
+                {message && (
+                  <Text mt={1} noOfLines={2}>
+                    <Text as="span" fontWeight="600">
+                      {message.sender_name}:
+                    </Text>{' '}
+                    {message.content || 'Attachment'}
+                  </Text>
+                )}
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            {/* Messages per participant */}
+            <Box bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+              <Text fontWeight="600" color="gray.800" mb={4}>
+                Messages per participant
+              </Text>
+              <Box h={`${Math.max(160, stats.messagesPerParticipant.length * 36)}px`}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={stats.messagesPerParticipant}
+                    layout="vertical"
+                    margin={{ top: 0, right: 16, left: 16, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.3} horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={120} />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Messages" fill="#3182ce" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Box>
+            </Box>
+
+            {/* Media by type */}
+            <Box bg={cardBg} p={4} borderRadius="lg" boxShadow="sm">
+              <Text fontWeight="600" color="gray.800" mb={4}>
+                Media
+              </Text>
+              {mediaData.length === 0 ? (
+                <Center h="160px">
+                  <Text color="gray.500">No photos, videos or files</Text>
+                </Center>
+              ) : (
+                <Box h="240px">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={mediaData} dataKey="value" nameKey="name" outerRadius={80}>
+                        {mediaData.map((entry, index) => (
+                          <Cell key={entry.name} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip />
+                      <Legend />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </Box>
+              )}
+            </Box>
+          </SimpleGrid>
+
+          <ResponseTimes messages={thread.messages} />
+
+          {/* Longest silences */}
+          <Box bg={cardBg} borderRadius="lg" boxShadow="sm" overflow="hidden">
+            <Text fontWeight="600" color="gray.800" px={4} py={3}>
+              Longest silences
+            </Text>
+            {stats.longestSilences.map((silence) => (
+              <HStack
+                key={`${silence.start}_${silence.end}`}
+                px={4}
+                py={3}
+                borderTopWidth="1px"
+                borderColor={borderColor}
+                cursor="pointer"
+                _hover={{ bg: 'gray.50' }}
+                onClick={() => navigate(`${conversationPath}?at=${silence.end}`)}
+              >
+                <Text fontWeight="600" minW="90px">
+                  {formatDuration(silence.durationMs)}
+                </Text>
+                <Text color="gray.600" fontSize="sm">
+                  {formatDate(silence.start)} – {formatDate(silence.end)}
+                </Text>
+              </HStack>
+            ))}
+          </Box>
+        </VStack>
+      </Box>
+    </Box>
+  );
+};
@@ -1,5 +1,5 @@
-import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   VStack,
@@ -15,45 +15,93 @@ import {
   Alert,
   AlertIcon,
   Button,
+  Collapse,
+  Tabs,
+  TabList,
+  Tab,
 } from '@chakra-ui/react';
-import { FiArrowLeft, FiSettings } from 'react-icons/fi';
+import { FiArrowLeft, FiBarChart2, FiCalendar, FiClock, FiSettings, FiType } from 'react-icons/fi';
 import { useAppContext } from '../context/AppContext';
-import { useMessageParser } from '../hooks/useMessageParser';
+import { useThread } from '../hooks/useThread';
 import { MessageList, type MessageListHandle } from '../components/MessageList';
-import { SearchBar } from '../components/SearchBar';
+import { SearchBar, type SearchBarHandle } from '../components/SearchBar';
 import { MessageTimeline } from '../components/MessageTimeline';
+import { TimelineHeatmap } from '../components/TimelineHeatmap';
 import { Settings } from '../components/Settings';
-import { logger } from '../utils/logger';
-import type { ParsedThread } from '../types/messenger';
+import { GroupHistory } from '../components/GroupHistory';
+import { TermFrequencies } from '../components/TermFrequencies';
+import { MediaGallery } from '../components/MediaGallery';
+import { getGroupHistory } from '../utils/systemEvents';
 
 export const ConversationView: React.FC = () => {
   const { threadId } = useParams<{ threadId: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const toast = useToast();
-  const {
-    directoryHandle,
-    getThread,
-    addThread,
-    isThreadLoading,
-    setThreadLoading,
-    parseProgress,
-    setParseProgress,
-    currentUserName,
-  } = useAppContext();
-
-  const [thread, setThread] = useState<ParsedThread | null>(null);
+  const { currentUserName } = useAppContext();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResultCount, setSearchResultCount] = useState(0);
   const [currentSearchResultIndex, setCurrentSearchResultIndex] = useState(-1); // 0-based internal index
   const [currentVisibleDateInList, setCurrentVisibleDateInList] = useState<Date | null>(null);
+  const [showUnparsedLines, setShowUnparsedLines] = useState(false);
+  const [view, setView] = useState<'messages' | 'media'>('messages');
+  // Message to scroll to once the message list is shown again, e.g. from the media gallery
+  const [pendingJumpIndex, setPendingJumpIndex] = useState<number | null>(null);
   const messageListRef = useRef<MessageListHandle>(null);
+  const searchBarRef = useRef<SearchBarHandle>(null);
   const {
     isOpen: isSettingsOpen,
     onOpen: onOpenSettings,
     onClose: onCloseSettings,
   } = useDisclosure();
+  const groupHistory = useDisclosure();
+  const heatmap = useDisclosure();
+  const termFrequencies = useDisclosure();
+  const { onClose: onCloseTermFrequencies } = termFrequencies;
 
   const decodedThreadId = threadId ? decodeURIComponent(threadId) : '';
+  const { thread, loading, progress } = useThread(decodedThreadId);
+  const focusTimestamp = searchParams.get('at');
+  const focusMessage = searchParams.get('message');
+
+  // Index of the message a link points at (?at=<timestamp_ms>), e.g. from the archive search.
+  // Messages sent in the same millisecond are told apart by their index (&message=<index>),
+  // which is trusted only while it still points at a message with that timestamp.
+  const focusedMessageIndex = useMemo(() => {
+    if (!thread || !focusTimestamp) return -1;
+    const timestamp = Number(focusTimestamp);
+    const index = focusMessage === null ? -1 : Number(focusMessage);
+    if (thread.messages[index]?.timestamp_ms === timestamp) return index;
+    return thread.messages.findIndex((m) => m.timestamp_ms === timestamp);
+  }, [thread, focusTimestamp, focusMessage]);
+
+  // The group history panel is offered once the thread has membership or name changes
+  const hasGroupEvents = useMemo(
+    () => Boolean(thread && getGroupHistory(thread.messages).length > 0),
+    [thread],
+  );
+
+  useEffect(() => {
+    if (focusedMessageIndex >= 0) {
+      messageListRef.current?.scrollToIndex(focusedMessageIndex, {
+        align: 'center',
+        behavior: 'auto',
+      });
+    }
+  }, [focusedMessageIndex]);
+
+  useEffect(() => {
+    if (view !== 'messages' || pendingJumpIndex === null) return;
+    // The list was hidden, so it is scrolled after it has been laid out again
+    const frame = requestAnimationFrame(() => {
+      messageListRef.current?.scrollToIndex(pendingJumpIndex, {
+        align: 'center',
+        behavior: 'auto',
+      });
+      setPendingJumpIndex(null);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [view, pendingJumpIndex]);
 
   const handleUpdateSearchResults = useCallback(
     (count: number, currentIndexInResultsArray: number) => {
@@ -131,84 +179,32 @@ export const ConversationView: React.FC = () => {
     [thread, toast],
   );
 
-  const handleThreadParsed = useCallback(
-    (parsedThread: ParsedThread) => {
-      logger.debug('THREAD_READY', { threadId: parsedThread.threadId });
-      addThread(parsedThread);
-      if (parsedThread.threadId === decodedThreadId) {
-        setThread(parsedThread);
-      }
+  const handleDaySelect = useCallback(
+    (day: Date) => {
+      const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59, 59, 999);
+      handleTimeRangeSelect(day, dayEnd);
     },
-    [addThread, decodedThreadId],
+    [handleTimeRangeSelect],
   );
 
-  const handleProgress = useCallback(
-    (threadId: string, progress: number, data?: any) => {
-      logger.debug('PARSE_PROGRESS', { threadId, progress, data });
-      setParseProgress(threadId, progress);
-    },
-    [setParseProgress],
-  );
-
-  const handleError = useCallback(
-    (threadId: string, error: string) => {
-      logger.error('THREAD_FAILED', { threadId, error });
-      setThreadLoading(threadId, false);
-      toast({
-        title: 'Failed to load conversation',
-        description: error,
-        status: 'error',
-        duration: 5000,
-        isClosable: true,
-      });
+  const handleTermSelect = useCallback(
+    (query: string) => {
+      searchBarRef.current?.search(query);
+      setView('messages');
+      onCloseTermFrequencies();
     },
-    [setThreadLoading, toast],
+    [onCloseTermFrequencies],
   );
 
-  const { parseThread } = useMessageParser({
-    onThreadParsed: handleThreadParsed,
-    onProgress: handleProgress,
-    onError: handleError,
-  });
-
-  // User detection is handled globally in AppContext - no per-conversation detection
-
-  useEffect(() => {
-    if (!directoryHandle || !decodedThreadId) {
-      navigate('/');
-      return;
-    }
-
-    // Check if thread is already loaded
-    const existingThread = getThread(decodedThreadId);
-    if (existingThread) {
-      setThread(existingThread);
-      return;
-    }
-
-    // Start loading the thread
-    if (!isThreadLoading(decodedThreadId)) {
-      logger.debug('THREAD_LOADING', { threadId: decodedThreadId });
-      setThreadLoading(decodedThreadId, true);
-      parseThread(directoryHandle, decodedThreadId);
-    }
-  }, [
-    directoryHandle,
-    decodedThreadId,
-    getThread,
-    isThreadLoading,
-    navigate,
-    parseThread,
-    setThreadLoading,
-  ]);
+  const handleJumpToMessage = useCallback((messageIndex: number) => {
+    setView('messages');
+    setPendingJumpIndex(messageIndex);
+  }, []);
 
   const handleBack = () => {
     navigate('/');
   };
 
-  const progress = parseProgress.get(decodedThreadId);
-  const loading = isThreadLoading(decodedThreadId);
-
   // Now we can safely do conditional rendering after all hooks are called
   if (loading && !thread) {
     return (
@@ -316,8 +312,43 @@ export const ConversationView: React.FC = () => {
               </Heading>
               <Text color="gray.500" fontSize="sm">
                 {thread.messages.length} messages • {thread.participants.length} participants
+                {loading && ' • loading…'}
               </Text>
             </Box>
+            <IconButton
+              aria-label="Activity heatmap"
+              title="Activity heatmap"
+              icon={<FiCalendar />}
+              onClick={heatmap.onToggle}
+              variant={heatmap.isOpen ? 'solid' : 'ghost'}
+              size="lg"
+            />
+            <IconButton
+              aria-label="Words and emoji"
+              title="Words and emoji"
+              icon={<FiType />}
+              onClick={termFrequencies.onOpen}
+              variant="ghost"
+              size="lg"
+            />
+            <IconButton
+              aria-label="Statistics"
+              title="Statistics"
+              icon={<FiBarChart2 />}
+              onClick={() => navigate(`/conversation/${encodeURIComponent(decodedThreadId)}/stats`)}
+              variant="ghost"
+              size="lg"
+            />
+            {hasGroupEvents && (
+              <IconButton
+                aria-label="Group history"
+                title="Group history"
+                icon={<FiClock />}
+                onClick={groupHistory.onOpen}
+                variant="ghost"
+                size="lg"
+              />
+            )}
             <IconButton
               aria-label="Settings"
               icon={<FiSettings />}
@@ -328,8 +359,9 @@ export const ConversationView: React.FC = () => {
           </HStack>
         </Box>
       </Box>
+      {loading && <Progress value={progress ?? 0} size="xs" colorScheme="blue" />}
 
-      {/* Sticky Header: Search and Timeline */}
+      {/* Sticky Header: Tabs, Search and Timeline */}
       <Box
         position="sticky"
         top={0}
@@ -339,29 +371,56 @@ export const ConversationView: React.FC = () => {
         borderColor="gray.200"
         boxShadow="sm"
       >
-        {/* Search Bar */}
-        <Box px={{ base: 2, md: 4 }} py={3}>
+        <Box px={{ base: 2, md: 4 }} pt={3}>
           <Box maxW="1200px" mx="auto" w="full">
-            <SearchBar
-              onSearch={setSearchQuery}
-              searchResultCount={searchResultCount}
-              currentResultIndex={
-                currentSearchResultIndex === -1 ? 0 : currentSearchResultIndex + 1
-              } // Display 1-based
-              onNavigateNext={handleNavigateNextResult}
-              onNavigatePrev={handleNavigatePrevResult}
-            />
+            <Tabs
+              size="sm"
+              variant="soft-rounded"
+              index={view === 'media' ? 1 : 0}
+              onChange={(index) => setView(index === 1 ? 'media' : 'messages')}
+            >
+              <TabList>
+                <Tab>Messages</Tab>
+                <Tab>Media</Tab>
+              </TabList>
+            </Tabs>
           </Box>
         </Box>
-        {/* Timeline (always visible) */}
-        <Box px={{ base: 2, md: 4 }} py={3}>
-          <Box maxW="1200px" mx="auto" w="full">
-            <MessageTimeline
-              messages={thread.messages}
-              onTimeRangeSelect={handleTimeRangeSelect}
-              currentVisibleDate={currentVisibleDateInList}
-            />
+        {/* Search, timeline and heatmap only apply to the message list */}
+        <Box display={view === 'messages' ? 'block' : 'none'}>
+          {/* Search Bar */}
+          <Box px={{ base: 2, md: 4 }} py={3}>
+            <Box maxW="1200px" mx="auto" w="full">
+              <SearchBar
+                ref={searchBarRef}
+                onSearch={setSearchQuery}
+                searchResultCount={searchResultCount}
+                currentResultIndex={
+                  currentSearchResultIndex === -1 ? 0 : currentSearchResultIndex + 1
+                } // Display 1-based
+                onNavigateNext={handleNavigateNextResult}
+                onNavigatePrev={handleNavigatePrevResult}
+              />
+            </Box>
+          </Box>
+          {/* Timeline */}
+          <Box px={{ base: 2, md: 4 }} py={3}>
+            <Box maxW="1200px" mx="auto" w="full">
+              <MessageTimeline
+                messages={thread.messages}
+                onTimeRangeSelect={handleTimeRangeSelect}
+                currentVisibleDate={currentVisibleDateInList}
+              />
+            </Box>
           </Box>
+          {/* Calendar heatmap and punch card */}
+          <Collapse in={heatmap.isOpen} animateOpacity>
+            <Box px={{ base: 2, md: 4 }} pb={3}>
+              <Box maxW="1200px" mx="auto" w="full">
+                <TimelineHeatmap messages={thread.messages} onDaySelect={handleDaySelect} />
+              </Box>
+            </Box>
+          </Collapse>
         </Box>
       </Box>
 
@@ -388,18 +447,89 @@ export const ConversationView: React.FC = () => {
         </Box>
       )}
 
-      {/* Messages */}
-      <Box flex={1} maxW="1200px" mx="auto" w="full" px={{ base: 2, md: 4 }} minH={0} h="full">
+      {/* Lines of an imported chat that couldn't be read */}
+      {thread.unparsedLines && thread.unparsedLines.length > 0 && (
+        <Box
+          bg="orange.50"
+          borderBottomWidth="1px"
+          borderColor="orange.200"
+          px={{ base: 2, md: 4 }}
+          py={3}
+        >
+          <Box maxW="1200px" mx="auto" w="full">
+            <Alert status="warning" borderRadius="md" bg="transparent" p={2}>
+              <AlertIcon />
+              <Text fontSize="sm" color="orange.800" flex={1}>
+                {thread.unparsedLines.length} line{thread.unparsedLines.length !== 1 ? 's' : ''} of
+                the chat could not be read and {thread.unparsedLines.length !== 1 ? 'are' : 'is'}{' '}
+                missing from the conversation.
+              </Text>
+              <Button
+                size="xs"
+                colorScheme="orange"
+                variant="outline"
+                onClick={() => setShowUnparsedLines((show) => !show)}
+              >
+                {showUnparsedLines ? 'Hide lines' : 'Show lines'}
+              </Button>
+            </Alert>
+            {showUnparsedLines && (
+              <VStack align="stretch" spacing={1} maxH="200px" overflowY="auto" px={2}>
+                {thread.unparsedLines.map(({ lineNumber, text }) => (
+                  <Text key={lineNumber} fontSize="xs" fontFamily="mono" color="orange.900">
+                    {lineNumber}: {text}
+                  </Text>
+                ))}
+              </VStack>
+            )}
+          </Box>
+        </Box>
+      )}
+
+      {/* Messages, kept mounted while the gallery is shown so the scroll position survives */}
+      <Box
+        flex={1}
+        maxW="1200px"
+        mx="auto"
+        w="full"
+        px={{ base: 2, md: 4 }}
+        minH={0}
+        h="full"
+        display={view === 'messages' ? 'block' : 'none'}
+      >
         <MessageList
           ref={messageListRef}
           messages={thread.messages}
           searchQuery={searchQuery}
           onUpdateSearchResults={handleUpdateSearchResults}
           onVisibleDateChanged={handleVisibleDateChanged}
+          focusedIndex={focusedMessageIndex}
         />
       </Box>
 
+      {view === 'media' && (
+        <Box flex={1} maxW="1200px" mx="auto" w="full" px={{ base: 2, md: 4 }} minH={0}>
+          <MediaGallery messages={thread.messages} onJumpToMessage={handleJumpToMessage} />
+        </Box>
+      )}
+
       <Settings isOpen={isSettingsOpen} onClose={onCloseSettings} />
+      <TermFrequencies
+        isOpen={termFrequencies.isOpen}
+        onClose={termFrequencies.onClose}
+        messages={thread.messages}
+        onTermSelect={handleTermSelect}
+      />
+      {hasGroupEvents && (
+        <GroupHistory
+          isOpen={groupHistory.isOpen}
+          onClose={groupHistory.onClose}
+          messages={thread.messages}
+          onSelect={(index) =>
+            messageListRef.current?.scrollToIndex(index, { align: 'center', behavior: 'smooth' })
+          }
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Badge,
+  Box,
+  Button,
+  Center,
+  HStack,
+  Heading,
+  Icon,
+  IconButton,
+  Progress,
+  SimpleGrid,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Text,
+  VStack,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import {
+  FiArrowLeft,
+  FiChevronDown,
+  FiChevronRight,
+  FiDownload,
+  FiMessageSquare,
+} from 'react-icons/fi';
+import { Virtuoso } from 'react-virtuoso';
+import { useAppContext } from '../context/AppContext';
+import { useArchiveIntegrity } from '../hooks/useArchiveIntegrity';
+import { countIssues, toIntegrityCsv } from '../utils/archiveIntegrity';
+import type { ThreadIntegrity } from '../types/integrity';
+
+// Longer lists are left to the CSV
+const DETAIL_LIMIT = 50;
+
+const downloadCsv = (threads: ThreadIntegrity[]) => {
+  const blob = new Blob([toIntegrityCsv(threads)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'archive-integrity.csv';
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+const DetailList: React.FC<{ title: string; items: string[] }> = ({ title, items }) =>
+  items.length === 0 ? null : (
+    <Box>
+      <Text fontSize="sm" fontWeight="600" color="gray.700" mb={1}>
+        {title}
+      </Text>
+      <VStack align="stretch" spacing={0}>
+        {items.slice(0, DETAIL_LIMIT).map((item, index) => (
+          <Text key={index} fontSize="xs" fontFamily="mono" color="gray.600" wordBreak="break-all">
+            {item}
+          </Text>
+        ))}
+        {items.length > DETAIL_LIMIT && (
+          <Text fontSize="xs" color="gray.500">
+            and {(items.length - DETAIL_LIMIT).toLocaleString()} more in the CSV
+          </Text>
+        )}
+      </VStack>
+    </Box>
+  );
+
+interface ThreadRowProps {
+  thread: ThreadIntegrity;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onOpen: () => void;
+}
+
+const ThreadRow: React.FC<ThreadRowProps> = ({ thread, isExpanded, onToggle, onOpen }) => (
+  <Box bg="white" borderRadius="lg" boxShadow="sm" mb={2}>
+    <HStack px={4} py={3} cursor="pointer" onClick={onToggle} spacing={3}>
+      <Icon as={isExpanded ? FiChevronDown : FiChevronRight} color="gray.500" />
+      <Box flex={1} minW={0}>
+        <Text fontWeight="500" isTruncated>
+          {thread.title}
+        </Text>
+        <Text fontSize="xs" color="gray.500" isTruncated>
+          {thread.threadId} · {thread.attachmentCount.toLocaleString()} attachments
+        </Text>
+      </Box>
+      {thread.missing.length > 0 && (
+        <Badge colorScheme="red">{thread.missing.length.toLocaleString()} missing</Badge>
+      )}
+      {thread.orphaned.length > 0 && (
+        <Badge colorScheme="orange">{thread.orphaned.length.toLocaleString()} orphaned</Badge>
+      )}
+      {thread.invalidFiles.length > 0 && (
+        <Badge colorScheme="purple">{thread.invalidFiles.length} invalid JSON</Badge>
+      )}
+      {thread.error && <Badge colorScheme="red">unreadable</Badge>}
+    </HStack>
+    {isExpanded && (
+      <VStack align="stretch" spacing={3} px={4} pb={4} pl={11}>
+        <DetailList
+          title="Conversation couldn't be read"
+          items={thread.error ? [thread.error] : []}
+        />
+        <DetailList title="Missing media" items={thread.missing} />
+        <DetailList title="Media no message points to" items={thread.orphaned} />
+        <DetailList
+          title="Files that don't match the thread format"
+          items={thread.invalidFiles.map(({ fileName, error }) => `${fileName}: ${error}`)}
+        />
+        <Box>
+          <Button size="xs" variant="outline" leftIcon={<FiMessageSquare />} onClick={onOpen}>
+            Open conversation
+          </Button>
+        </Box>
+      </VStack>
+    )}
+  </Box>
+);
+
+export const IntegrityPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { archiveSource } = useAppContext();
+  const { status, progress, threads } = useArchiveIntegrity(archiveSource);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  useEffect(() => {
+    if (!archiveSource) {
+      navigate('/');
+    }
+  }, [archiveSource, navigate]);
+
+  // Most problems first
+  const withIssues = useMemo(
+    () =>
+      threads
+        .filter((thread) => countIssues(thread) > 0)
+        .sort((a, b) => countIssues(b) - countIssues(a)),
+    [threads],
+  );
+  const totals = useMemo(
+    () =>
+      threads.reduce(
+        (sum, thread) => ({
+          attachments: sum.attachments + thread.attachmentCount,
+          missing: sum.missing + thread.missing.length,
+          orphaned: sum.orphaned + thread.orphaned.length,
+          invalid: sum.invalid + thread.invalidFiles.length,
+        }),
+        { attachments: 0, missing: 0, orphaned: 0, invalid: 0 },
+      ),
+    [threads],
+  );
+
+  const toggle = (threadId: string) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (!next.delete(threadId)) next.add(threadId);
+      return next;
+    });
+
+  const checkedPercent =
+    progress.total > 0 ? Math.round((progress.scanned / progress.total) * 100) : 0;
+
+  return (
+    <Box h="100vh" bg="gray.50" w="full" display="flex" flexDirection="column" overflow="hidden">
+      {/* Header */}
+      <Box
+        bg="white"
+        borderBottomWidth="1px"
+        borderColor={borderColor}
+        px={{ base: 2, md: 4 }}
+        py={4}
+        boxShadow="sm"
+      >
+        <Box maxW="1200px" mx="auto" w="full">
+          <VStack spacing={3} align="stretch">
+            <HStack justify="space-between">
+              <HStack>
+                <IconButton
+                  aria-label="Back to conversations"
+                  icon={<FiArrowLeft />}
+                  onClick={() => navigate('/')}
+                  variant="ghost"
+                  size="lg"
+                />
+                <Heading size="md" color="gray.800">
+                  Archive Integrity
+                </Heading>
+              </HStack>
+              {status === 'ready' && (
+                <Button
+                  leftIcon={<FiDownload />}
+                  size="sm"
+                  variant="outline"
+                  colorScheme="blue"
+                  onClick={() => downloadCsv(withIssues)}
+                  isDisabled={withIssues.length === 0}
+                >
+                  Download CSV
+                </Button>
+              )}
+            </HStack>
+            {status === 'scanning' && (
+              <Box>
+                <Progress value={checkedPercent} size="sm" colorScheme="blue" borderRadius="full" />
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  Checking conversations… {progress.scanned} of {progress.total}
+                </Text>
+              </Box>
+            )}
+            {status === 'error' && (
+              <Text fontSize="xs" color="red.500">
+                Failed to check the archive
+              </Text>
+            )}
+          </VStack>
+        </Box>
+      </Box>
+
+      {status === 'ready' && (
+        <Box
+          flex={1}
+          minH={0}
+          maxW="1200px"
+          mx="auto"
+          w="full"
+          px={{ base: 2, md: 4 }}
+          display="flex"
+          flexDirection="column"
+        >
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4} py={6}>
+            <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Conversations</StatLabel>
+              <StatNumber>{threads.length.toLocaleString()}</StatNumber>
+              <StatHelpText>{withIssues.length.toLocaleString()} with problems</StatHelpText>
+            </Stat>
+            <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Missing media</StatLabel>
+              <StatNumber>{totals.missing.toLocaleString()}</StatNumber>
+              <StatHelpText>of {totals.attachments.toLocaleString()} attachments</StatHelpText>
+            </Stat>
+            <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Orphaned media</StatLabel>
+              <StatNumber>{totals.orphaned.toLocaleString()}</StatNumber>
+              <StatHelpText>Files no message points to</StatHelpText>
+            </Stat>
+            <Stat bg="white" p={4} borderRadius="lg" boxShadow="sm">
+              <StatLabel>Invalid JSON files</StatLabel>
+              <StatNumber>{totals.invalid.toLocaleString()}</StatNumber>
+              <StatHelpText>Not matching the thread format</StatHelpText>
+            </Stat>
+          </SimpleGrid>
+
+          {withIssues.length === 0 ? (
+            <Center flex={1}>
+              <Text color="gray.500">No problems found in this archive</Text>
+            </Center>
+          ) : (
+            <Box flex={1} minH={0}>
+              <Virtuoso
+                style={{ height: '100%' }}
+                data={withIssues}
+                itemContent={(_, thread) => (
+                  <ThreadRow
+                    thread={thread}
+                    isExpanded={expanded.has(thread.threadId)}
+                    onToggle={() => toggle(thread.threadId)}
+                    onOpen={() => navigate(`/conversation/${encodeURIComponent(thread.threadId)}`)}
+                  />
+                )}
+              />
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
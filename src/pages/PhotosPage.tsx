@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AspectRatio,
+  Box,
+  Center,
+  HStack,
+  Heading,
+  IconButton,
+  Progress,
+  SimpleGrid,
+  Text,
+  VStack,
+  useBreakpointValue,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { FiArrowLeft } from 'react-icons/fi';
+import { Virtuoso } from 'react-virtuoso';
+import { useAppContext } from '../context/AppContext';
+import { useArchiveMedia } from '../hooks/useArchiveMedia';
+import { MediaItem } from '../components/MediaItem';
+import { MediaLightbox } from '../components/MediaLightbox';
+import { groupMediaByMonth } from '../utils/mediaGallery';
+import type { ArchiveMediaItem } from '../types/media';
+
+// The list is virtualized by rows, so only the tiles on screen hold an object URL
+type PhotoRow =
+  | { type: 'month'; month: string; count: number }
+  | { type: 'items'; items: ArchiveMediaItem[]; start: number }; // start: index in the list
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+  });
+};
+
+interface PhotoTileProps {
+  item: ArchiveMediaItem;
+  threadTitle: string;
+  onOpen: () => void;
+}
+
+const PhotoTile: React.FC<PhotoTileProps> = ({ item, threadTitle, onOpen }) => (
+  <AspectRatio ratio={1}>
+    <Box
+      position="relative"
+      bg="gray.100"
+      borderRadius="md"
+      overflow="hidden"
+      title={`${threadTitle}: ${item.sender_name}, ${new Date(item.timestamp_ms).toLocaleString()}`}
+    >
+      <MediaItem
+        uri={item.uri}
+        altText={`${item.kind === 'photo' ? 'Photo' : 'Video'} from ${item.sender_name}`}
+        itemType={item.kind}
+        onMediaClick={onOpen}
+        variant="tile"
+      />
+      <Text
+        position="absolute"
+        bottom={0}
+        left={0}
+        right={0}
+        px={2}
+        py={1}
+        fontSize="xs"
+        color="white"
+        bgGradient="linear(to-t, blackAlpha.700, transparent)"
+        pointerEvents="none"
+        isTruncated
+      >
+        {threadTitle}
+      </Text>
+    </Box>
+  </AspectRatio>
+);
+
+export const PhotosPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { archiveSource } = useAppContext();
+  const { status, progress, threads } = useArchiveMedia(archiveSource);
+  const [lightboxIndex, setLightboxIndex] = useState(-1);
+  const columns = useBreakpointValue({ base: 3, sm: 4, md: 6 }) ?? 4;
+
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  useEffect(() => {
+    if (!archiveSource) {
+      navigate('/');
+    }
+  }, [archiveSource, navigate]);
+
+  const titles = useMemo(
+    () => new Map(threads.map((thread) => [thread.threadId, thread.title])),
+    [threads],
+  );
+  const months = useMemo(
+    () => groupMediaByMonth(threads.flatMap((thread) => thread.items)),
+    [threads],
+  );
+  // Newest first, in the order the grid shows them, for the lightbox
+  const items = useMemo(() => months.flatMap((month) => month.items), [months]);
+
+  const rows = useMemo(() => {
+    const result: PhotoRow[] = [];
+    let start = 0;
+    for (const { month, items: monthItems } of months) {
+      result.push({ type: 'month', month, count: monthItems.length });
+      for (let i = 0; i < monthItems.length; i += columns) {
+        result.push({ type: 'items', items: monthItems.slice(i, i + columns), start: start + i });
+      }
+      start += monthItems.length;
+    }
+    return result;
+  }, [months, columns]);
+
+  const openInConversation = (index: number) => {
+    const item = items[index];
+    if (!item) return;
+    navigate(`/conversation/${encodeURIComponent(item.threadId)}?at=${item.message_timestamp_ms}`);
+  };
+
+  const collectedPercent =
+    progress.total > 0 ? Math.round((progress.scanned / progress.total) * 100) : 0;
+
+  return (
+    <Box h="100vh" bg="gray.50" w="full" display="flex" flexDirection="column" overflow="hidden">
+      {/* Header */}
+      <Box
+        bg="white"
+        borderBottomWidth="1px"
+        borderColor={borderColor}
+        px={{ base: 2, md: 4 }}
+        py={4}
+        boxShadow="sm"
+      >
+        <Box maxW="1200px" mx="auto" w="full">
+          <VStack spacing={3} align="stretch">
+            <HStack>
+              <IconButton
+                aria-label="Back to conversations"
+                icon={<FiArrowLeft />}
+                onClick={() => navigate('/')}
+                variant="ghost"
+                size="lg"
+              />
+              <Box>
+                <Heading size="md" color="gray.800">
+                  Photos
+                </Heading>
+                {status === 'ready' && (
+                  <Text color="gray.500" fontSize="sm">
+                    {items.length.toLocaleString()} photos and videos from {threads.length}{' '}
+                    conversations
+                  </Text>
+                )}
+              </Box>
+            </HStack>
+            {status === 'scanning' && (
+              <Box>
+                <Progress
+                  value={collectedPercent}
+                  size="sm"
+                  colorScheme="blue"
+                  borderRadius="full"
+                />
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  Looking for photos… {progress.scanned} of {progress.total} conversations
+                </Text>
+              </Box>
+            )}
+            {status === 'error' && (
+              <Text fontSize="xs" color="red.500">
+                Failed to list the photos
+              </Text>
+            )}
+          </VStack>
+        </Box>
+      </Box>
+
+      {status === 'ready' && items.length === 0 && (
+        <Center flex={1}>
+          <Text color="gray.500">No photos or videos in this archive</Text>
+        </Center>
+      )}
+
+      {status === 'ready' && items.length > 0 && (
+        <Box flex={1} minH={0} maxW="1200px" mx="auto" w="full" px={{ base: 2, md: 4 }}>
+          <Virtuoso
+            style={{ height: '100%' }}
+            data={rows}
+            itemContent={(_, row) =>
+              row.type === 'month' ? (
+                <HStack justify="space-between" pt={6} pb={2}>
+                  <Heading size="sm" color="gray.800">
+                    {formatMonth(row.month)}
+                  </Heading>
+                  <Text fontSize="sm" color="gray.500">
+                    {row.count.toLocaleString()}
+                  </Text>
+                </HStack>
+              ) : (
+                <SimpleGrid columns={columns} spacing={2} pb={2}>
+                  {row.items.map((item, i) => (
+                    <PhotoTile
+                      key={`${item.threadId}/${item.uri}/${i}`}
+                      item={item}
+                      threadTitle={titles.get(item.threadId) ?? item.threadId}
+                      onOpen={() => setLightboxIndex(row.start + i)}
+                    />
+                  ))}
+                </SimpleGrid>
+              )
+            }
+          />
+        </Box>
+      )}
+
+      <MediaLightbox
+        items={items}
+        index={lightboxIndex}
+        onClose={() => setLightboxIndex(-1)}
+        onJump={openInConversation}
+        jumpLabel="Open in conversation"
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Heading,
+  IconButton,
+  Icon,
+  Badge,
+  Progress,
+  Spinner,
+  Avatar,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { FiArrowLeft, FiSearch } from 'react-icons/fi';
+import { useAppContext } from '../context/AppContext';
+import { useArchiveSearch } from '../hooks/useArchiveSearch';
+import { getAvatarColor } from '../utils/avatarColors';
+import type { SearchHit } from '../types/search';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface ThreadResultGroup {
+  threadId: string;
+  threadTitle: string;
+  hits: SearchHit[];
+}
+
+export const SearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { archiveSource } = useAppContext();
+  const { status, progress, messageCount, results, isSearching, search } =
+    useArchiveSearch(archiveSource);
+  const [query, setQuery] = useState('');
+
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  useEffect(() => {
+    if (!archiveSource) {
+      navigate('/');
+    }
+  }, [archiveSource, navigate]);
+
+  // Re-run the query when the index finishes so early results are not left incomplete
+  useEffect(() => {
+    const timeout = setTimeout(() => search(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, search, status]);
+
+  // Group hits by conversation, keeping the relevance order of each thread's best hit
+  const groupedResults = useMemo(() => {
+    const groups = new Map<string, ThreadResultGroup>();
+    results.forEach((hit) => {
+      const group = groups.get(hit.threadId);
+      if (group) {
+        group.hits.push(hit);
+      } else {
+        groups.set(hit.threadId, {
+          threadId: hit.threadId,
+          threadTitle: hit.threadTitle,
+          hits: [hit],
+        });
+      }
+    });
+    return Array.from(groups.values());
+  }, [results]);
+
+  const highlightSnippet = (snippet: string) => {
+    const terms = query.trim().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return snippet;
+
+    const pattern = new RegExp(
+      `(${terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+      'gi',
+    );
+    return snippet.split(pattern).map((part, i) =>
+      terms.some((t) => t.toLowerCase() === part.toLowerCase()) ? (
+        <Text as="mark" key={i} bg="yellow.200" px="1px">
+          {part}
+        </Text>
+      ) : (
+        part
+      ),
+    );
+  };
+
+  const handleHitClick = (hit: SearchHit) => {
+    navigate(
+      `/conversation/${encodeURIComponent(hit.threadId)}?at=${hit.timestamp_ms}&message=${hit.messageIndex}`,
+    );
+  };
+
+  const indexPercent =
+    progress.total > 0 ? Math.round((progress.indexed / progress.total) * 100) : 0;
+
+  return (
+    <Box h="100vh" bg="gray.50" w="full" overflowY="auto">
+      {/* Header */}
+      <Box
+        bg="white"
+        borderBottomWidth="1px"
+        borderColor={borderColor}
+        px={{ base: 2, md: 4 }}
+        py={4}
+        position="sticky"
+        top={0}
+        zIndex={10}
+        boxShadow="sm"
+      >
+        <Box maxW="1200px" mx="auto" w="full">
+          <VStack spacing={4} align="stretch">
+            <HStack>
+              <IconButton
+                aria-label="Back to conversations"
+                icon={<FiArrowLeft />}
+                onClick={() => navigate('/')}
+                variant="ghost"
+                size="lg"
+              />
+              <Heading size="md" color="gray.800">
+                Search All Messages
+              </Heading>
+            </HStack>
+            <InputGroup>
+              <InputLeftElement pointerEvents="none">
+                <Icon as={FiSearch} color="gray.400" />
+              </InputLeftElement>
+              <Input
+                placeholder="Search every conversation..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                bg="gray.50"
+                border="none"
+                _focus={{ bg: 'white', boxShadow: 'outline' }}
+                borderRadius="full"
+                autoFocus
+              />
+            </InputGroup>
+            {status === 'building' && (
+              <Box>
+                <Progress value={indexPercent} size="sm" colorScheme="blue" borderRadius="full" />
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  Indexing conversations… {progress.indexed} of {progress.total}
+                </Text>
+              </Box>
+            )}
+            {status === 'ready' && (
+              <Text fontSize="xs" color="gray.500">
+                {messageCount.toLocaleString()} messages indexed
+              </Text>
+            )}
+            {status === 'error' && (
+              <Text fontSize="xs" color="red.500">
+                Failed to build the search index
+              </Text>
+            )}
+          </VStack>
+        </Box>
+      </Box>
+
+      {/* Results */}
+      <Box maxW="1200px" mx="auto" px={{ base: 2, md: 4 }} py={6} w="full">
+        {isSearching && results.length === 0 ? (
+          <HStack justify="center" py={8}>
+            <Spinner color="blue.500" />
+          </HStack>
+        ) : query.trim() && groupedResults.length === 0 ? (
+          <Box p={12} bg="white" textAlign="center" borderRadius="lg">
+            <Text color="gray.500" fontSize="lg">
+              No messages match your search
+            </Text>
+          </Box>
+        ) : (
+          <VStack spacing={4} align="stretch">
+            {groupedResults.map((group) => (
+              <Box
+                key={group.threadId}
+                bg="white"
+                borderRadius="lg"
+                boxShadow="sm"
+                overflow="hidden"
+              >
+                <HStack px={4} py={3} borderBottomWidth="1px" borderColor={borderColor}>
+                  <Text fontWeight="600" color="gray.900" isTruncated flex={1}>
+                    {group.threadTitle}
+                  </Text>
+                  <Badge colorScheme="blue" borderRadius="full">
+                    {group.hits.length}
+                  </Badge>
+                </HStack>
+                {group.hits.map((hit, index) => (
+                  <HStack
+                    key={`${hit.timestamp_ms}_${index}`}
+                    px={4}
+                    py={3}
+                    spacing={3}
+                    align="flex-start"
+                    cursor="pointer"
+                    transition="all 0.15s ease"
+                    _hover={{ bg: 'blue.50' }}
+                    borderBottomWidth={index < group.hits.length - 1 ? '1px' : '0'}
+                    borderColor={borderColor}
+                    onClick={() => handleHitClick(hit)}
+                  >
+                    <Avatar
+                      name={hit.sender_name}
+                      size="sm"
+                      bg={getAvatarColor(hit.sender_name)}
+                      color="white"
+                    />
+                    <Box flex={1} minW={0}>
+                      <HStack justify="space-between" fontSize="xs" color="gray.500">
+                        <Text fontWeight="medium">{hit.sender_name}</Text>
+                        <Text>{new Date(hit.timestamp_ms).toLocaleString()}</Text>
+                      </HStack>
+                      <Text fontSize="sm" color="gray.800" noOfLines={3}>
+                        {highlightSnippet(hit.snippet)}
+                      </Text>
+                    </Box>
+                  </HStack>
+                ))}
+              </Box>
+            ))}
+          </VStack>
+        )}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChakraProvider } from '@chakra-ui/react';
+import { AppProvider } from '../context/AppContext';
+import { MessageBubble } from '../components/MessageBubble';
+import { MessageSchema, type Message } from '../types/messenger';
+
+const renderBubble = (message: Message, onReplyClick?: () => void) =>
+  render(
+    <ChakraProvider>
+      <AppProvider>
+        <MessageBubble message={message} onReplyClick={onReplyClick} />
+      </AppProvider>
+    </ChakraProvider>,
+  );
+
+describe('MessageBubble', () => {
+  it('should keep export fields the viewer used to drop', () => {
+    const message = MessageSchema.parse({
+      sender_name: 'Anna',
+      timestamp_ms: 1,
+      content: 'Look',
+      share: { link: 'https://www.example.com/post', share_text: 'A post' },
+      is_geoblocked_for_viewer: false,
+      ip: '192.0.2.1',
+      bumped_message_metadata: { bumped_message: 'Look', is_bumped: false },
+      reactions: [{ reaction: '❤', actor: 'Bob', timestamp: 2 }],
+    });
+
+    expect(message.is_geoblocked_for_viewer).toBe(false);
+    expect(message.ip).toBe('192.0.2.1');
+    expect(message.bumped_message_metadata).toEqual({ bumped_message: 'Look', is_bumped: false });
+    expect(message.reactions?.[0].timestamp).toBe(2);
+  });
+
+  it('should render link previews, replies and edits', () => {
+    const onReplyClick = vi.fn();
+    renderBubble(
+      {
+        sender_name: 'Anna',
+        timestamp_ms: 2_000,
+        content: 'Agreed',
+        share: { link: 'https://www.example.com/post', share_text: 'A post' },
+        reply_to: { message_id: '1', sender_name: 'Bob', content: 'Shall we go?' },
+        edited_timestamp_ms: 3_000,
+      },
+      onReplyClick,
+    );
+
+    expect(screen.getByText('example.com').closest('a')).toHaveAttribute(
+      'href',
+      'https://www.example.com/post',
+    );
+    expect(screen.getByText('A post')).toBeInTheDocument();
+    expect(screen.getByText('edited')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Shall we go?'));
+    expect(onReplyClick).toHaveBeenCalledWith({
+      message_id: '1',
+      sender_name: 'Bob',
+      content: 'Shall we go?',
+    });
+  });
+
+  it('should render shared Instagram stories like links', () => {
+    renderBubble({
+      sender_name: 'anna',
+      timestamp_ms: 1,
+      story_share: { link: 'https://www.instagram.com/stories/natgeo/123/', share_text: 'Wiśnie' },
+    });
+
+    expect(screen.getByText('instagram.com').closest('a')).toHaveAttribute(
+      'href',
+      'https://www.instagram.com/stories/natgeo/123/',
+    );
+    expect(screen.getByText('Wiśnie')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getDailyCounts, getHeatLevel, getPunchCard } from '../utils/activityHeatmap';
+import type { Message } from '../types/messenger';
+
+const message = (sender_name: string, timestamp: Date, extra: Partial<Message> = {}) =>
+  ({ sender_name, timestamp_ms: timestamp.getTime(), ...extra }) as Message;
+
+// Monday 1 May 2023 and Tuesday 2 May, local time
+const messages = [
+  message('Anna', new Date(2023, 4, 1, 9, 15)),
+  message('Bob', new Date(2023, 4, 1, 9, 40)),
+  message('Anna', new Date(2023, 4, 2, 22, 5)),
+  message('Anna', new Date(2023, 4, 2, 22, 6), {
+    system_event: { kind: 'group_photo_changed', actor: 'Anna' },
+  }),
+];
+
+describe('Activity heatmap', () => {
+  it('should count messages per local day, optionally for one participant', () => {
+    expect(getDailyCounts(messages)).toEqual([
+      { date: '2023-05-01', count: 2 },
+      { date: '2023-05-02', count: 1 },
+    ]);
+    expect(getDailyCounts(messages, 'Bob')).toEqual([{ date: '2023-05-01', count: 1 }]);
+  });
+
+  it('should count messages per weekday and hour', () => {
+    const grid = getPunchCard(messages);
+    expect(grid).toHaveLength(7);
+    expect(grid[1][9]).toBe(2);
+    expect(grid[2][22]).toBe(1);
+    expect(grid.flat().reduce((sum, count) => sum + count, 0)).toBe(3);
+  });
+
+  it('should shade counts relative to the busiest cell', () => {
+    expect(getHeatLevel(0, 10)).toBe(0);
+    expect(getHeatLevel(1, 1000)).toBe(1);
+    expect(getHeatLevel(10, 10)).toBe(4);
+  });
+});
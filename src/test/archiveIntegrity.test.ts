@@ -0,0 +1,165 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  checkThreadIntegrity,
+  getUnreadableThreadIntegrity,
+  toIntegrityCsv,
+} from '../utils/archiveIntegrity';
+import { openArchive } from '../utils/archiveSource';
+import { getThreadDirectory } from '../utils/threadDiscovery';
+import { openFileList } from '../utils/virtualDirectory';
+import { parseThreadDirectory } from '../workers/threadParser';
+import type { ArchiveSource } from '../types/archive';
+import type { ParsedThread } from '../types/messenger';
+
+const file = (content: string, name = 'file') => new File([content], name);
+
+const thread = {
+  threadId: 'inbox/anna_1',
+  participants: [{ name: 'Anna' }, { name: 'Bob' }],
+  messages: [
+    {
+      sender_name: 'Anna',
+      timestamp_ms: 1,
+      photos: [{ uri: 'inbox/anna_1/photos/1.jpg' }, { uri: 'inbox/anna_1/photos/2.jpg' }],
+    },
+    {
+      sender_name: 'Bob',
+      timestamp_ms: 2,
+      photos: [{ uri: 'inbox/anna_1/photos/1.jpg' }],
+      share: { link: 'https://example.com/photo.jpg' },
+      sticker: { uri: 'stickers_used/like.png' },
+    },
+  ],
+} as ParsedThread;
+
+const checkThread = async (source: ArchiveSource, threadId: string) => {
+  const root = await openArchive(source);
+  const handle = await getThreadDirectory(root, threadId);
+  return checkThreadIntegrity(root, handle, await parseThreadDirectory(handle, threadId));
+};
+
+const telegramChat = (name: string, id: number, photo: string) => ({
+  name,
+  type: 'personal_chat',
+  id,
+  messages: [{ id, type: 'message', date_unixtime: '1682935200', from: name, photo, text: '' }],
+});
+
+describe('Archive integrity', () => {
+  it('should find missing and orphaned media and invalid message files', async () => {
+    const root = openFileList([
+      { path: 'inbox/anna_1/message_1.json', file: file(JSON.stringify(thread)) },
+      { path: 'inbox/anna_1/message_2.json', file: file('{"participants": [], "messages": [{}]}') },
+      { path: 'inbox/anna_1/message_3.json', file: file('{"messages": [') },
+      { path: 'inbox/anna_1/photos/1.jpg', file: file('1') },
+      { path: 'inbox/anna_1/photos/3.jpg', file: file('3') },
+      { path: 'stickers_used/like.png', file: file('like') },
+    ]);
+    const threadHandle = await (
+      await root.getDirectoryHandle('inbox')
+    ).getDirectoryHandle('anna_1');
+
+    // Invalid files are found while the thread is parsed
+    const parsed = await parseThreadDirectory(threadHandle, 'inbox/anna_1');
+    const report = await checkThreadIntegrity(root, threadHandle, parsed);
+    expect(report).toMatchObject({
+      threadId: 'inbox/anna_1',
+      title: 'Anna, Bob',
+      attachmentCount: 3,
+      missing: ['inbox/anna_1/photos/2.jpg'],
+      orphaned: ['inbox/anna_1/photos/3.jpg'],
+    });
+    expect(report.invalidFiles.map(({ fileName }) => fileName)).toEqual([
+      'message_2.json',
+      'message_3.json',
+    ]);
+    expect(report.invalidFiles[0].error).toMatch(/^messages\.0\.sender_name: /);
+  });
+
+  it("should only count a Telegram chat's own media", async () => {
+    // Every chat folder shows the whole export, the media of both chats included
+    const source: ArchiveSource = {
+      kind: 'files',
+      name: 'DataExport_2023-05-02',
+      entries: [
+        {
+          path: 'DataExport_2023-05-02/result.json',
+          file: file(
+            JSON.stringify({
+              chats: {
+                list: [
+                  telegramChat('Anna', 123, 'chats/chat_001/photos/1.jpg'),
+                  telegramChat('Bob', 456, 'chats/chat_002/photos/2.jpg'),
+                ],
+              },
+            }),
+          ),
+        },
+        { path: 'DataExport_2023-05-02/chats/chat_001/photos/1.jpg', file: file('1') },
+        { path: 'DataExport_2023-05-02/chats/chat_002/photos/2.jpg', file: file('2') },
+        { path: 'DataExport_2023-05-02/chats/chat_002/photos/3.jpg', file: file('3') },
+      ],
+    };
+
+    expect(await checkThread(source, 'inbox/anna_123')).toMatchObject({
+      attachmentCount: 1,
+      missing: [],
+      orphaned: [],
+    });
+    expect(await checkThread(source, 'inbox/bob_456')).toMatchObject({
+      attachmentCount: 1,
+      missing: [],
+      orphaned: ['inbox/bob_456/chats/chat_002/photos/3.jpg'],
+    });
+  });
+
+  it('should look for WhatsApp media next to the chat file', async () => {
+    const report = await checkThread(
+      {
+        kind: 'files',
+        name: 'WhatsApp Chat - Anna',
+        entries: [
+          {
+            path: 'WhatsApp Chat - Anna/_chat.txt',
+            file: file('[13/01/2021, 09:16:10] Anna: <attached: IMG-1.jpg>', '_chat.txt'),
+          },
+          { path: 'WhatsApp Chat - Anna/IMG-1.jpg', file: file('1') },
+          { path: 'WhatsApp Chat - Anna/IMG-2.jpg', file: file('2') },
+        ],
+      },
+      'inbox/Anna',
+    );
+    expect(report).toMatchObject({
+      attachmentCount: 1,
+      missing: [],
+      orphaned: ['inbox/Anna/IMG-2.jpg'],
+    });
+  });
+
+  it('should write one CSV row per problem', () => {
+    const csv = toIntegrityCsv([
+      {
+        threadId: 'inbox/anna_1',
+        title: 'Anna, "Bobby"',
+        attachmentCount: 2,
+        missing: ['inbox/anna_1/photos/2.jpg'],
+        orphaned: [],
+        invalidFiles: [{ fileName: 'message_2.json', error: 'messages, 0: Required' }],
+      },
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'thread_id,title,problem,path,detail',
+      'inbox/anna_1,"Anna, ""Bobby""",missing_media,inbox/anna_1/photos/2.jpg,',
+      'inbox/anna_1,"Anna, ""Bobby""",invalid_json,inbox/anna_1/message_2.json,"messages, 0: Required"',
+      '',
+    ]);
+  });
+
+  it('should list threads that could not be read', () => {
+    const unreadable = getUnreadableThreadIntegrity('inbox/anna_1', 'NotFoundError');
+    expect(toIntegrityCsv([unreadable]).split('\r\n')[1]).toBe(
+      'inbox/anna_1,anna_1,unreadable_thread,inbox/anna_1,NotFoundError',
+    );
+  });
+});
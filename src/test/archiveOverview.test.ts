@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildArchiveOverview, summarizeThread } from '../utils/archiveOverview';
+import type { Message, ParsedThread } from '../types/messenger';
+
+const at = (year: number, month: number) => new Date(year, month - 1, 15).getTime();
+
+const thread = (
+  threadId: string,
+  timestamps: number[],
+  extra: Partial<ParsedThread> = {},
+): ParsedThread => ({
+  threadId,
+  participants: [{ name: 'Me' }, { name: threadId.split('/')[1] }],
+  messages: timestamps.map((timestamp_ms) => ({ sender_name: 'Me', timestamp_ms }) as Message),
+  ...extra,
+});
+
+describe('Archive overview', () => {
+  it('should summarize a thread by month', () => {
+    const summary = summarizeThread(
+      thread('archived_threads/anna_1', [at(2021, 1), at(2021, 1), at(2021, 3)], {
+        threadType: 'Regular',
+        title: 'Anna',
+      }),
+    );
+    expect(summary).toMatchObject({
+      threadId: 'archived_threads/anna_1',
+      title: 'Anna',
+      folder: 'archived_threads',
+      isGroup: false,
+      messageCount: 3,
+      firstMessageTime: at(2021, 1),
+      lastMessageTime: at(2021, 3),
+      monthlyCounts: { '2021-01': 2, '2021-03': 1 },
+    });
+    expect(
+      summarizeThread(thread('inbox/crew_2', [], { threadType: 'RegularGroup' })).isGroup,
+    ).toBe(true);
+  });
+
+  it('should aggregate volume, rankings and relationships across threads', () => {
+    const overview = buildArchiveOverview(
+      [
+        thread('inbox/anna_1', [at(2020, 11), at(2021, 1), at(2021, 1), at(2023, 6)]),
+        thread('inbox/bob_2', [at(2021, 1)]),
+        thread('inbox/crew_3', [at(2021, 2)], { threadType: 'RegularGroup' }),
+        thread('message_requests/spam_4', []),
+      ].map(summarizeThread),
+    );
+
+    expect(overview).toMatchObject({
+      totalMessages: 6,
+      threadCount: 4,
+      directCount: 3,
+      groupCount: 1,
+    });
+    expect(overview.topContacts.map((c) => c.threadId)).toEqual(['inbox/anna_1', 'inbox/bob_2']);
+    // Silent months are filled in
+    expect(overview.months).toHaveLength(32);
+    expect(overview.months[2]).toEqual({
+      month: '2021-01',
+      contacts: [2, 1],
+      otherContacts: 0,
+      groups: 0,
+    });
+    expect(overview.months[3].groups).toBe(1);
+    expect(overview.rankings.find((r) => r.year === 2021)?.contacts.map((c) => c.count)).toEqual([
+      2, 1,
+    ]);
+    // Bob went quiet more than a year before the archive's last message
+    expect(overview.relationships).toEqual([
+      { year: 2020, started: 1, dormant: 0 },
+      { year: 2021, started: 1, dormant: 1 },
+    ]);
+    expect(overview.byFolder).toEqual([
+      { label: 'inbox', count: 3 },
+      { label: 'message_requests', count: 1 },
+    ]);
+  });
+});
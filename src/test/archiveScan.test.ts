@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { scanArchive } from '../workers/archiveScan';
+import type { ArchiveScanMessage } from '../types/archiveScan';
+import type { ArchiveSource } from '../types/archive';
+
+const threadFile = (folder: string, json: string) => ({
+  path: `messages/inbox/${folder}/message_1.json`,
+  file: new File([json], 'message_1.json'),
+});
+
+const thread = (messageCount: number) =>
+  JSON.stringify({
+    participants: [{ name: 'Anna' }, { name: 'Me' }],
+    messages: Array.from({ length: messageCount }, (_, i) => ({
+      sender_name: 'Anna',
+      timestamp_ms: i + 1,
+      content: 'Hi',
+    })),
+  });
+
+const source: ArchiveSource = {
+  kind: 'files',
+  name: 'messages',
+  entries: [
+    threadFile('anna_1', thread(2)),
+    threadFile('bob_2', thread(0)),
+    threadFile('carl_3', thread(1)),
+  ],
+};
+
+describe('Archive scans', () => {
+  it('should derive one result per thread and report progress', async () => {
+    const messages: ArchiveScanMessage<{ threadId: string; count: number }>[] = [];
+    await scanArchive(
+      source,
+      {
+        name: 'TEST',
+        derive: (parsed) => {
+          if (parsed.threadId === 'inbox/carl_3') throw new Error('Unreadable');
+          return { threadId: parsed.threadId, count: parsed.messages.length };
+        },
+        isEmpty: ({ count }) => count === 0,
+      },
+      (message) => messages.push(message),
+    );
+
+    expect(messages.filter(({ type }) => type === 'SCAN_PROGRESS').map((m) => m.scanned)).toEqual([
+      0, 1, 2, 3,
+    ]);
+    // Threads that fail are skipped, empty results are left out
+    expect(messages.at(-1)).toEqual({
+      type: 'SCAN_READY',
+      results: [{ threadId: 'inbox/anna_1', count: 2 }],
+      parsed: 3,
+    });
+  });
+});
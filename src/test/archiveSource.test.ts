@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { openArchive } from '../utils/archiveSource';
+import { getSelectedFilesSource } from '../utils/fileSelection';
+import { listThreadDirectories } from '../utils/threadDiscovery';
+
+const file = (name: string, content = '{}') => new File([content], name);
+
+describe('Archive sources', () => {
+  it('should open loose files from a folder upload', async () => {
+    const source = {
+      kind: 'files' as const,
+      name: 'export',
+      entries: [
+        { path: 'export/messages/inbox/anna_1/message_1.json', file: file('message_1.json') },
+        {
+          path: 'export/messages/archived_threads/bob_2/message_1.json',
+          file: file('message_1.json'),
+        },
+        {
+          path: 'export/messages/autofill_information.json',
+          file: file('autofill_information.json'),
+        },
+      ],
+    };
+
+    const messagesRoot = await openArchive(source);
+    expect(messagesRoot.name).toBe('messages');
+
+    const threads = await listThreadDirectories(messagesRoot);
+    expect(threads.map((thread) => thread.threadId).sort()).toEqual([
+      'archived_threads/bob_2',
+      'inbox/anna_1',
+    ]);
+    const autofill = await messagesRoot.getFileHandle('autofill_information.json');
+    expect((await autofill.getFile()).name).toBe('autofill_information.json');
+  });
+
+  it('should reject folders without conversations', async () => {
+    await expect(
+      openArchive({
+        kind: 'files',
+        name: 'photos',
+        entries: [{ path: 'photos/1.jpg', file: file('1.jpg') }],
+      }),
+    ).rejects.toThrow('"messages" folder');
+  });
+
+  it('should treat selected ZIP files as a ZIP source in part order', () => {
+    const source = getSelectedFilesSource([file('export-10.zip'), file('export-2.zip')]);
+    expect(source?.kind).toBe('zip');
+    expect(source?.kind === 'zip' && source.files.map((f) => f.name)).toEqual([
+      'export-2.zip',
+      'export-10.zip',
+    ]);
+    expect(getSelectedFilesSource([])).toBeNull();
+  });
+});
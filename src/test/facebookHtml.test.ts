@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { parseFacebookHtml } from '../utils/facebookHtml';
+import { openArchive } from '../utils/archiveSource';
+import { getThreadDirectory } from '../utils/threadDiscovery';
+import { parseThreadDirectory } from '../workers/threadParser';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+
+describe('Facebook HTML exports', () => {
+  it('should read the older layout', () => {
+    const page = parseFacebookHtml(fixture('message_legacy.html'));
+
+    expect(page.layout).toBe('legacy');
+    expect(page.title).toBe('Anna Kowalska');
+    expect(page.participants.map((p) => p.name)).toEqual(['Anna Kowalska', 'Jan Nowak']);
+    expect(page.messages).toEqual([
+      {
+        sender_name: 'Jan Nowak',
+        timestamp_ms: new Date(2021, 0, 13, 21, 16).getTime(),
+        content: "See you at 5 & don't be late\nBring the map",
+      },
+      {
+        sender_name: 'Anna Kowalska',
+        timestamp_ms: new Date(2021, 0, 13, 9, 10).getTime(),
+        photos: [{ uri: 'messages/inbox/annakowalska_a1b2c3/photos/1234_5678_n.jpg' }],
+        reactions: [{ reaction: '❤', actor: 'Jan Nowak' }],
+      },
+      {
+        sender_name: 'Anna Kowalska',
+        timestamp_ms: new Date(2021, 0, 12, 23, 58).getTime(),
+        content: 'Hi!',
+      },
+    ]);
+  });
+
+  it('should read the newer layout', () => {
+    const page = parseFacebookHtml(fixture('message_current.html'));
+
+    expect(page.layout).toBe('current');
+    expect(page.skippedBlocks).toBe(1); // The participants header
+    expect(page.participants.map((p) => p.name)).toEqual([
+      'Anna Kowalska',
+      'Jan Nowak',
+      'Ola Wiśniewska',
+    ]);
+
+    const renamed = parseFacebookHtml(
+      fixture('message_current.html').replace('Anna Kowalska, Jan', 'Tom and Jerry, Jan'),
+    );
+    expect(renamed.participants.map((p) => p.name)).toEqual([
+      'Tom and Jerry',
+      'Jan Nowak',
+      'Ola Wiśniewska',
+    ]);
+
+    const [link, video, sticker] = page.messages;
+    expect(link).toEqual({
+      sender_name: 'Ola Wiśniewska',
+      timestamp_ms: new Date(2023, 2, 2, 18, 45, 30).getTime(),
+      content: 'https://example.com/topo',
+      share: { link: 'https://example.com/topo' },
+      reactions: [
+        { reaction: '😆', actor: 'Anna Kowalska' },
+        { reaction: '👍', actor: 'Jan Nowak' },
+      ],
+    });
+    expect(video.videos).toEqual([
+      { uri: 'your_facebook_activity/messages/inbox/climbingcrew_9876/videos/clip_1.mp4' },
+    ]);
+    expect(video.files).toBeUndefined();
+    expect(sticker.sticker).toEqual({
+      uri: 'your_facebook_activity/messages/stickers_used/369239263222822.png',
+    });
+    expect(sticker.timestamp_ms).toBe(new Date(2023, 2, 1, 0, 5).getTime());
+  });
+
+  it('should parse HTML threads like JSON ones', async () => {
+    const root = await openArchive({
+      kind: 'files',
+      name: 'facebook-anna',
+      entries: [
+        {
+          path: 'facebook-anna/your_facebook_activity/messages/inbox/climbingcrew_9876/message_1.html',
+          file: new File([fixture('message_current.html')], 'message_1.html'),
+        },
+      ],
+    });
+
+    const thread = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/climbingcrew_9876'),
+      'inbox/climbingcrew_9876',
+    );
+    expect(thread.title).toBe('Climbing Crew');
+    expect(thread.platform).toBe('messenger');
+    expect(thread.messages.map((m) => m.sender_name)).toEqual([
+      'Anna Kowalska',
+      'Jan Nowak',
+      'Ola Wiśniewska',
+    ]);
+    expect(thread.messages[1].videos).toEqual([
+      { uri: 'inbox/climbingcrew_9876/videos/clip_1.mp4' },
+    ]);
+  });
+});
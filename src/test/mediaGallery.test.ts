@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectArchiveMedia,
+  collectThreadMedia,
+  filterMedia,
+  groupMediaByMonth,
+} from '../utils/mediaGallery';
+import type { Message, ParsedThread } from '../types/messenger';
+
+const message = (sender_name: string, timestamp: Date, extra: Partial<Message> = {}) =>
+  ({ sender_name, timestamp_ms: timestamp.getTime(), ...extra }) as Message;
+
+const messages = [
+  message('Anna', new Date(2023, 4, 1), {
+    photos: [{ uri: 'inbox/chat/photos/1.jpg' }, { uri: 'inbox/chat/photos/2.jpg' }],
+  }),
+  message('Bob', new Date(2023, 4, 2), { content: 'no attachments' }),
+  message('Bob', new Date(2023, 5, 10), {
+    videos: [{ uri: 'inbox/chat/videos/1.mp4' }],
+    sticker: { uri: 'stickers_used/1.png' },
+  }),
+  message('Anna', new Date(2023, 6, 1), {
+    audio_files: [{ uri: 'inbox/chat/audio/1.mp4' }],
+    files: [{ uri: 'inbox/chat/files/notes.pdf' }],
+    gifs: [{ uri: 'inbox/chat/gifs/1.gif' }],
+  }),
+];
+
+describe('Media gallery', () => {
+  it('should list every attachment with the message it came from', () => {
+    const media = collectThreadMedia(messages);
+    expect(media.map(({ kind, messageIndex }) => [kind, messageIndex])).toEqual([
+      ['photo', 0],
+      ['photo', 0],
+      ['video', 2],
+      ['sticker', 2],
+      ['gif', 3],
+      ['audio', 3],
+      ['file', 3],
+    ]);
+    expect(media[2]).toEqual({
+      uri: 'inbox/chat/videos/1.mp4',
+      kind: 'video',
+      messageIndex: 2,
+      sender_name: 'Bob',
+      timestamp_ms: new Date(2023, 5, 10).getTime(),
+    });
+  });
+
+  it('should filter by type, sender and date range', () => {
+    const media = collectThreadMedia(messages);
+    expect(filterMedia(media, { kind: 'photo' })).toHaveLength(2);
+    expect(filterMedia(media, { sender: 'Bob' }).map(({ kind }) => kind)).toEqual([
+      'video',
+      'sticker',
+    ]);
+    expect(
+      filterMedia(media, {
+        from: new Date(2023, 5, 1).getTime(),
+        to: new Date(2023, 6, 1).getTime(),
+      }),
+    ).toHaveLength(2);
+    expect(filterMedia(media, {})).toHaveLength(7);
+  });
+
+  it('should list photos and videos of the archive by month, newest first', () => {
+    const thread = {
+      threadId: 'inbox/anna_1',
+      participants: [{ name: 'Anna' }, { name: 'Bob' }],
+      messages: [
+        ...messages,
+        message('Bob', new Date(2023, 6, 5), {
+          // Taken in April, sent in July
+          photos: [{ uri: 'inbox/anna_1/photos/3.jpg', creation_timestamp: 1681041600 }],
+        }),
+      ],
+    } as ParsedThread;
+
+    const media = collectArchiveMedia(thread);
+    expect(media.title).toBe('Anna, Bob');
+    expect(media.items.map(({ kind }) => kind)).toEqual(['photo', 'photo', 'video', 'photo']);
+    expect(media.items[3].timestamp_ms).toBe(1681041600 * 1000);
+    expect(media.items[3].message_timestamp_ms).toBe(new Date(2023, 6, 5).getTime());
+
+    const months = groupMediaByMonth(media.items);
+    expect(months.map(({ month }) => month)).toEqual(['2023-06', '2023-05', '2023-04']);
+    expect(months[1].items).toHaveLength(2);
+  });
+});
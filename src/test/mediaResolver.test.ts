@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { acquireMedia, getMediaPath, MediaError, resolveMediaFile } from '../utils/mediaResolver';
+import { openFileList } from '../utils/virtualDirectory';
+import type { ArchiveDirectoryHandle } from '../types/archive';
+
+const photos = [new File(['1'], '1.jpg'), new File(['2'], '2.jpg')];
+
+const openArchive = () => {
+  const root = openFileList([
+    { path: 'inbox/anna_1/photos/1.jpg', file: photos[0] },
+    { path: 'inbox/anna_1/photos/2.jpg', file: photos[1] },
+  ]);
+  vi.spyOn(root, 'getDirectoryHandle');
+  return root;
+};
+
+describe('Media resolver', () => {
+  beforeEach(() => {
+    let nextUrl = 0;
+    URL.createObjectURL = vi.fn(() => `blob:test/${++nextUrl}`);
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('should skip a leftover export prefix', () => {
+    expect(getMediaPath('your_facebook_activity/messages/inbox/anna_1/photos/1.jpg')).toEqual({
+      folders: ['inbox', 'anna_1', 'photos'],
+      fileName: '1.jpg',
+    });
+    expect(getMediaPath('your_instagram_activity/messages/inbox/anna_1/photos/1.jpg')).toEqual({
+      folders: ['inbox', 'anna_1', 'photos'],
+      fileName: '1.jpg',
+    });
+    expect(getMediaPath('./inbox//1.jpg')).toEqual({ folders: ['inbox'], fileName: '1.jpg' });
+  });
+
+  it('should walk each folder once', async () => {
+    const root = openArchive();
+    expect(await resolveMediaFile(root, 'inbox/anna_1/photos/1.jpg')).toBe(photos[0]);
+    expect(await resolveMediaFile(root, 'messages/inbox/anna_1/photos/2.jpg')).toBe(photos[1]);
+    expect(root.getDirectoryHandle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell missing files from files it may not read', async () => {
+    const root = openArchive();
+    await expect(resolveMediaFile(root, 'inbox/anna_1/photos/3.jpg')).rejects.toMatchObject({
+      kind: 'not-found',
+    });
+
+    const locked = {
+      ...root,
+      getFileHandle: () => Promise.reject(new DOMException('Denied', 'NotAllowedError')),
+    } as ArchiveDirectoryHandle;
+    const error = await resolveMediaFile(locked, 'cover.jpg').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MediaError);
+    expect(error).toMatchObject({ kind: 'permission-denied', uri: 'cover.jpg' });
+  });
+
+  it('should share an object URL and revoke it after the last release', async () => {
+    const root = openArchive();
+    const bubble = acquireMedia(root, 'inbox/anna_1/photos/1.jpg');
+    const gallery = acquireMedia(root, 'inbox/anna_1/photos/1.jpg');
+    expect(await bubble.media).toEqual({ url: 'blob:test/1', isThumbnail: false });
+    expect((await gallery.media).url).toBe('blob:test/1');
+
+    bubble.release();
+    bubble.release();
+    await Promise.resolve();
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    gallery.release();
+    await Promise.resolve();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:test/1');
+
+    expect((await acquireMedia(root, 'inbox/anna_1/photos/1.jpg').media).url).toBe('blob:test/2');
+  });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { openArchive } from '../utils/archiveSource';
+import { listThreadDirectories, getThreadDirectory } from '../utils/threadDiscovery';
+import { parseThreadDirectory } from '../workers/threadParser';
+import type { ArchiveSource } from '../types/archive';
+
+const thread = (participants: string[], messages: object[]) =>
+  JSON.stringify({ participants: participants.map((name) => ({ name })), messages });
+
+const message = (timestamp_ms: number, sender_name: string, content: string) => ({
+  timestamp_ms,
+  sender_name,
+  content,
+});
+
+const exportOf = (name: string, threads: Record<string, string>): ArchiveSource => ({
+  kind: 'files',
+  name,
+  entries: Object.entries(threads).map(([folder, json]) => ({
+    path: `${name}/messages/inbox/${folder}/message_1.json`,
+    file: new File([json], 'message_1.json'),
+  })),
+});
+
+describe('Merged exports', () => {
+  const older = exportOf('export-2022', {
+    anna_1: thread(['Anna', 'Me'], [message(1, 'Anna', 'Hi'), message(2, 'Me', 'Hello')]),
+    bob_1: thread(['Bob', 'Me'], [message(5, 'Bob', 'Old')]),
+  });
+  const newer = exportOf('export-2024', {
+    anna_1: thread(['Anna', 'Me'], [message(2, 'Me', 'Hello'), message(3, 'Anna', 'New')]),
+    // Facebook renamed Bob's folder between the exports
+    bob_2: thread(['Me', 'Bob'], [message(5, 'Bob', 'Old'), message(6, 'Me', 'Newer')]),
+  });
+
+  it('should list one thread per conversation', async () => {
+    const root = await openArchive({ kind: 'merged', sources: [older, newer] });
+    const threads = await listThreadDirectories(root);
+    expect(threads.map((t) => t.threadId).sort()).toEqual(['inbox/anna_1', 'inbox/bob_1']);
+  });
+
+  it('should drop messages repeated across exports and tag their export', async () => {
+    const root = await openArchive({ kind: 'merged', sources: [older, newer] });
+
+    const anna = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/anna_1'),
+      'inbox/anna_1',
+    );
+    expect(anna.messages.map((m) => [m.content, m.source_export])).toEqual([
+      ['Hi', 'export-2022'],
+      ['Hello', 'export-2022'],
+      ['New', 'export-2024'],
+    ]);
+
+    const bob = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/bob_1'),
+      'inbox/bob_1',
+    );
+    expect(bob.messages.map((m) => m.content)).toEqual(['Old', 'Newer']);
+  });
+});
@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { openArchive } from '../utils/archiveSource';
+import { getSourcePlatform } from '../utils/platform';
+import { getThreadDirectory, listThreadDirectories } from '../utils/threadDiscovery';
+import { normalizeAssetUri, normalizeMessage, parseThreadDirectory } from '../workers/threadParser';
+import type { ArchiveSource } from '../types/archive';
+
+const instagramThread = JSON.stringify({
+  participants: [{ name: 'anna' }, { name: 'me' }],
+  messages: [
+    {
+      sender_name: 'anna',
+      timestamp_ms: 2,
+      share: { link: 'https://www.instagram.com/p/abc/', original_content_owner: 'natgeo' },
+      reactions: [{ reaction: 'â\u009d¤', actor: 'me', timestamp: 3 }],
+    },
+    {
+      sender_name: 'me',
+      timestamp_ms: 1,
+      photos: [{ uri: 'your_instagram_activity/messages/inbox/anna_1/photos/1.jpg' }],
+    },
+    {
+      sender_name: 'anna',
+      timestamp_ms: 3,
+      content: 'Haha',
+      story_share: {
+        link: 'https://www.instagram.com/stories/natgeo/123/',
+        share_text: 'Wi\u00c5\u009bnie',
+      },
+    },
+  ],
+});
+
+describe('Instagram exports', () => {
+  it('should strip the your_*_activity prefixes from media URIs', () => {
+    expect(normalizeAssetUri('your_instagram_activity/messages/inbox/anna_1/photos/1.jpg')).toBe(
+      'inbox/anna_1/photos/1.jpg',
+    );
+    expect(normalizeAssetUri('your_facebook_activity/messages/inbox/bob_2/gifs/1.gif')).toBe(
+      'inbox/bob_2/gifs/1.gif',
+    );
+    expect(normalizeAssetUri('messages/inbox/bob_2/photos/1.jpg')).toBe('inbox/bob_2/photos/1.jpg');
+  });
+
+  it('should fix mis-encoded file names in media URIs', () => {
+    const message = normalizeMessage({
+      sender_name: 'anna',
+      timestamp_ms: 1,
+      files: [{ uri: 'your_instagram_activity/messages/inbox/anna_1/files/\u00c5\u00bcaba.pdf' }],
+    });
+    expect(message.files?.[0].uri).toBe('inbox/anna_1/files/\u017caba.pdf');
+  });
+
+  it('should open an Instagram export and parse its fields', async () => {
+    const source: ArchiveSource = {
+      kind: 'files',
+      name: 'messages',
+      entries: [
+        {
+          path: 'messages/inbox/anna_1/message_1.json',
+          file: new File([instagramThread], 'message_1.json'),
+        },
+      ],
+    };
+    // The picked "messages" folder doesn't name the platform, the messages do
+    expect(getSourcePlatform(source)).toBeUndefined();
+
+    const root = await openArchive(source);
+    expect((await listThreadDirectories(root)).map((t) => t.threadId)).toEqual(['inbox/anna_1']);
+
+    const thread = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/anna_1'),
+      'inbox/anna_1',
+    );
+    expect(thread.platform).toBe('instagram');
+    expect(thread.messages[0].photos?.[0].uri).toBe('inbox/anna_1/photos/1.jpg');
+    expect(thread.messages[1].share?.original_content_owner).toBe('natgeo');
+    expect(thread.messages[1].reactions?.[0]).toEqual({
+      reaction: '❤',
+      actor: 'me',
+      timestamp: 3,
+    });
+    expect(thread.messages[2].story_share).toEqual({
+      link: 'https://www.instagram.com/stories/natgeo/123/',
+      share_text: 'Wiśnie',
+    });
+  });
+
+  it('should tell the platform from export names', () => {
+    expect(
+      getSourcePlatform({ kind: 'zip', files: [new File([], 'instagram-anna-2024-05-01.zip')] }),
+    ).toBe('instagram');
+    expect(getSourcePlatform({ kind: 'zip', files: [new File([], 'facebook-anna.zip')] })).toBe(
+      'messenger',
+    );
+  });
+});
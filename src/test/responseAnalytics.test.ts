@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { computeResponseAnalytics, percentile } from '../utils/responseAnalytics';
+import type { Message } from '../types/messenger';
+
+const MINUTE = 60 * 1000;
+const start = new Date(2022, 11, 31, 12).getTime();
+
+const message = (sender_name: string, minutes: number, extra: Partial<Message> = {}) =>
+  ({ sender_name, timestamp_ms: start + minutes * MINUTE, ...extra }) as Message;
+
+describe('Response analytics', () => {
+  it('should split sessions and measure replies and double texts', () => {
+    const analytics = computeResponseAnalytics(
+      [
+        message('Anna', 0),
+        message('Bob', 2), // Reply after 2 minutes
+        message('Bob', 3),
+        message('Anna', 13), // Reply after 10 minutes
+        message('Anna', 60), // Double text
+        message('Ola', 61, {
+          content: 'Ola joined the group.',
+          system_event: { kind: 'member_joined', actor: 'Ola' },
+        }),
+        message('Bob', 24 * 60), // New session, next year
+        message('Anna', 24 * 60 + 4),
+      ],
+      { sessionGapMs: 6 * 60 * MINUTE },
+    );
+
+    expect(analytics.sessions).toBe(2);
+    const [anna, bob] = analytics.participants;
+    expect(anna).toMatchObject({
+      name: 'Anna',
+      messages: 4,
+      sessionsStarted: 1,
+      replies: 2,
+      medianReplyMs: 7 * MINUTE,
+      doubleTexts: 1,
+      doubleTextRate: 1 / 3,
+    });
+    expect(bob).toMatchObject({ name: 'Bob', sessionsStarted: 1, replies: 1, doubleTexts: 0 });
+    expect(analytics.participants.map((p) => p.name)).not.toContain('Ola');
+
+    expect(analytics.years.map((y) => [y.year, y.sessions])).toEqual([
+      [2022, 1],
+      [2023, 1],
+    ]);
+    expect(analytics.years[1].participants[0]).toMatchObject({
+      name: 'Anna',
+      sessionsStarted: 0,
+      medianReplyMs: 4 * MINUTE,
+    });
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([], 0.5)).toBeUndefined();
+    expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(percentile([10, 20, 30, 40, 50], 0.9)).toBe(46);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, createSearchIndex, foldText } from '../utils/searchIndex';
+import type { Message } from '../types/messenger';
+
+const message = (sender_name: string, timestamp_ms: number, extra: Partial<Message> = {}) =>
+  ({ sender_name, timestamp_ms, ...extra }) as Message;
+
+const buildIndex = () => {
+  const index = createSearchIndex();
+  index.addThread('inbox/anna_1', 'Anna Kowalska', [
+    message('Anna', 1, { content: 'Widzimy się w Łodzi?' }),
+    message('Bob', 2, { content: 'Tak, w Łodzi o piątej' }),
+    message('Anna', 3, { content: 'Łódź', is_unsent: true }),
+    message('Anna', 4, { photos: [{ uri: 'inbox/anna_1/photos/1.jpg' }] }),
+  ]);
+  index.addThread('inbox/group_2', 'Trip', [message('Carl', 5, { content: 'Meet in Krakow' })]);
+  return index;
+};
+
+describe('Archive search index', () => {
+  it('should fold case and diacritics without moving characters', () => {
+    expect(foldText('Łódź ŻÓŁW')).toBe('lodz zolw');
+    expect(foldText('Łódź').length).toBe('Łódź'.length);
+  });
+
+  it('should index message text only', () => {
+    expect(buildIndex().messageCount).toBe(3);
+  });
+
+  it('should find messages without diacritics and tell which thread they are in', () => {
+    const hits = buildIndex().search('lodzi');
+    expect(hits.map(({ timestamp_ms }) => timestamp_ms).sort()).toEqual([1, 2]);
+    expect(hits[0]).toMatchObject({ threadId: 'inbox/anna_1', threadTitle: 'Anna Kowalska' });
+
+    const [trip] = buildIndex().search('krakow');
+    expect(trip).toEqual({
+      threadId: 'inbox/group_2',
+      threadTitle: 'Trip',
+      sender_name: 'Carl',
+      timestamp_ms: 5,
+      messageIndex: 0,
+      snippet: 'Meet in Krakow',
+    });
+  });
+
+  it('should tell apart messages sent in the same millisecond', () => {
+    const index = createSearchIndex();
+    index.addThread('inbox/anna_1', 'Anna Kowalska', [
+      message('Anna', 7, { content: 'First' }),
+      message('Anna', 7, { photos: [{ uri: 'inbox/anna_1/photos/1.jpg' }] }),
+      message('Anna', 7, { content: 'Second' }),
+    ]);
+    expect(index.search('second')).toMatchObject([{ timestamp_ms: 7, messageIndex: 2 }]);
+  });
+
+  it('should stop at the result limit', () => {
+    expect(buildIndex().search('w', 1)).toHaveLength(1);
+  });
+
+  it('should cut long messages around the match', () => {
+    const content = `${'a '.repeat(100)}Żółw ${'b '.repeat(100)}`;
+    const snippet = buildSnippet(content, 'zolw');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('Żółw');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSearchQuery,
+  matchesQuery,
+  isPlainQuery,
+  getHighlightTerms,
+  parseDateRange,
+} from '../utils/searchQuery';
+import type { Message } from '../types/messenger';
+
+const message = (overrides: Partial<Message>): Message => ({
+  sender_name: 'Anna Kowalska',
+  timestamp_ms: new Date(2019, 5, 15, 12).getTime(),
+  ...overrides,
+});
+
+const matches = (query: string, msg: Message) => {
+  const node = parseSearchQuery(query);
+  return node !== null && matchesQuery(msg, node);
+};
+
+describe('Search query language', () => {
+  describe('parseSearchQuery', () => {
+    it('should return null for an empty query', () => {
+      expect(parseSearchQuery('')).toBeNull();
+      expect(parseSearchQuery('   ')).toBeNull();
+    });
+
+    it('should combine words with an implicit AND', () => {
+      expect(parseSearchQuery('hello world')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', value: 'hello', exact: false },
+          { type: 'term', value: 'world', exact: false },
+        ],
+      });
+    });
+
+    it('should parse filters, phrases, OR and NOT', () => {
+      expect(parseSearchQuery('from:"Anna K" "good night" OR -cat')).toEqual({
+        type: 'or',
+        children: [
+          {
+            type: 'and',
+            children: [
+              { type: 'filter', field: 'from', value: 'Anna K' },
+              { type: 'term', value: 'good night', exact: true },
+            ],
+          },
+          { type: 'not', child: { type: 'term', value: 'cat', exact: false } },
+        ],
+      });
+    });
+
+    it('should treat invalid filter values as plain words', () => {
+      expect(parseSearchQuery('has:unicorn')).toEqual({
+        type: 'term',
+        value: 'has:unicorn',
+        exact: false,
+      });
+    });
+
+    it('should tolerate unbalanced parentheses and quotes', () => {
+      expect(() => parseSearchQuery('(cat OR dog')).not.toThrow();
+      expect(() => parseSearchQuery('cat) "unterminated')).not.toThrow();
+      expect(parseSearchQuery('"unterminated phrase')).toEqual({
+        type: 'term',
+        value: 'unterminated phrase',
+        exact: true,
+      });
+    });
+  });
+
+  describe('parseDateRange', () => {
+    it('should support year, month and day precision', () => {
+      expect(parseDateRange('2019')).toEqual({
+        start: new Date(2019, 0, 1).getTime(),
+        end: new Date(2020, 0, 1).getTime(),
+      });
+      expect(parseDateRange('2019-12')?.end).toBe(new Date(2020, 0, 1).getTime());
+      expect(parseDateRange('2019/05/12')?.start).toBe(new Date(2019, 4, 12).getTime());
+      expect(parseDateRange('2019-13')).toBeNull();
+      expect(parseDateRange('yesterday')).toBeNull();
+    });
+
+    it('should reject days past the end of the month', () => {
+      expect(parseDateRange('2024-02-31')).toBeNull();
+      expect(parseDateRange('2023-02-29')).toBeNull();
+      expect(parseDateRange('2024-02-29')?.start).toBe(new Date(2024, 1, 29).getTime());
+      expect(parseDateRange('2024-04-31')).toBeNull();
+      expect(parseDateRange('2024-01-31')?.end).toBe(new Date(2024, 1, 1).getTime());
+    });
+  });
+
+  describe('matchesQuery', () => {
+    it('should answer "photos Anna sent in 2019"', () => {
+      const photo = message({ photos: [{ uri: 'inbox/a/photos/1.jpg' }] });
+      expect(matches('from:anna has:photo on:2019', photo)).toBe(true);
+      expect(matches('from:anna has:photo on:2020', photo)).toBe(false);
+      expect(matches('from:bob has:photo', photo)).toBe(false);
+      expect(matches('has:video', photo)).toBe(false);
+    });
+
+    it('should compare dates with exclusive before and inclusive after', () => {
+      const msg = message({ content: 'hi' });
+      expect(matches('after:2019-06-15', msg)).toBe(true);
+      expect(matches('before:2019-06-15', msg)).toBe(false);
+      expect(matches('before:2019-06-16', msg)).toBe(true);
+    });
+
+    it('should match links, calls, unsent messages and reactions', () => {
+      expect(matches('has:link', message({ content: 'see https://example.com' }))).toBe(true);
+      expect(matches('has:call', message({ call_duration: 0 }))).toBe(true);
+      expect(matches('is:unsent', message({ is_unsent: true }))).toBe(true);
+      const reacted = message({ reactions: [{ reaction: '❤️', actor: 'Bob' }] });
+      expect(matches('reacted:❤', reacted)).toBe(true);
+      expect(matches('reacted:😂', reacted)).toBe(false);
+      expect(matches('reacted:', reacted)).toBe(true);
+    });
+
+    it('should match exact phrases only in content', () => {
+      const msg = message({ content: 'Good night, see you tomorrow' });
+      expect(matches('"good night"', msg)).toBe(true);
+      expect(matches('"night good"', msg)).toBe(false);
+      expect(matches('"anna"', msg)).toBe(false);
+      expect(matches('anna', msg)).toBe(true);
+    });
+
+    it('should evaluate boolean operators', () => {
+      const msg = message({ content: 'I have a cat' });
+      expect(matches('cat OR dog', msg)).toBe(true);
+      expect(matches('cat AND dog', msg)).toBe(false);
+      expect(matches('cat -dog', msg)).toBe(true);
+      expect(matches('NOT cat', msg)).toBe(false);
+      expect(matches('(dog OR cat) from:anna', msg)).toBe(true);
+    });
+  });
+
+  describe('isPlainQuery and getHighlightTerms', () => {
+    it('should only treat bare words as plain queries', () => {
+      expect(isPlainQuery(parseSearchQuery('hello world'))).toBe(true);
+      expect(isPlainQuery(parseSearchQuery('"hello world"'))).toBe(false);
+      expect(isPlainQuery(parseSearchQuery('hello from:anna'))).toBe(false);
+    });
+
+    it('should highlight positive text terms only', () => {
+      expect(getHighlightTerms('hello world')).toEqual(['hello world']);
+      expect(getHighlightTerms('"good night" from:anna -cat')).toEqual(['good night']);
+      expect(getHighlightTerms('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifySystemEvent,
+  getGroupHistory,
+  splitNames,
+  withSystemEvents,
+} from '../utils/systemEvents';
+import type { Message } from '../types/messenger';
+
+const message = (sender_name: string, content?: string, extra: Partial<Message> = {}): Message => ({
+  sender_name,
+  timestamp_ms: 1,
+  content,
+  ...extra,
+});
+
+describe('System events', () => {
+  it('should keep names with "and" in them whole', () => {
+    expect(splitNames('Tom and Jerry, Anna and Bob')).toEqual(['Tom and Jerry', 'Anna', 'Bob']);
+    expect(splitNames('Anna, Tom and Jerry and Bob')).toEqual(['Anna', 'Tom and Jerry', 'Bob']);
+    expect(splitNames('Anna')).toEqual(['Anna']);
+  });
+
+  it('should classify group notices by their sentence', () => {
+    expect(
+      classifySystemEvent(message('Anna', 'Anna added Bob, Ola and Jan to the group.')),
+    ).toEqual({
+      kind: 'member_added',
+      actor: 'Anna',
+      targets: ['Bob', 'Ola', 'Jan'],
+    });
+    expect(classifySystemEvent(message('Me', 'You named the group Climbing Crew.'))).toEqual({
+      kind: 'group_renamed',
+      actor: 'Me',
+      value: 'Climbing Crew',
+    });
+    expect(classifySystemEvent(message('Anna', 'Anna set the nickname for Bob to Bobby.'))).toEqual(
+      { kind: 'nickname_set', actor: 'Anna', targets: ['Bob'], value: 'Bobby' },
+    );
+    expect(classifySystemEvent(message('Anna', 'Anna created a poll: Where to?'))).toMatchObject({
+      kind: 'poll',
+      value: 'Where to?',
+    });
+    expect(classifySystemEvent(message('Bob', 'Bob started sharing video.'))?.kind).toBe('call');
+    expect(classifySystemEvent(message('Bob', undefined, { type: 'Unsubscribe' }))).toEqual({
+      kind: 'member_left',
+      actor: 'Bob',
+    });
+  });
+
+  it('should leave ordinary messages alone', () => {
+    // Someone quoting a notice is not the notice
+    expect(classifySystemEvent(message('Bob', 'Anna added Ola to the group.'))).toBeUndefined();
+    expect(
+      classifySystemEvent(message('Anna', 'Anna left the group.', { photos: [{ uri: 'a.jpg' }] })),
+    ).toBeUndefined();
+    const messages = [message('Anna', 'Hi')];
+    expect(withSystemEvents(messages)).toBe(messages);
+  });
+
+  it('should list membership and name changes for the group history', () => {
+    const messages = withSystemEvents([
+      message('Anna', 'Anna created the group.'),
+      message('Anna', 'Anna created a poll: Where to?'),
+      message('Bob', undefined, { type: 'Subscribe' }),
+    ]);
+
+    expect(getGroupHistory(messages).map((entry) => [entry.index, entry.text])).toEqual([
+      [0, 'Anna created the group.'],
+      [2, 'Bob joined the group.'],
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { openArchive } from '../utils/archiveSource';
+import { getTelegramChatSummary } from '../utils/telegramExport';
+import { getThreadDirectory, listThreadDirectories } from '../utils/threadDiscovery';
+import { parseThreadDirectory } from '../workers/threadParser';
+import type { ArchiveSource } from '../types/archive';
+
+const exportOf = (name: string, result: object): ArchiveSource => ({
+  kind: 'files',
+  name,
+  entries: [
+    {
+      path: `${name}/result.json`,
+      file: new File([JSON.stringify(result)], 'result.json'),
+    },
+  ],
+});
+
+const annaChat = {
+  name: 'Anna',
+  type: 'personal_chat',
+  id: 123,
+  messages: [
+    {
+      id: 1,
+      type: 'message',
+      date: '2023-05-01T10:00:00',
+      date_unixtime: '1682935200',
+      from: 'Anna',
+      text: ['See ', { type: 'link', text: 'https://example.com' }, '!'],
+    },
+    {
+      id: 2,
+      type: 'message',
+      date: '2023-05-01T10:01:00',
+      date_unixtime: '1682935260',
+      edited: '2023-05-01T10:02:00',
+      edited_unixtime: '1682935320',
+      from: 'Me',
+      text: 'Nice',
+      reply_to_message_id: 1,
+    },
+    {
+      id: 3,
+      type: 'message',
+      date: '2023-05-01T10:03:00',
+      date_unixtime: '1682935380',
+      from: 'Me',
+      forwarded_from: 'Bob',
+      photo: 'photos/photo_1@01-05-2023_10-03-00.jpg',
+      text: '',
+    },
+    {
+      id: 4,
+      type: 'service',
+      date: '2023-05-01T10:04:00',
+      date_unixtime: '1682935440',
+      actor: 'Anna',
+      action: 'phone_call',
+      duration_seconds: 42,
+      text: '',
+    },
+  ],
+};
+
+const textMessage = (id: number, from: string, text: string) => ({
+  id,
+  type: 'message',
+  date_unixtime: String(1682935000 + id),
+  from,
+  text,
+});
+
+describe('Telegram exports', () => {
+  it('should read a single chat export', async () => {
+    const root = await openArchive(exportOf('ChatExport_2023-05-02', annaChat));
+    const threads = await listThreadDirectories(root);
+    expect(threads.map((t) => t.threadId)).toEqual(['inbox/anna_123']);
+
+    const handle = await getThreadDirectory(root, 'inbox/anna_123');
+    const summary = await getTelegramChatSummary(handle);
+    expect(summary).toMatchObject({ name: 'Anna', messageCount: 4 });
+
+    const thread = await parseThreadDirectory(handle, 'inbox/anna_123');
+    expect(thread.platform).toBe('telegram');
+    expect(thread.title).toBe('Anna');
+    expect(thread.participants.map((p) => p.name)).toEqual(['Anna', 'Me']);
+
+    const [link, reply, forward, call] = thread.messages;
+    expect(link.content).toBe('See https://example.com!');
+    expect(reply).toMatchObject({
+      content: 'Nice',
+      edited_timestamp_ms: 1682935320000,
+      reply_to: { message_id: '1', sender_name: 'Anna', content: 'See https://example.com!' },
+    });
+    expect(forward).toMatchObject({
+      forwarded_from: 'Bob',
+      photos: [{ uri: 'inbox/anna_123/photos/photo_1@01-05-2023_10-03-00.jpg' }],
+    });
+    expect(forward.content).toBeUndefined();
+    expect(call).toMatchObject({ type: 'Call', call_duration: 42, sender_name: 'Anna' });
+  });
+
+  it('should list every chat of a full export and parse them separately', async () => {
+    const root = await openArchive(
+      exportOf('DataExport_2023-05-02', {
+        chats: {
+          list: [
+            annaChat,
+            {
+              name: 'Climbing',
+              type: 'private_group',
+              id: 456,
+              messages: [
+                {
+                  id: 10,
+                  type: 'service',
+                  date_unixtime: '1682935000',
+                  actor: 'Me',
+                  action: 'invite_members',
+                  members: ['Anna', null],
+                  text: '',
+                },
+              ],
+            },
+            { type: 'personal_chat', messages: [textMessage(20, 'Eve', 'Hi')] },
+          ],
+        },
+        // Chats without an id are told apart by where they are in the export
+        left_chats: {
+          list: [
+            { name: 'Old group', type: 'private_group', messages: [textMessage(30, 'Me', 'Bye')] },
+          ],
+        },
+      }),
+    );
+    const threads = await listThreadDirectories(root);
+    expect(threads.map((t) => t.threadId).sort()).toEqual([
+      'inbox/anna_123',
+      'inbox/climbing_456',
+      'inbox/deletedaccount_2',
+      'inbox/oldgroup_3',
+    ]);
+
+    const group = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/climbing_456'),
+      'inbox/climbing_456',
+    );
+    expect(group.title).toBe('Climbing');
+    expect(group.messages).toEqual([
+      {
+        sender_name: 'Me',
+        timestamp_ms: 1682935000000,
+        message_id: '10',
+        type: 'Subscribe',
+        content: 'Me added Anna, Deleted Account to the group.',
+        system_event: {
+          kind: 'member_added',
+          actor: 'Me',
+          targets: ['Anna', 'Deleted Account'],
+        },
+      },
+    ]);
+
+    const left = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/oldgroup_3'),
+      'inbox/oldgroup_3',
+    );
+    expect(left.messages.map((m) => m.content)).toEqual(['Bye']);
+  });
+});
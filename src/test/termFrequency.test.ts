@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeTerms,
+  extractEmoji,
+  getTermKey,
+  getTermQuery,
+  tokenizeWords,
+} from '../utils/termFrequency';
+import type { TermMessage } from '../types/terms';
+
+const message = (sender_name: string, timestamp: Date, extra: Partial<TermMessage> = {}) =>
+  ({ sender_name, timestamp_ms: timestamp.getTime(), ...extra }) as TermMessage;
+
+const messages = [
+  message('Anna', new Date(2022, 3, 1), { content: 'Dobry wieczór! Idę na pizzę 🍕🍕' }),
+  message('Anna', new Date(2023, 5, 2), {
+    content: 'dobry wieczór, nie wiem czy się uda',
+    reactions: [{ reaction: '❤️', actor: 'Bob' }],
+  }),
+  message('Bob', new Date(2023, 5, 2), { content: 'Pizza again? 👍🏽 https://example.com/pizza' }),
+  message('Bob', new Date(2023, 5, 3), { content: 'deleted', is_unsent: true }),
+  message('Bob', new Date(2023, 5, 3), {
+    content: 'Bob named the group Pizza',
+    system_event: { kind: 'group_renamed', actor: 'Bob' },
+  }),
+];
+
+describe('Term frequencies', () => {
+  it('should split text into lowercase words without links and numbers', () => {
+    expect(tokenizeWords("Don't go to https://example.com at 10, Zażółć GĘŚLĄ")).toEqual([
+      "don't",
+      'go',
+      'to',
+      'at',
+      'zażółć',
+      'gęślą',
+    ]);
+  });
+
+  it('should keep skin tones and joined emoji together and ignore variation selectors', () => {
+    expect(extractEmoji('ok 👍🏽 👩‍💻 ❤️ ❤')).toEqual(['👍🏽', '👩‍💻', '❤', '❤']);
+  });
+
+  it('should count words, phrases and emoji per participant and year', () => {
+    const analysis = analyzeTerms(messages, { languages: ['en', 'pl'], extraWords: [] });
+
+    expect(analysis.participants).toEqual(['Anna', 'Bob']);
+    expect(analysis.years).toEqual([2022, 2023]);
+
+    const anna = analysis.frequencies[getTermKey('Anna')];
+    expect(anna.messageCount).toBe(2);
+    // Polish stop words ("na", "nie", "czy", "się") are left out
+    expect(anna.words.map(({ term }) => term)).toEqual([
+      'dobry',
+      'wieczór',
+      'idę',
+      'pizzę',
+      'uda',
+      'wiem',
+    ]);
+    expect(anna.bigrams[0]).toEqual({ term: 'dobry wieczór', count: 2 });
+    expect(anna.emoji).toEqual([{ term: '🍕', count: 2 }]);
+
+    const bob2023 = analysis.frequencies[getTermKey('Bob', 2023)];
+    expect(bob2023.messageCount).toBe(1);
+    expect(bob2023.words.map(({ term }) => term)).toEqual(['pizza']);
+    expect(bob2023.reactions).toEqual([{ term: '❤', count: 1 }]);
+
+    expect(analysis.frequencies[getTermKey(undefined, 2022)].messageCount).toBe(1);
+    expect(analysis.frequencies[getTermKey()].messageCount).toBe(3);
+  });
+
+  it('should leave out extra stop words and keep words of unselected languages', () => {
+    const analysis = analyzeTerms(messages, { languages: ['en'], extraWords: ['pizza'] });
+    const bob = analysis.frequencies[getTermKey('Bob')];
+    expect(bob.words).toEqual([]);
+
+    const anna = analysis.frequencies[getTermKey('Anna')];
+    expect(anna.words.map(({ term }) => term)).toContain('się');
+  });
+
+  it('should build a search query for a term', () => {
+    expect(getTermQuery('word', 'pizza')).toBe('"pizza"');
+    expect(getTermQuery('bigram', 'dobry wieczór', 'Anna', 2023)).toBe(
+      '"dobry wieczór" from:"Anna" after:2023 before:2024',
+    );
+    expect(getTermQuery('reaction', '❤', 'Bob')).toBe('reacted:❤');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { computeThreadStats } from '../utils/threadStats';
+import type { Message } from '../types/messenger';
+
+const at = (day: number, hour: number) => new Date(2023, 4, day, hour).getTime();
+
+const message = (sender_name: string, timestamp_ms: number, extra: Partial<Message> = {}) =>
+  ({ sender_name, timestamp_ms, ...extra }) as Message;
+
+describe('Thread statistics', () => {
+  it('should count messages, media, calls and the busiest day', () => {
+    const stats = computeThreadStats([
+      message('Anna', at(1, 10), { content: 'Hi' }),
+      message('Bob', at(1, 11), { content: 'Hello', photos: [{ uri: 'a.jpg' }, { uri: 'b.jpg' }] }),
+      message('Anna', at(1, 12), { share: { link: 'https://example.com' } }),
+      message('Bob', at(3, 9), { type: 'Call', call_duration: 90 }),
+      message('Anna', at(3, 10), {
+        content: 'Anna added Ola to the group.',
+        system_event: { kind: 'member_added', actor: 'Anna', targets: ['Ola'] },
+      }),
+    ]);
+
+    expect(stats.messageCount).toBe(4);
+    expect(stats.messagesPerParticipant).toEqual([
+      { name: 'Anna', count: 2 },
+      { name: 'Bob', count: 2 },
+    ]);
+    expect(stats.media).toMatchObject({ photos: 2, links: 1, videos: 0 });
+    expect(stats.averageLength).toBe(3.5);
+    expect(stats.busiestDay).toEqual({ date: '2023-05-01', count: 3 });
+    expect(stats.callCount).toBe(1);
+    expect(stats.totalCallSeconds).toBe(90);
+    expect(stats.firstMessage?.content).toBe('Hi');
+    expect(stats.lastMessage?.type).toBe('Call');
+  });
+
+  it('should find the longest silences and daily streak', () => {
+    const stats = computeThreadStats([
+      message('Anna', at(1, 10)),
+      message('Bob', at(2, 10)),
+      message('Anna', at(3, 23)),
+      message('Bob', at(10, 8)),
+      message('Anna', at(11, 8)),
+    ]);
+
+    expect(stats.longestSilences[0]).toEqual({
+      start: at(3, 23),
+      end: at(10, 8),
+      durationMs: at(10, 8) - at(3, 23),
+    });
+    expect(stats.longestSilences).toHaveLength(4);
+    expect(stats.longestStreak).toEqual({ start: '2023-05-01', end: '2023-05-03', days: 3 });
+  });
+
+  it('should handle an empty thread', () => {
+    const stats = computeThreadStats([]);
+    expect(stats.messageCount).toBe(0);
+    expect(stats.averageLength).toBe(0);
+    expect(stats.longestSilences).toEqual([]);
+    expect(stats.longestStreak).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getThumbnail } from '../utils/thumbnails';
+import { getCachedThumbnail, getThumbnailSize } from '../utils/thumbnailCache';
+
+vi.mock('../utils/thumbnailCache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/thumbnailCache')>()),
+  getCachedThumbnail: vi.fn(),
+}));
+
+const photo = new File(['jpeg'], '1.jpg', { type: 'image/jpeg', lastModified: 1 });
+
+describe('Thumbnails', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.mocked(getCachedThumbnail).mockReset();
+  });
+
+  it('should downsize to 320px on the longest side and leave small images alone', () => {
+    expect(getThumbnailSize(4032, 3024)).toEqual({ width: 320, height: 240 });
+    expect(getThumbnailSize(1080, 1920)).toEqual({ width: 180, height: 320 });
+    expect(getThumbnailSize(10_000, 10)).toEqual({ width: 320, height: 1 });
+    expect(getThumbnailSize(200, 100)).toEqual({ width: 200, height: 100 });
+  });
+
+  it('should fall back to the original where the browser has no OffscreenCanvas', async () => {
+    vi.stubGlobal('OffscreenCanvas', undefined);
+    await expect(getThumbnail('inbox/anna_1/photos/1.jpg', photo, 'photo')).resolves.toBe(
+      undefined,
+    );
+    expect(getCachedThumbnail).not.toHaveBeenCalled();
+  });
+
+  it('should read a cached thumbnail once for every place it is shown', async () => {
+    const cached = new Blob(['thumbnail'], { type: 'image/jpeg' });
+    vi.stubGlobal('OffscreenCanvas', class {});
+    vi.stubGlobal('createImageBitmap', vi.fn());
+    vi.stubGlobal('Worker', vi.fn());
+    vi.mocked(getCachedThumbnail).mockResolvedValue(cached);
+
+    const [first, second] = await Promise.all([
+      getThumbnail('inbox/anna_1/photos/1.jpg', photo, 'photo'),
+      getThumbnail('inbox/anna_1/photos/1.jpg', photo, 'photo'),
+    ]);
+    expect(first).toBe(cached);
+    expect(second).toBe(cached);
+    expect(getCachedThumbnail).toHaveBeenCalledTimes(1);
+    expect(getCachedThumbnail).toHaveBeenCalledWith('inbox/anna_1/photos/1.jpg', '4:1');
+    expect(Worker).not.toHaveBeenCalled();
+  });
+
+  it('should give up on a video that never loads', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('OffscreenCanvas', class {});
+    vi.stubGlobal('createImageBitmap', vi.fn());
+    vi.stubGlobal('Worker', vi.fn());
+    vi.stubGlobal(
+      'URL',
+      class extends URL {
+        static createObjectURL = vi.fn();
+        static revokeObjectURL = vi.fn();
+      },
+    );
+    vi.mocked(getCachedThumbnail).mockResolvedValue(undefined);
+
+    const video = new File(['mp4'], '1.mp4', { type: 'video/mp4', lastModified: 1 });
+    const thumbnail = getThumbnail('inbox/anna_1/videos/1.mp4', video, 'video');
+    await vi.runAllTimersAsync();
+    await expect(thumbnail).resolves.toBe(undefined);
+    expect(Worker).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the original and start a new worker when the worker fails', async () => {
+    const workers: EventTarget[] = [];
+    vi.stubGlobal('OffscreenCanvas', class {});
+    vi.stubGlobal('createImageBitmap', vi.fn());
+    vi.stubGlobal(
+      'Worker',
+      class extends EventTarget {
+        constructor() {
+          super();
+          workers.push(this);
+        }
+        postMessage() {}
+        terminate() {}
+      },
+    );
+    vi.mocked(getCachedThumbnail).mockResolvedValue(undefined);
+
+    const thumbnail = getThumbnail('inbox/anna_1/photos/1.jpg', photo, 'photo');
+    await vi.waitFor(() => expect(workers).toHaveLength(1));
+    workers[0].dispatchEvent(new Event('error'));
+    await expect(thumbnail).resolves.toBe(undefined);
+
+    void getThumbnail('inbox/anna_1/photos/1.jpg', photo, 'photo');
+    await vi.waitFor(() => expect(workers).toHaveLength(2));
+  });
+});
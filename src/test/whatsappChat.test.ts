@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { parseWhatsAppChat } from '../utils/whatsappChat';
+import { openArchive } from '../utils/archiveSource';
+import { getThreadDirectory, listThreadDirectories } from '../utils/threadDiscovery';
+import { parseThreadDirectory } from '../workers/threadParser';
+
+const LRM = '\u200e';
+
+describe('WhatsApp chats', () => {
+  it('should read iOS exports with multi-line messages and attachments', () => {
+    const chat = parseWhatsAppChat(
+      [
+        `[13/01/2021, 09:15:02] Anna: ${LRM}Messages and calls are end-to-end encrypted.`,
+        '[13/01/2021, 09:16:10] Anna: Hi!',
+        'How are you?',
+        `${LRM}[13/01/2021, 21:03:44] Bob: ${LRM}<attached: 00000012-PHOTO-2021-01-13-21-03-44.jpg>`,
+        `[14/01/2021, 08:00:00] Bob: ${LRM}image omitted`,
+      ].join('\n'),
+      'inbox/Anna',
+    );
+
+    expect(chat.dateOrder).toBe('DMY');
+    expect(chat.participants.map((p) => p.name)).toEqual(['Anna', 'Bob']);
+    expect(chat.messages).toHaveLength(3);
+    expect(chat.messages[0]).toEqual({
+      sender_name: 'Anna',
+      timestamp_ms: new Date(2021, 0, 13, 9, 16, 10).getTime(),
+      content: 'Hi!\nHow are you?',
+    });
+    expect(chat.messages[1].photos).toEqual([
+      { uri: 'inbox/Anna/00000012-PHOTO-2021-01-13-21-03-44.jpg' },
+    ]);
+    expect(chat.messages[2].content).toBe('image omitted');
+    expect(chat.unparsedLines).toEqual([]);
+  });
+
+  it('should detect US dates with AM/PM and report unreadable lines', () => {
+    const chat = parseWhatsAppChat(
+      [
+        'Exported from a backup',
+        '1/12/21, 11:58 PM - Anna: Late',
+        '1/13/21, 12:05 AM - Bob: Very late',
+        '1/13/21, 9:00 AM - Bob: PTT-20210113-WA0001.opus (file attached)',
+        '2/30/21, 9:00 AM - Bob: Not a day',
+        'and its second line',
+      ].join('\n'),
+      'inbox/Anna',
+    );
+
+    expect(chat.dateOrder).toBe('MDY');
+    expect(chat.messages.map((m) => m.timestamp_ms)).toEqual([
+      new Date(2021, 0, 12, 23, 58).getTime(),
+      new Date(2021, 0, 13, 0, 5).getTime(),
+      new Date(2021, 0, 13, 9, 0).getTime(),
+    ]);
+    expect(chat.messages[2].audio_files?.[0].uri).toBe('inbox/Anna/PTT-20210113-WA0001.opus');
+    expect(chat.unparsedLines).toEqual([
+      { lineNumber: 1, text: 'Exported from a backup' },
+      { lineNumber: 5, text: '2/30/21, 9:00 AM - Bob: Not a day' },
+      { lineNumber: 6, text: 'and its second line' },
+    ]);
+  });
+
+  it('should report the lines a system notice runs on to', () => {
+    const chat = parseWhatsAppChat(
+      [
+        '13.01.21, 09:15 - Anna changed the group description',
+        'Trip to Łódź',
+        '13.01.21, 09:16 - Anna: Hi!',
+      ].join('\n'),
+      'inbox/Trip',
+    );
+
+    expect(chat.messages).toHaveLength(1);
+    expect(chat.messages[0].content).toBe('Hi!');
+    expect(chat.unparsedLines).toEqual([{ lineNumber: 2, text: 'Trip to Łódź' }]);
+  });
+
+  it('should prefer the date order that keeps messages chronological', () => {
+    // Every date is valid both ways, only MDY reads them in order
+    const chat = parseWhatsAppChat(
+      [
+        '01/03/21, 10:00 - Anna: One',
+        '01/04/21, 10:00 - Anna: Two',
+        '02/01/21, 10:00 - Anna: Three',
+      ].join('\n'),
+      'inbox/Anna',
+    );
+    expect(chat.dateOrder).toBe('MDY');
+  });
+
+  it('should open an export as a single conversation', async () => {
+    const root = await openArchive({
+      kind: 'files',
+      name: 'WhatsApp Chat - Anna',
+      entries: [
+        {
+          path: 'WhatsApp Chat - Anna/_chat.txt',
+          file: new File(['[13/01/2021, 09:16:10] Anna: Hi'], '_chat.txt'),
+        },
+        { path: 'WhatsApp Chat - Anna/IMG-1.jpg', file: new File(['jpeg'], 'IMG-1.jpg') },
+      ],
+    });
+
+    const threads = await listThreadDirectories(root);
+    expect(threads.map((t) => t.threadId)).toEqual(['inbox/Anna']);
+
+    const thread = await parseThreadDirectory(
+      await getThreadDirectory(root, 'inbox/Anna'),
+      'inbox/Anna',
+    );
+    expect(thread).toMatchObject({ title: 'Anna', platform: 'whatsapp' });
+    expect(thread.messages.map((m) => m.content)).toEqual(['Hi']);
+  });
+});
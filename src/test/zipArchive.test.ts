@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { openZipArchive, readZipEntries } from '../utils/zipArchive';
+import { locateMessagesRoot } from '../utils/archiveSource';
+import type { ArchiveDirectoryHandle } from '../types/archive';
+
+interface TestEntry {
+  path: string;
+  content: string;
+  deflate?: boolean;
+}
+
+// Builds a minimal ZIP in memory (CRCs are left at 0, the reader doesn't check them)
+const buildZip = (name: string, entries: TestEntry[]): File => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.path);
+    const raw = encoder.encode(entry.content);
+    const data = entry.deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, method, true);
+    central.setUint16(14, ((2019 - 1980) << 9) | (6 << 5) | 15, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new File([...localParts, ...centralParts, new Uint8Array(eocd.buffer)], name);
+};
+
+const readText = async (root: ArchiveDirectoryHandle, path: string) => {
+  const parts = path.split('/');
+  const fileName = parts.pop()!;
+  let directory = root;
+  for (const part of parts) {
+    directory = await directory.getDirectoryHandle(part);
+  }
+  return (await (await directory.getFileHandle(fileName)).getFile()).text();
+};
+
+describe('ZIP archives', () => {
+  it('should list entries from the central directory', async () => {
+    const zip = buildZip('export.zip', [
+      { path: 'messages/inbox/anna_1/message_1.json', content: '{"messages":[]}' },
+      { path: 'messages/inbox/anna_1/photos/1.jpg', content: 'jpeg', deflate: true },
+    ]);
+
+    const entries = await readZipEntries(zip);
+    expect(entries.map((entry) => entry.path)).toEqual([
+      'messages/inbox/anna_1/message_1.json',
+      'messages/inbox/anna_1/photos/1.jpg',
+    ]);
+    expect(entries[1].uncompressedSize).toBe(4);
+    expect(new Date(entries[0].lastModified).getFullYear()).toBe(2019);
+  });
+
+  it('should read stored and deflated entries', async () => {
+    const json = JSON.stringify({ participants: [{ name: 'Anna' }], messages: [] });
+    const root = await openZipArchive([
+      buildZip('export.zip', [
+        { path: 'messages/inbox/anna_1/message_1.json', content: json },
+        { path: 'messages/inbox/anna_1/notes.txt', content: 'hello '.repeat(100), deflate: true },
+      ]),
+    ]);
+
+    expect(await readText(root, 'messages/inbox/anna_1/message_1.json')).toBe(json);
+    expect(await readText(root, 'messages/inbox/anna_1/notes.txt')).toBe('hello '.repeat(100));
+    await expect(root.getFileHandle('missing.json')).rejects.toMatchObject({
+      name: 'NotFoundError',
+    });
+  });
+
+  it('should merge multi-part exports into one tree', async () => {
+    const root = await openZipArchive([
+      buildZip('export-1.zip', [
+        {
+          path: 'your_facebook_activity/messages/inbox/anna_1/message_1.json',
+          content: 'part 1',
+        },
+      ]),
+      buildZip('export-2.zip', [
+        { path: 'your_facebook_activity/messages/inbox/anna_1/photos/1.jpg', content: 'jpeg' },
+        {
+          path: 'your_facebook_activity/messages/inbox/anna_1/message_1.json',
+          content: 'duplicate',
+        },
+      ]),
+    ]);
+
+    const messagesRoot = await locateMessagesRoot(root);
+    expect(messagesRoot?.name).toBe('messages');
+
+    const names: string[] = [];
+    const thread = await messagesRoot!
+      .getDirectoryHandle('inbox')
+      .then((inbox) => inbox.getDirectoryHandle('anna_1'));
+    for await (const entry of thread.values()) {
+      names.push(entry.name);
+    }
+    expect(names.sort()).toEqual(['message_1.json', 'photos']);
+    expect(await readText(messagesRoot!, 'inbox/anna_1/message_1.json')).toBe('part 1');
+  });
+
+  it('should reject files that are not ZIPs', async () => {
+    await expect(readZipEntries(new File(['not a zip'], 'notes.txt'))).rejects.toThrow(
+      'not a ZIP file',
+    );
+  });
+});
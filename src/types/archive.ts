@@ -0,0 +1,54 @@
+import type { Platform } from './messenger';
+
+// Read-only view of an export, whether it comes from a picked folder or from ZIP files.
+// Shaped after the File System Access API, so a FileSystemDirectoryHandle already is one.
+
+export interface ArchiveHandle {
+  kind: 'file' | 'directory';
+  name: string;
+}
+
+export interface ArchiveFileMetadata {
+  size: number;
+  lastModified: number;
+}
+
+export interface ArchiveFileHandle extends ArchiveHandle {
+  kind: 'file';
+  getFile(): Promise<File>;
+  // Set when reading metadata is cheaper than getFile(), e.g. for compressed ZIP entries
+  getMetadata?(): Promise<ArchiveFileMetadata>;
+}
+
+export interface ArchiveDirectoryHandle extends ArchiveHandle {
+  kind: 'directory';
+  // Both reject with a NotFoundError DOMException when the entry doesn't exist
+  getDirectoryHandle(name: string): Promise<ArchiveDirectoryHandle>;
+  getFileHandle(name: string): Promise<ArchiveFileHandle>;
+  values(): AsyncIterableIterator<ArchiveHandle>;
+  // Set on folders of merged exports: the same folder in each export that has it, in the
+  // order the exports were added. Entries are read through the first export that has them.
+  layers?: ArchiveLayer[];
+}
+
+export interface ArchiveLayer {
+  label: string; // Identifies the export, e.g. the ZIP or folder name
+  handle: ArchiveDirectoryHandle;
+  platform?: Platform; // When the export's names tell which service it comes from
+}
+
+// Where an archive comes from. Unlike the handles above it survives postMessage,
+// so workers receive this and open their own view of the archive.
+export type ArchiveSource =
+  | { kind: 'directory'; handle: FileSystemDirectoryHandle }
+  | { kind: 'zip'; files: File[] }
+  // Loose files from <input webkitdirectory> or drag and drop. Paths are kept next to the
+  // files because File.webkitRelativePath doesn't survive postMessage.
+  | { kind: 'files'; name: string; entries: ArchiveFileEntry[] }
+  // Several exports of the same account, browsed as one deduplicated archive
+  | { kind: 'merged'; sources: ArchiveSource[] };
+
+export interface ArchiveFileEntry {
+  path: string; // Relative to the selected folder, e.g. "messages/inbox/johndoe_123/message_1.json"
+  file: File;
+}
@@ -0,0 +1,14 @@
+import type { ArchiveSource } from './archive';
+
+// The dashboard summaries, the photo browser and the integrity report each derive one value
+// per thread in a worker, and talk to it the same way
+export type ArchiveScanRequest = { type: 'SCAN_ARCHIVE'; source: ArchiveSource };
+
+export interface ArchiveScanMessage<T> {
+  type: 'SCAN_PROGRESS' | 'SCAN_READY' | 'SCAN_ERROR';
+  scanned?: number;
+  total?: number;
+  results?: T[];
+  parsed?: number; // Threads that had to be parsed because neither result nor thread was cached
+  error?: string;
+}
@@ -0,0 +1,17 @@
+import type { Platform, ThreadFolder } from './messenger';
+
+// What the dashboard needs to know about one thread. Kept in the cache next to the thread,
+// so the whole archive can be aggregated without parsing every conversation again.
+export interface ThreadSummary {
+  threadId: string;
+  title: string;
+  folder?: ThreadFolder;
+  platform?: Platform;
+  threadType?: string;
+  isGroup: boolean;
+  participantCount: number;
+  messageCount: number;
+  firstMessageTime?: number;
+  lastMessageTime?: number;
+  monthlyCounts: Record<string, number>; // "YYYY-MM" (local time) → messages
+}
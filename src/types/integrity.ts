@@ -0,0 +1,16 @@
+// A message_N.json file that doesn't match ThreadSchema
+export interface InvalidThreadFile {
+  fileName: string; // Prefixed with the export's label when exports are merged
+  error: string; // The first schema issue, e.g. "messages.3.timestamp_ms: Required"
+}
+
+// What the integrity scan found in one conversation folder
+export interface ThreadIntegrity {
+  threadId: string;
+  title: string;
+  attachmentCount: number; // Attachment URIs checked against the archive
+  missing: string[]; // Attachment URIs no file was found for
+  orphaned: string[]; // Media files in the folder no message points to, relative to messages/
+  invalidFiles: InvalidThreadFile[];
+  error?: string; // Set when the thread couldn't be read at all; nothing else was checked
+}
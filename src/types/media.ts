@@ -0,0 +1,16 @@
+// A photo or video anywhere in the archive, for the archive-wide photo browser
+export interface ArchiveMediaItem {
+  uri: string; // Normalized by the worker, relative to the messages directory
+  kind: 'photo' | 'video';
+  threadId: string;
+  sender_name: string;
+  timestamp_ms: number; // The file's creation_timestamp, or when the message was sent
+  message_timestamp_ms: number; // Opens the message with /conversation/:threadId?at=
+}
+
+// The photos and videos of one thread, cached per thread like ThreadSummary
+export interface ThreadMedia {
+  threadId: string;
+  title: string;
+  items: ArchiveMediaItem[];
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { InvalidThreadFile } from './integrity';
 
 export const AttachmentSchema = z.object({
   uri: z.string(),
@@ -12,6 +13,58 @@ export const AudioFileSchema = AttachmentSchema;
 export const ReactionSchema = z.object({
   reaction: z.string(),
   actor: z.string(),
+  timestamp: z.number().optional(), // Instagram only
+});
+
+// A shared post or link. Instagram adds the account the shared post belongs to.
+export const ShareSchema = z.object({
+  link: z.string().optional(),
+  share_text: z.string().optional(),
+  original_content_owner: z.string().optional(),
+});
+
+// A story shared in an Instagram DM, or replied to
+export const StoryShareSchema = z.object({
+  link: z.string().optional(),
+  share_text: z.string().optional(),
+});
+
+// The message a reply quotes. Only the id is always known; the rest is copied from the
+// original message when the import can find it.
+export const ReplyReferenceSchema = z.object({
+  message_id: z.string().optional(),
+  timestamp_ms: z.number().optional(),
+  sender_name: z.string().optional(),
+  content: z.string().optional(),
+});
+
+// Set on messages that were bumped back to the top of a chat; `bumped_message` is their text
+export const BumpedMessageMetadataSchema = z.object({
+  bumped_message: z.string().optional(),
+  is_bumped: z.boolean().optional(),
+});
+
+// Group notices, told apart from ordinary messages when a thread is parsed
+export const SYSTEM_EVENT_KINDS = [
+  'member_added',
+  'member_removed',
+  'member_left',
+  'member_joined',
+  'group_created',
+  'group_renamed',
+  'group_photo_changed',
+  'nickname_set',
+  'poll',
+  'call',
+  'chat_settings',
+  'pinned',
+] as const;
+
+export const SystemEventSchema = z.object({
+  kind: z.enum(SYSTEM_EVENT_KINDS),
+  actor: z.string(),
+  targets: z.array(z.string()).optional(), // People added, removed or given a nickname
+  value: z.string().optional(), // New group name, nickname, poll question...
 });
 
 export const MessageSchema = z.object({
@@ -28,6 +81,21 @@ export const MessageSchema = z.object({
   gifs: z.array(z.object({ uri: z.string() })).optional(),
   files: z.array(AttachmentSchema).optional(),
   call_duration: z.number().optional(),
+  share: ShareSchema.optional(),
+  story_share: StoryShareSchema.optional(), // Instagram only
+  is_geoblocked_for_viewer: z.boolean().optional(),
+  ip: z.string().optional(), // Only on the account owner's messages in older exports
+  bumped_message_metadata: BumpedMessageMetadataSchema.optional(),
+  // Replies and edits. Set by imports of apps that export them, such as Telegram.
+  message_id: z.string().optional(),
+  reply_to: ReplyReferenceSchema.optional(),
+  forwarded_from: z.string().optional(),
+  edited_timestamp_ms: z.number().optional(),
+  // Not part of the export: set by the app to the export a message came from when several
+  // exports are merged
+  source_export: z.string().optional(),
+  // Not part of the export either: set when the message is a group notice
+  system_event: SystemEventSchema.optional(),
 });
 
 export const ParticipantSchema = z.object({
@@ -48,16 +116,45 @@ export type Photo = z.infer<typeof PhotoSchema>;
 export type Video = z.infer<typeof VideoSchema>;
 export type AudioFile = z.infer<typeof AudioFileSchema>;
 export type Reaction = z.infer<typeof ReactionSchema>;
+export type Share = z.infer<typeof ShareSchema>;
+export type ReplyReference = z.infer<typeof ReplyReferenceSchema>;
+export type BumpedMessageMetadata = z.infer<typeof BumpedMessageMetadataSchema>;
+export type SystemEventKind = (typeof SYSTEM_EVENT_KINDS)[number];
+export type SystemEvent = z.infer<typeof SystemEventSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 export type Participant = z.infer<typeof ParticipantSchema>;
 export type Thread = z.infer<typeof ThreadSchema>;
 
+// Folders inside the export's "messages" directory that hold one sub-folder per conversation
+export const THREAD_FOLDERS = [
+  'inbox',
+  'e2ee_cutover',
+  'archived_threads',
+  'filtered_threads',
+  'message_requests',
+] as const;
+
+export type ThreadFolder = (typeof THREAD_FOLDERS)[number];
+
+// Services whose "Download your information" exports use this message format
+export const PLATFORMS = ['messenger', 'instagram', 'whatsapp', 'telegram'] as const;
+
+export type Platform = (typeof PLATFORMS)[number];
+
 export interface ThreadMetadata {
   id: string;
   participants: Participant[];
   lastMessageTime: number;
   totalMessages: number;
   title?: string;
+  folder?: ThreadFolder; // Unset when the selected folder holds conversations directly
+  platform?: Platform;
+}
+
+// A line of an imported text chat that could not be read as (part of) a message
+export interface UnparsedLine {
+  lineNumber: number; // 1-based
+  text: string;
 }
 
 export interface ParsedThread {
@@ -65,10 +162,16 @@ export interface ParsedThread {
   participants: Participant[];
   messages: Message[];
   title?: string;
+  platform?: Platform;
+  // As the export names it: "Regular" or "RegularGroup" for Messenger, "personal_chat",
+  // "private_group" and so on for Telegram; unset for WhatsApp and HTML exports
+  threadType?: string;
+  unparsedLines?: UnparsedLine[]; // Only set for imported text chats such as WhatsApp's
+  invalidFiles?: InvalidThreadFile[]; // message_N.json files that don't match ThreadSchema
 }
 
 export interface WorkerMessage {
-  type: 'THREAD_PARSED' | 'WORKER_ERROR' | 'WORKER_COMPLETED' | 'PROGRESS';
+  type: 'MESSAGES_BATCH' | 'WORKER_ERROR' | 'WORKER_COMPLETED' | 'PROGRESS';
   data?: any;
   error?: string;
   threadId?: string;
@@ -0,0 +1,29 @@
+// Minimal typings for the parts of oboe used to stream export JSON (content fed in via emit)
+declare module 'oboe' {
+  export interface OboeFailReport {
+    thrown?: Error;
+    statusCode?: number;
+    body?: string;
+  }
+
+  export interface OboeInstance {
+    node(
+      pattern: string,
+      callback: (node: unknown, path: string[], ancestors: unknown[]) => unknown,
+    ): this;
+    done(callback: (json: unknown) => void): this;
+    fail(callback: (report: OboeFailReport) => void): this;
+    emit(event: 'data', chunk: string): void;
+    emit(event: 'end'): void;
+    abort(): void;
+  }
+
+  interface OboeStatic {
+    (): OboeInstance;
+    // Returned from a node callback to drop the node from the in-memory JSON tree
+    drop: object;
+  }
+
+  const oboe: OboeStatic;
+  export default oboe;
+}
@@ -0,0 +1,25 @@
+import type { ArchiveSource } from './archive';
+
+// A single message matched by the archive-wide search index
+export interface SearchHit {
+  threadId: string;
+  threadTitle: string;
+  sender_name: string;
+  timestamp_ms: number;
+  messageIndex: number; // Position in the thread's messages, which may share a timestamp
+  snippet: string;
+}
+
+export type SearchWorkerRequest =
+  | { type: 'BUILD_INDEX'; source: ArchiveSource }
+  | { type: 'SEARCH'; query: string; requestId: number; limit?: number };
+
+export interface SearchWorkerMessage {
+  type: 'INDEX_PROGRESS' | 'INDEX_READY' | 'SEARCH_RESULTS' | 'SEARCH_ERROR';
+  indexed?: number;
+  total?: number;
+  messageCount?: number;
+  requestId?: number;
+  results?: SearchHit[];
+  error?: string;
+}
@@ -0,0 +1,43 @@
+import type { Message } from './messenger';
+import type { StopWordSettings } from '../utils/stopWords';
+
+export interface TermCount {
+  term: string;
+  count: number;
+}
+
+// Most frequent terms of one participant (or everyone) in one year (or all years)
+export interface TermFrequencies {
+  messageCount: number;
+  words: TermCount[];
+  bigrams: TermCount[];
+  emoji: TermCount[];
+  reactions: TermCount[]; // Reactions given, by whoever reacted
+}
+
+export interface TermAnalysis {
+  participants: string[]; // Most active first
+  years: number[];
+  // Keyed by getTermKey(participant, year)
+  frequencies: Record<string, TermFrequencies>;
+}
+
+// The fields the analysis reads, so threads are posted to the worker without media lists
+export type TermMessage = Pick<
+  Message,
+  'sender_name' | 'timestamp_ms' | 'content' | 'reactions' | 'is_unsent' | 'system_event'
+>;
+
+export type TermWorkerRequest = {
+  type: 'ANALYZE_TERMS';
+  requestId: number;
+  messages: TermMessage[];
+  stopWords: StopWordSettings;
+};
+
+export interface TermWorkerMessage {
+  type: 'TERMS_READY' | 'TERMS_ERROR';
+  requestId: number;
+  analysis?: TermAnalysis;
+  error?: string;
+}
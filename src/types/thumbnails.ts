@@ -0,0 +1,15 @@
+// A photo is sent as its file; a video as a frame the page grabbed, since workers can't play
+// video
+export type ThumbnailWorkerRequest = {
+  type: 'MAKE_THUMBNAIL';
+  requestId: number;
+  uri: string;
+  fingerprint: string;
+} & ({ file: File } | { frame: ImageBitmap });
+
+export interface ThumbnailWorkerMessage {
+  type: 'THUMBNAIL_READY' | 'THUMBNAIL_ERROR';
+  requestId: number;
+  blob?: Blob;
+  error?: string;
+}
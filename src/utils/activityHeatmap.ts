@@ -0,0 +1,52 @@
+import type { Message } from '../types/messenger';
+import { toDayKey } from './threadStats';
+
+// Data for the calendar heatmap and the weekday × hour punch card, in local time. Both can
+// be narrowed to one participant; group notices are left out.
+
+export const HEATMAP_LEVELS = 4;
+
+export interface DayCount {
+  date: string; // "YYYY-MM-DD"
+  count: number;
+}
+
+const chatMessagesOf = (messages: Message[], participant?: string) =>
+  messages.filter(
+    (message) => !message.system_event && (!participant || message.sender_name === participant),
+  );
+
+/**
+ * Messages per day, oldest day first.
+ */
+export function getDailyCounts(messages: Message[], participant?: string): DayCount[] {
+  const counts = new Map<string, number>();
+  for (const message of chatMessagesOf(messages, participant)) {
+    const day = toDayKey(message.timestamp_ms);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([date, count]) => ({ date, count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Messages per weekday (0 = Sunday, as in Date.getDay) and hour of the day.
+ */
+export function getPunchCard(messages: Message[], participant?: string): number[][] {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const message of chatMessagesOf(messages, participant)) {
+    const date = new Date(message.timestamp_ms);
+    grid[date.getDay()][date.getHours()]++;
+  }
+  return grid;
+}
+
+/**
+ * Shade of a count from 0 (none) to HEATMAP_LEVELS (the busiest), on a square-root scale
+ * so a few very busy days don't wash out the rest.
+ */
+export function getHeatLevel(count: number, max: number): number {
+  if (count <= 0 || max <= 0) return 0;
+  return Math.max(1, Math.ceil(Math.sqrt(count / max) * HEATMAP_LEVELS));
+}
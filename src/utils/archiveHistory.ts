@@ -0,0 +1,97 @@
+import { logger } from './logger';
+import { STORES, deleteRecord, getAllRecords, putRecord } from './indexedDb';
+
+const MAX_RECENT_ARCHIVES = 5;
+
+export interface RecentArchive {
+  key: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  lastOpenedAt: number;
+}
+
+export type ArchiveAccess = 'granted' | 'denied' | 'missing';
+
+/**
+ * Lists remembered archives, most recently opened first.
+ */
+export async function getRecentArchives(): Promise<RecentArchive[]> {
+  try {
+    const archives = await getAllRecords<RecentArchive>(STORES.archives);
+    return archives.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+  } catch (error) {
+    logger.debug('RECENT_ARCHIVES_READ_ERROR', error);
+    return [];
+  }
+}
+
+/**
+ * Stores a directory handle (handles survive structured cloning into IndexedDB) and
+ * resolves to the updated list. Picking the same folder again only bumps its date.
+ */
+export async function rememberArchive(handle: FileSystemDirectoryHandle): Promise<RecentArchive[]> {
+  const archives = await getRecentArchives();
+
+  let existing: RecentArchive | undefined;
+  for (const archive of archives) {
+    if (await archive.handle.isSameEntry(handle)) {
+      existing = archive;
+      break;
+    }
+  }
+
+  const archive: RecentArchive = {
+    key: existing?.key ?? crypto.randomUUID(),
+    name: handle.name,
+    handle,
+    lastOpenedAt: Date.now(),
+  };
+
+  try {
+    await putRecord(STORES.archives, archive);
+    const updated = [archive, ...archives.filter((a) => a.key !== archive.key)];
+    // Drop the oldest entries beyond the limit
+    for (const stale of updated.slice(MAX_RECENT_ARCHIVES)) {
+      await deleteRecord(STORES.archives, stale.key);
+    }
+    return updated.slice(0, MAX_RECENT_ARCHIVES);
+  } catch (error) {
+    logger.debug('RECENT_ARCHIVE_WRITE_ERROR', error);
+    return archives;
+  }
+}
+
+export async function forgetArchive(key: string): Promise<void> {
+  try {
+    await deleteRecord(STORES.archives, key);
+  } catch (error) {
+    logger.debug('RECENT_ARCHIVE_DELETE_ERROR', error);
+  }
+}
+
+/**
+ * Checks that a remembered handle can still be read. With requestAccess, asks the user
+ * for permission again, which browsers only allow from a user gesture such as a click.
+ */
+export async function verifyArchiveAccess(
+  handle: FileSystemDirectoryHandle,
+  requestAccess: boolean,
+): Promise<ArchiveAccess> {
+  let permission = await handle.queryPermission({ mode: 'read' });
+  if (permission === 'prompt' && requestAccess) {
+    permission = await handle.requestPermission({ mode: 'read' });
+  }
+  if (permission !== 'granted') return 'denied';
+
+  // A moved or deleted folder only fails once it is actually read
+  try {
+    for await (const entry of handle.values()) {
+      logger.debug('ARCHIVE_ACCESS_VERIFIED', { name: handle.name, firstEntry: entry.name });
+      break;
+    }
+    return 'granted';
+  } catch (error) {
+    logger.debug('ARCHIVE_MISSING', { name: handle.name, error });
+    return 'missing';
+  }
+}
@@ -0,0 +1,186 @@
+import type { ParsedThread } from '../types/messenger';
+import type { ArchiveDirectoryHandle } from '../types/archive';
+import type { ThreadIntegrity } from '../types/integrity';
+import { getThreadTitle } from './archiveOverview';
+import { collectThreadMedia } from './mediaGallery';
+import { MediaError, resolveMediaHandle } from './mediaResolver';
+import { isTelegramExportFile } from './telegramExport';
+import { isWhatsAppChatFile } from './whatsappChat';
+
+const isExternalUri = (uri: string) => uri.startsWith('http://') || uri.startsWith('https://');
+
+const getFileName = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * Attachment URIs of a thread, each once. Links to other sites aren't part of the archive.
+ */
+export function getAttachmentUris(thread: ParsedThread): string[] {
+  const uris = collectThreadMedia(thread.messages).map((entry) => entry.uri);
+  return [...new Set(uris.filter((uri) => !isExternalUri(uri)))];
+}
+
+/**
+ * Media files that no attachment points to. Matched by file name, as folder names differ
+ * between exports and merged threads keep the first export's folder name.
+ */
+export function findOrphanedFiles(files: string[], attachmentUris: string[]): string[] {
+  const referenced = new Set(attachmentUris.map(getFileName));
+  return files.filter((file) => !referenced.has(getFileName(file)));
+}
+
+export const countIssues = (thread: ThreadIntegrity) =>
+  thread.missing.length +
+  thread.orphaned.length +
+  thread.invalidFiles.length +
+  (thread.error ? 1 : 0);
+
+/**
+ * Report for a thread that couldn't be read at all, so it is listed rather than left out.
+ */
+export const getUnreadableThreadIntegrity = (threadId: string, error: string): ThreadIntegrity => ({
+  threadId,
+  title: threadId.split('/').pop() ?? threadId,
+  attachmentCount: 0,
+  missing: [],
+  orphaned: [],
+  invalidFiles: [],
+  error,
+});
+
+// Every file below a folder, with paths starting at `path`
+async function listFiles(handle: ArchiveDirectoryHandle, path: string): Promise<string[]> {
+  const files: string[] = [];
+  for await (const entry of handle.values()) {
+    const entryPath = `${path}/${entry.name}`;
+    if (entry.kind === 'directory') {
+      files.push(...(await listFiles(entry as ArchiveDirectoryHandle, entryPath)));
+    } else {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+// Folders below the thread folder its attachments sit in, e.g. "photos", "chats/chat_001/photos"
+// or "" for the thread folder itself. Merged threads may point into other threads' folders.
+const getAttachmentFolders = (threadId: string, attachmentUris: string[]) => {
+  const prefix = `${threadId}/`;
+  const folders = new Set<string>();
+  for (const uri of attachmentUris) {
+    if (!uri.startsWith(prefix)) continue;
+    const path = uri.substring(prefix.length);
+    folders.add(path.substring(0, Math.max(path.lastIndexOf('/'), 0)));
+  }
+  return [...folders];
+};
+
+// Files directly in the given folders, leaving out the chat files of WhatsApp and Telegram
+async function listFolderFiles(
+  handle: ArchiveDirectoryHandle,
+  threadId: string,
+  folders: string[],
+) {
+  const files: string[] = [];
+  for (const folder of folders) {
+    let directory = handle;
+    try {
+      for (const name of folder.split('/').filter(Boolean)) {
+        directory = await directory.getDirectoryHandle(name);
+      }
+    } catch (error) {
+      // Its attachments are reported as missing
+      const name = error instanceof DOMException ? error.name : '';
+      if (name === 'NotFoundError' || name === 'TypeMismatchError') continue;
+      throw error;
+    }
+    const path = folder ? `${threadId}/${folder}` : threadId;
+    for await (const entry of directory.values()) {
+      if (entry.kind !== 'file') continue;
+      if (isWhatsAppChatFile(entry.name) || isTelegramExportFile(entry.name)) continue;
+      files.push(`${path}/${entry.name}`);
+    }
+  }
+  return files;
+}
+
+/**
+ * Media files of a thread's folder. Messenger and Instagram keep them in sub-folders ("photos",
+ * "videos", ...) next to the message files. A WhatsApp chat's media sits next to the chat file,
+ * and every Telegram chat folder shows the whole export, so for those only the folders the
+ * thread's own attachments point into are listed.
+ */
+async function listMediaFiles(
+  handle: ArchiveDirectoryHandle,
+  thread: ParsedThread,
+  attachmentUris: string[],
+) {
+  if (thread.platform === 'whatsapp' || thread.platform === 'telegram') {
+    const folders = getAttachmentFolders(thread.threadId, attachmentUris);
+    return listFolderFiles(handle, thread.threadId, folders);
+  }
+
+  const files: string[] = [];
+  for await (const entry of handle.values()) {
+    if (entry.kind === 'directory') {
+      files.push(
+        ...(await listFiles(entry as ArchiveDirectoryHandle, `${thread.threadId}/${entry.name}`)),
+      );
+    }
+  }
+  return files;
+}
+
+/**
+ * Checks a parsed thread against its folder: attachments without a file and files without an
+ * attachment. Message files that don't match ThreadSchema were found while the thread was
+ * parsed. Attachment URIs are resolved from the messages folder, like MediaItem does.
+ */
+export async function checkThreadIntegrity(
+  messagesRoot: ArchiveDirectoryHandle,
+  threadHandle: ArchiveDirectoryHandle,
+  thread: ParsedThread,
+): Promise<ThreadIntegrity> {
+  const attachmentUris = getAttachmentUris(thread);
+  const missing: string[] = [];
+  for (const uri of attachmentUris) {
+    try {
+      await resolveMediaHandle(messagesRoot, uri);
+    } catch (error) {
+      if (!(error instanceof MediaError) || error.kind !== 'not-found') throw error;
+      missing.push(uri);
+    }
+  }
+
+  return {
+    threadId: thread.threadId,
+    title: getThreadTitle(thread),
+    attachmentCount: attachmentUris.length,
+    missing,
+    orphaned: findOrphanedFiles(
+      await listMediaFiles(threadHandle, thread, attachmentUris),
+      attachmentUris,
+    ),
+    invalidFiles: thread.invalidFiles ?? [],
+  };
+}
+
+const toCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per problem found, for the report's download.
+ */
+export function toIntegrityCsv(threads: ThreadIntegrity[]): string {
+  const rows = [['thread_id', 'title', 'problem', 'path', 'detail']];
+  for (const thread of threads) {
+    const row = (problem: string, path: string, detail = '') =>
+      rows.push([thread.threadId, thread.title, problem, path, detail]);
+    thread.missing.forEach((uri) => row('missing_media', uri));
+    thread.orphaned.forEach((path) => row('orphaned_media', path));
+    thread.invalidFiles.forEach(({ fileName, error }) =>
+      row('invalid_json', `${thread.threadId}/${fileName}`, error),
+    );
+    if (thread.error) row('unreadable_thread', thread.threadId, thread.error);
+  }
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
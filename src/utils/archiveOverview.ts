@@ -0,0 +1,216 @@
+import type { ParsedThread, ThreadFolder } from '../types/messenger';
+import type { ThreadSummary } from '../types/dashboard';
+import { getThreadFolder } from './threadDiscovery';
+
+// The archive dashboard aggregates per-thread summaries instead of messages. A "contact" is
+// the other side of a one-to-one thread; group threads are counted together.
+
+export const TOP_CONTACTS = 7;
+export const RANKING_SIZE = 10;
+// A one-to-one thread is dormant once it has been silent this long before the archive ends
+export const DORMANT_AFTER_MS = 365 * 24 * 60 * 60 * 1000;
+
+// "YYYY-MM" in local time
+export const toMonthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+};
+
+const isGroupThread = (thread: ParsedThread) => {
+  if (thread.threadType) return /group|channel/i.test(thread.threadType);
+  return thread.participants.length > 2;
+};
+
+// The thread's name, or its participants for unnamed one-to-one threads
+export const getThreadTitle = (thread: ParsedThread) =>
+  thread.title || thread.participants.map((p) => p.name).join(', ') || thread.threadId;
+
+/**
+ * Reduces a parsed thread to what the dashboard needs. Group notices aren't counted.
+ */
+export function summarizeThread(thread: ParsedThread): ThreadSummary {
+  const monthlyCounts: Record<string, number> = {};
+  let messageCount = 0;
+  let firstMessageTime: number | undefined;
+  let lastMessageTime: number | undefined;
+
+  for (const message of thread.messages) {
+    if (message.system_event) continue;
+    messageCount++;
+    const month = toMonthKey(message.timestamp_ms);
+    monthlyCounts[month] = (monthlyCounts[month] ?? 0) + 1;
+    firstMessageTime = Math.min(firstMessageTime ?? Infinity, message.timestamp_ms);
+    lastMessageTime = Math.max(lastMessageTime ?? -Infinity, message.timestamp_ms);
+  }
+
+  return {
+    threadId: thread.threadId,
+    title: getThreadTitle(thread),
+    folder: getThreadFolder(thread.threadId),
+    platform: thread.platform,
+    threadType: thread.threadType,
+    isGroup: isGroupThread(thread),
+    participantCount: thread.participants.length,
+    messageCount,
+    firstMessageTime,
+    lastMessageTime,
+    monthlyCounts,
+  };
+}
+
+export interface ContactVolume {
+  threadId: string;
+  title: string;
+  count: number;
+}
+
+export interface MonthVolume {
+  month: string; // "YYYY-MM"
+  contacts: number[]; // Same order as ArchiveOverview.topContacts
+  otherContacts: number;
+  groups: number;
+}
+
+export interface YearRanking {
+  year: number;
+  contacts: ContactVolume[];
+}
+
+export interface YearRelationships {
+  year: number;
+  started: number; // One-to-one threads whose first message is from this year
+  dormant: number; // Dormant threads whose last message is from this year
+}
+
+export interface LabelCount<T extends string = string> {
+  label: T;
+  count: number;
+}
+
+export interface ArchiveOverview {
+  totalMessages: number;
+  threadCount: number;
+  directCount: number;
+  groupCount: number;
+  topContacts: ContactVolume[];
+  months: MonthVolume[]; // Every month from the first message to the last, oldest first
+  rankings: YearRanking[]; // Oldest year first
+  relationships: YearRelationships[];
+  byThreadType: LabelCount[];
+  byFolder: LabelCount<ThreadFolder | 'other'>[];
+}
+
+const countBy = <T extends string>(summaries: ThreadSummary[], key: (s: ThreadSummary) => T) => {
+  const counts = new Map<T, number>();
+  summaries.forEach((summary) => counts.set(key(summary), (counts.get(key(summary)) ?? 0) + 1));
+  return [...counts].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+};
+
+// Month keys from first to last inclusive, so charts don't skip silent months
+function monthRange(first: string, last: string): string[] {
+  const months: string[] = [];
+  let [year, month] = first.split('-').map(Number);
+  for (let key = first; key <= last; key = `${year}-${month.toString().padStart(2, '0')}`) {
+    months.push(key);
+    month = (month % 12) + 1;
+    if (month === 1) year++;
+  }
+  return months;
+}
+
+/**
+ * Aggregates the summaries of every thread in the archive.
+ */
+export function buildArchiveOverview(summaries: ThreadSummary[]): ArchiveOverview {
+  const active = summaries.filter((summary) => summary.messageCount > 0);
+  const direct = active.filter((summary) => !summary.isGroup);
+  const topContacts = [...direct]
+    .sort((a, b) => b.messageCount - a.messageCount)
+    .slice(0, TOP_CONTACTS)
+    .map(({ threadId, title, messageCount }) => ({ threadId, title, count: messageCount }));
+  const topIndex = new Map(topContacts.map((contact, index) => [contact.threadId, index]));
+  const emptyMonth = (month: string): MonthVolume => ({
+    month,
+    contacts: topContacts.map(() => 0),
+    otherContacts: 0,
+    groups: 0,
+  });
+
+  // Monthly volume, split into top contacts, other contacts and groups
+  const byMonth = new Map<string, MonthVolume>();
+  const yearCounts = new Map<number, Map<string, number>>();
+  for (const summary of active) {
+    for (const [month, count] of Object.entries(summary.monthlyCounts)) {
+      let volume = byMonth.get(month);
+      if (!volume) {
+        volume = emptyMonth(month);
+        byMonth.set(month, volume);
+      }
+      const index = topIndex.get(summary.threadId);
+      if (summary.isGroup) volume.groups += count;
+      else if (index !== undefined) volume.contacts[index] += count;
+      else volume.otherContacts += count;
+
+      if (!summary.isGroup) {
+        const year = Number(month.slice(0, 4));
+        const counts = yearCounts.get(year) ?? new Map<string, number>();
+        counts.set(summary.threadId, (counts.get(summary.threadId) ?? 0) + count);
+        yearCounts.set(year, counts);
+      }
+    }
+  }
+  const monthKeys = [...byMonth.keys()].sort();
+  const months = monthKeys.length
+    ? monthRange(monthKeys[0], monthKeys[monthKeys.length - 1]).map(
+        (month) => byMonth.get(month) ?? emptyMonth(month),
+      )
+    : [];
+
+  const titles = new Map(direct.map((summary) => [summary.threadId, summary.title]));
+  const rankings = [...yearCounts]
+    .sort(([a], [b]) => a - b)
+    .map(([year, counts]) => ({
+      year,
+      contacts: [...counts]
+        .map(([threadId, count]) => ({ threadId, title: titles.get(threadId) ?? threadId, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, RANKING_SIZE),
+    }));
+
+  // New and dormant one-to-one relationships per year
+  const archiveEnd = Math.max(0, ...active.map((summary) => summary.lastMessageTime ?? 0));
+  const relationshipYears = new Map<number, YearRelationships>();
+  const relationshipYear = (timestamp: number) => {
+    const year = new Date(timestamp).getFullYear();
+    let entry = relationshipYears.get(year);
+    if (!entry) {
+      entry = { year, started: 0, dormant: 0 };
+      relationshipYears.set(year, entry);
+    }
+    return entry;
+  };
+  for (const summary of direct) {
+    if (summary.firstMessageTime !== undefined) {
+      relationshipYear(summary.firstMessageTime).started++;
+    }
+    if (
+      summary.lastMessageTime !== undefined &&
+      archiveEnd - summary.lastMessageTime >= DORMANT_AFTER_MS
+    ) {
+      relationshipYear(summary.lastMessageTime).dormant++;
+    }
+  }
+
+  return {
+    totalMessages: active.reduce((sum, summary) => sum + summary.messageCount, 0),
+    threadCount: summaries.length,
+    directCount: summaries.filter((summary) => !summary.isGroup).length,
+    groupCount: summaries.filter((summary) => summary.isGroup).length,
+    topContacts,
+    months,
+    rankings,
+    relationships: [...relationshipYears.values()].sort((a, b) => a.year - b.year),
+    byThreadType: countBy(summaries, (summary) => summary.threadType ?? 'Unknown'),
+    byFolder: countBy(summaries, (summary) => summary.folder ?? 'other'),
+  };
+}
@@ -0,0 +1,164 @@
+import type {
+  ArchiveDirectoryHandle,
+  ArchiveFileHandle,
+  ArchiveFileMetadata,
+  ArchiveSource,
+} from '../types/archive';
+import { isThreadFolder } from './threadDiscovery';
+import { openZipArchive } from './zipArchive';
+import { mergeDirectories, openFileList } from './virtualDirectory';
+import { logger } from './logger';
+import { getSourcePlatform } from './platform';
+import { openTelegramExport } from './telegramExport';
+import { openWhatsAppExport } from './whatsappChat';
+
+// How far below the selected folder or ZIP root to look for the messages folder.
+// Exports nest it as "messages/" or "your_facebook_activity/messages/".
+const MAX_MESSAGES_ROOT_DEPTH = 3;
+
+// Opening ZIPs or file lists means building a tree up front, so workers reuse the trees
+// of the last opened archive (one per export when several are merged)
+const opened = new Map<string, Promise<ArchiveDirectoryHandle>>();
+
+const getFilesKey = (files: File[]) =>
+  files.map((file) => `${file.name}:${file.size}:${file.lastModified}`).join('|');
+
+const getSourceKeys = (source: ArchiveSource): string[] => {
+  switch (source.kind) {
+    case 'zip':
+      return [`zip:${getFilesKey(source.files)}`];
+    case 'files':
+      return [`files:${source.name}:${getFilesKey(source.entries.map((entry) => entry.file))}`];
+    case 'merged':
+      return source.sources.flatMap(getSourceKeys);
+    default:
+      return [];
+  }
+};
+
+const openCached = (key: string, open: () => Promise<ArchiveDirectoryHandle>) => {
+  let root = opened.get(key);
+  if (!root) {
+    root = open();
+    opened.set(key, root);
+    root.catch(() => {
+      if (opened.get(key) === root) opened.delete(key);
+    });
+  }
+  return root;
+};
+
+/**
+ * Short name for an export, shown next to messages that came from it when exports are merged.
+ */
+export function getSourceLabel(source: ArchiveSource): string {
+  switch (source.kind) {
+    case 'directory':
+      return source.handle.name;
+    case 'zip':
+      return source.files[0]?.name.replace(/\.zip$/i, '') ?? 'ZIP';
+    case 'files':
+      return source.name;
+    case 'merged':
+      return source.sources.map(getSourceLabel).join(' + ');
+  }
+}
+
+// Exports downloaded on different days often share a name, so repeats get numbered
+const getLayerLabels = (sources: ArchiveSource[]) => {
+  const counts = new Map<string, number>();
+  return sources.map((source) => {
+    const label = getSourceLabel(source);
+    const count = (counts.get(label) ?? 0) + 1;
+    counts.set(label, count);
+    return count === 1 ? label : `${label} (${count})`;
+  });
+};
+
+/**
+ * Finds the "messages" folder, i.e. the first folder (breadth-first) that holds a thread
+ * container such as "inbox". Resolves to null if there is none.
+ */
+export async function locateMessagesRoot(
+  root: ArchiveDirectoryHandle,
+): Promise<ArchiveDirectoryHandle | null> {
+  let level: ArchiveDirectoryHandle[] = [root];
+
+  for (let depth = 0; depth <= MAX_MESSAGES_ROOT_DEPTH && level.length > 0; depth++) {
+    const nextLevel: ArchiveDirectoryHandle[] = [];
+    for (const directory of level) {
+      for await (const entry of directory.values()) {
+        if (entry.kind !== 'directory') continue;
+        if (isThreadFolder(entry.name)) return directory;
+        nextLevel.push(entry as ArchiveDirectoryHandle);
+      }
+    }
+    level = nextLevel;
+  }
+
+  return null;
+}
+
+async function openMessagesRoot(source: ArchiveSource): Promise<ArchiveDirectoryHandle> {
+  if (source.kind === 'merged') {
+    const labels = getLayerLabels(source.sources);
+    const layers = [];
+    for (const [index, subSource] of source.sources.entries()) {
+      layers.push({
+        label: labels[index],
+        handle: await openMessagesRoot(subSource),
+        platform: getSourcePlatform(subSource),
+      });
+    }
+    return mergeDirectories('messages', layers);
+  }
+
+  let root: ArchiveDirectoryHandle;
+  if (source.kind === 'zip') {
+    root = await openCached(getSourceKeys(source)[0], () => openZipArchive(source.files));
+  } else if (source.kind === 'files') {
+    root = await openCached(getSourceKeys(source)[0], async () =>
+      openFileList(source.entries, source.name),
+    );
+  } else {
+    root = source.handle;
+  }
+
+  const messagesRoot =
+    (await locateMessagesRoot(root)) ??
+    (await openWhatsAppExport(root, getSourceLabel(source))) ??
+    (await openTelegramExport(root));
+  if (!messagesRoot) {
+    throw new Error(
+      source.kind === 'zip'
+        ? 'No Messenger conversations found in the selected ZIP files.'
+        : 'Please select the "messages" folder from your Facebook data export.',
+    );
+  }
+  return messagesRoot;
+}
+
+/**
+ * Opens an archive source and resolves to its messages folder, which is what thread ids,
+ * media URIs and autofill_information.json are relative to.
+ */
+export async function openArchive(source: ArchiveSource): Promise<ArchiveDirectoryHandle> {
+  // Drop trees of previously opened archives that this one doesn't reuse
+  const keys = new Set(getSourceKeys(source));
+  for (const key of [...opened.keys()]) {
+    if (!keys.has(key)) opened.delete(key);
+  }
+
+  const messagesRoot = await openMessagesRoot(source);
+  logger.debug('ARCHIVE_OPENED', { kind: source.kind, root: messagesRoot.name });
+  return messagesRoot;
+}
+
+/**
+ * Size and date of a file without reading it where the handle allows that.
+ */
+export async function getFileMetadata(handle: ArchiveFileHandle): Promise<ArchiveFileMetadata> {
+  if (handle.getMetadata) return handle.getMetadata();
+  const file = await handle.getFile();
+  return { size: file.size, lastModified: file.lastModified };
+}
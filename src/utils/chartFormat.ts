@@ -0,0 +1,22 @@
+// Shared by the statistics charts so participants and series keep the same look everywhere
+export const CHART_COLORS = [
+  '#3182ce',
+  '#38a169',
+  '#d69e2e',
+  '#e53e3e',
+  '#805ad5',
+  '#dd6b20',
+  '#319795',
+];
+
+// Short human duration, e.g. "45s", "12m", "3h 5m" or "2d 4h"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
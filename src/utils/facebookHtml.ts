@@ -0,0 +1,221 @@
+import type { Attachment, Message, Participant } from '../types/messenger';
+import type { ArchiveDirectoryHandle } from '../types/archive';
+import { findElement, findElements, getText, hasClass, parseHtml, type HtmlElement } from './html';
+import { logger } from './logger';
+import { splitNames } from './systemEvents';
+
+// Facebook writes message_N.html instead of message_N.json when "HTML" is picked as the
+// download format. Each message is a block with the sender, the content (text, media and a
+// list of reactions) and the time, told apart by generated class names that changed once:
+//   <div class="pam _3-95 _2pi0 _2lej uiBoxWhite noborder">          (until 2022)
+//     <div class="_3-96 _2pio _2lek _2lel">Anna</div>
+//     <div class="_3-96 _2let">...<ul class="_tqp"><li>❤Bob</li></ul></div>
+//     <div class="_3-94 _2lem">Jan 13, 2021, 9:16 AM</div>
+//   <div class="_3-95 _a6-g">                                        (since 2022)
+//     <div class="_2ph_ _a6-h _a6-i">Anna</div>
+//     <div class="_2ph_ _a6-p">...<ul class="_a6-q"><li><span>❤Bob</span></li></ul></div>
+//     <div class="_3-94 _a6-o">Jan 13, 2021 9:16:10 am</div>
+// Media paths are relative to the export root, like the URIs in the JSON format.
+
+export type HtmlLayout = 'legacy' | 'current';
+
+interface LayoutClasses {
+  message: string;
+  sender: string;
+  content: string;
+  timestamp: string;
+  reactions: string;
+}
+
+const LAYOUTS: Record<HtmlLayout, LayoutClasses> = {
+  legacy: {
+    message: '_2lej',
+    sender: '_2lek',
+    content: '_2let',
+    timestamp: '_2lem',
+    reactions: '_tqp',
+  },
+  current: {
+    message: '_a6-g',
+    sender: '_a6-h',
+    content: '_a6-p',
+    timestamp: '_a6-o',
+    reactions: '_a6-q',
+  },
+};
+
+export interface HtmlThread {
+  title?: string;
+  participants: Participant[];
+  messages: Message[];
+  layout?: HtmlLayout;
+  skippedBlocks: number; // Blocks without a readable time, e.g. the participants header
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Jan 13, 2021, 9:16 AM", "Jan 13, 2021 9:16:10 am" or "January 13, 2021 at 9:16 AM"
+const TIMESTAMP =
+  /^([a-z]+)\.? (\d{1,2}),? (\d{4}),?(?: at)? (\d{1,2}):(\d{2})(?::(\d{2}))?(?: ?([ap])\.?m\.?)?$/i;
+
+// Leading emoji of a reaction list entry, e.g. "❤Bob" or "😆 Bob"
+const REACTION = /^([^\p{L}\p{N}]+?)\s*([\p{L}\p{N}].*)$/u;
+
+export const isHtmlMessageFile = (name: string) => /^message_\d+\.html$/.test(name);
+
+/**
+ * Local time of a message as Facebook prints it (US English), or null if unreadable.
+ */
+export function parseHtmlTimestamp(text: string): number | null {
+  const match = text.replace(/\s+/g, ' ').trim().match(TIMESTAMP);
+  if (!match) {
+    const parsed = Date.parse(text);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  const [, monthName, day, year, rawHours, minutes, seconds, meridiem] = match;
+  const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+  if (month === -1) return null;
+  let hours = Number(rawHours);
+  if (meridiem) hours = (hours % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+  return new Date(
+    Number(year),
+    month,
+    Number(day),
+    hours,
+    Number(minutes),
+    seconds ? Number(seconds) : 0,
+  ).getTime();
+}
+
+const detectLayout = (document: HtmlElement): HtmlLayout | undefined =>
+  (Object.keys(LAYOUTS) as HtmlLayout[]).find((layout) =>
+    findElement(document, (element) => hasClass(element, LAYOUTS[layout].message)),
+  );
+
+// Links to files of the export, as opposed to links sent in a message
+const isExportPath = (path: string) => !/^[a-z][a-z\d+.-]*:/i.test(path) && !path.startsWith('#');
+
+const addAttachment = (
+  message: Message,
+  key: 'photos' | 'videos' | 'audio_files' | 'gifs' | 'files',
+  uri: string,
+) => {
+  const attachment: Attachment = { uri };
+  if (!message[key]?.some((existing) => existing.uri === uri)) {
+    message[key] = [...(message[key] ?? []), attachment];
+  }
+};
+
+const readMedia = (message: Message, content: HtmlElement) => {
+  const media = findElements(content, (element) =>
+    ['img', 'video', 'audio', 'a'].includes(element.tag),
+  );
+  for (const element of media) {
+    const path = element.attributes.src ?? element.attributes.href;
+    if (!path) continue;
+    if (!isExportPath(path)) {
+      // A link sent in the message
+      if (element.tag === 'a') message.share ??= { link: path };
+      continue;
+    }
+    if (element.tag === 'video') addAttachment(message, 'videos', path);
+    else if (element.tag === 'audio') addAttachment(message, 'audio_files', path);
+    else if (/(^|\/)stickers_used\//.test(path)) message.sticker = { uri: path };
+    else if (/(^|\/)gifs\//.test(path)) addAttachment(message, 'gifs', path);
+    else if (element.tag === 'img' || /\.(jpe?g|png|webp|heic)$/i.test(path)) {
+      addAttachment(message, 'photos', path);
+    } else {
+      // Links around media point to the media itself and are read through the media element
+      const wrapsMedia = findElement(element, (child) =>
+        ['img', 'video', 'audio'].includes(child.tag),
+      );
+      if (!wrapsMedia) addAttachment(message, 'files', path);
+    }
+  }
+};
+
+const readReactions = (message: Message, content: HtmlElement, classes: LayoutClasses) => {
+  const list = findElement(content, (element) => hasClass(element, classes.reactions));
+  if (!list) return;
+  const reactions = findElements(list, (element) => element.tag === 'li').flatMap((item) => {
+    const match = getText(item).match(REACTION);
+    return match ? [{ reaction: match[1], actor: match[2].trim() }] : [];
+  });
+  if (reactions.length > 0) message.reactions = reactions;
+};
+
+// "Participants: Anna, Bob and Me" in the page header
+const readParticipants = (document: HtmlElement): string[] | undefined => {
+  const header = findElement(document, (element) =>
+    element.children.some(
+      (child) => typeof child === 'string' && child.trim().startsWith('Participants:'),
+    ),
+  );
+  if (!header) return undefined;
+  return splitNames(getText(header).replace(/^Participants:\s*/, ''));
+};
+
+/**
+ * Converts a message_N.html page into messages with the export's raw media paths, in the
+ * order of the page (newest first, like message_N.json).
+ */
+export function parseFacebookHtml(html: string): HtmlThread {
+  const document = parseHtml(html);
+  const layout = detectLayout(document);
+  const titleElement = findElement(document, (element) => element.tag === 'title');
+  const title = titleElement ? getText(titleElement) || undefined : undefined;
+  if (!layout) {
+    return { title, participants: [], messages: [], skippedBlocks: 0 };
+  }
+
+  const classes = LAYOUTS[layout];
+  const messages: Message[] = [];
+  let skippedBlocks = 0;
+
+  for (const block of findElements(document, (element) => hasClass(element, classes.message))) {
+    const find = (className: string) =>
+      findElement(block, (element) => hasClass(element, className));
+    const timestampElement = find(classes.timestamp);
+    const timestamp = timestampElement ? parseHtmlTimestamp(getText(timestampElement)) : null;
+    const senderElement = find(classes.sender);
+    if (timestamp === null || !senderElement) {
+      skippedBlocks++;
+      continue;
+    }
+
+    const message: Message = { sender_name: getText(senderElement), timestamp_ms: timestamp };
+    const content = find(classes.content);
+    if (content) {
+      const text = getText(content, (element) => hasClass(element, classes.reactions));
+      if (text) message.content = text;
+      readMedia(message, content);
+      readReactions(message, content, classes);
+    }
+    messages.push(message);
+  }
+
+  const senders = [...new Set(messages.map((message) => message.sender_name))];
+  const names = readParticipants(document) ?? senders;
+
+  if (skippedBlocks > 0) {
+    logger.debug('HTML_BLOCKS_SKIPPED', { layout, skippedBlocks, messages: messages.length });
+  }
+  return {
+    title,
+    participants: names.map((name) => ({ name })),
+    messages,
+    layout,
+    skippedBlocks,
+  };
+}
+
+/**
+ * Reads message_1.html of a thread folder, or resolves to null if the folder has none.
+ */
+export async function readHtmlThread(
+  threadHandle: ArchiveDirectoryHandle,
+): Promise<HtmlThread | null> {
+  const fileHandle = await threadHandle.getFileHandle('message_1.html').catch(() => null);
+  if (!fileHandle) return null;
+  return parseFacebookHtml(await (await fileHandle.getFile()).text());
+}
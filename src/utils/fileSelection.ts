@@ -0,0 +1,83 @@
+import type { ArchiveFileEntry, ArchiveSource } from '../types/archive';
+import { logger } from './logger';
+
+// Turns files picked with <input> or dropped on the page into an ArchiveSource, for browsers
+// without showDirectoryPicker and for users who prefer dragging the export in
+
+const isZipFile = (file: File) => file.name.toLowerCase().endsWith('.zip');
+
+// Multi-part exports are read in part order, so "export-2.zip" comes before "export-10.zip"
+export const sortZipParts = (files: File[]) =>
+  [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+const toSource = (entries: ArchiveFileEntry[]): ArchiveSource | null => {
+  if (entries.length === 0) return null;
+  if (entries.every((entry) => isZipFile(entry.file))) {
+    return { kind: 'zip', files: sortZipParts(entries.map((entry) => entry.file)) };
+  }
+  // Name the archive after the selected folder, the first segment of every path
+  const name = entries[0].path.split('/')[0] || 'archive';
+  return { kind: 'files', name, entries };
+};
+
+/**
+ * Builds a source from an <input type="file"> selection: ZIP files, or a folder picked
+ * with the webkitdirectory attribute (each File then carries its webkitRelativePath).
+ */
+export function getSelectedFilesSource(files: FileList | File[]): ArchiveSource | null {
+  return toSource(
+    Array.from(files).map((file) => ({ path: file.webkitRelativePath || file.name, file })),
+  );
+}
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries() returns children in batches and an empty batch once there are no more
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry) => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+async function collectEntryFiles(entry: FileSystemEntry, results: ArchiveFileEntry[]) {
+  if (entry.isFile) {
+    // fullPath starts with "/" followed by the dropped item's name
+    results.push({
+      path: entry.fullPath.replace(/^\//, ''),
+      file: await readEntryFile(entry as FileSystemFileEntry),
+    });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectoryEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntryFiles(child, results);
+    }
+  }
+}
+
+/**
+ * Builds a source from a drop event: a dropped export folder, or its ZIP files.
+ * Must be called synchronously from the drop handler, because the DataTransfer items
+ * are only readable during the event; the folder walk itself is asynchronous.
+ */
+export function getDroppedSource(dataTransfer: DataTransfer): Promise<ArchiveSource | null> {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const collect = async () => {
+    const results: ArchiveFileEntry[] = [];
+    for (const entry of entries) {
+      await collectEntryFiles(entry, results);
+    }
+    logger.debug('DROPPED_FILES_READ', { files: results.length });
+    return toSource(results);
+  };
+  return collect();
+}
@@ -0,0 +1,137 @@
+// A small HTML reader for the exports' own markup. Workers have no DOMParser, and the
+// export pages are generated and well-formed, so a tag tokenizer is all that is needed.
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\w[^>]*>|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|[^<]+|</g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'wbr',
+]);
+// Their text is not part of the page's content
+const RAW_TEXT_TAGS = new Set(['script', 'style']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, ...values] of source.matchAll(ATTRIBUTE)) {
+    attributes[name.toLowerCase()] = decodeEntities(values.find((v) => v !== undefined) ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parses a page into a tree under a root element with the tag "#document". Unclosed
+ * elements are closed by their parent's end tag, and stray end tags are ignored.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attributes: {}, children: [] };
+  const stack = [root];
+
+  for (const [token, closing, rawTag, attributes, selfClosing] of html.matchAll(TOKEN)) {
+    const parent = stack[stack.length - 1];
+    if (!rawTag) {
+      if (token.startsWith('<!')) continue; // Comments and the doctype
+      if (!RAW_TEXT_TAGS.has(parent.tag)) parent.children.push(decodeEntities(token));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: HtmlElement = { tag, attributes: parseAttributes(attributes), children: [] };
+    parent.children.push(element);
+    if (!selfClosing && !VOID_TAGS.has(tag)) stack.push(element);
+  }
+
+  return root;
+}
+
+export const isElement = (node: HtmlNode): node is HtmlElement => typeof node !== 'string';
+
+export const hasClass = (element: HtmlElement, className: string) =>
+  (element.attributes.class ?? '').split(/\s+/).includes(className);
+
+/**
+ * Every element below `element` (not `element` itself) that matches, in document order.
+ * Matching elements are not searched further, so nested matches are skipped.
+ */
+export function findElements(
+  element: HtmlElement,
+  matches: (element: HtmlElement) => boolean,
+): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  for (const child of element.children) {
+    if (!isElement(child)) continue;
+    if (matches(child)) found.push(child);
+    else found.push(...findElements(child, matches));
+  }
+  return found;
+}
+
+export const findElement = (element: HtmlElement, matches: (element: HtmlElement) => boolean) =>
+  findElements(element, matches)[0] as HtmlElement | undefined;
+
+/**
+ * Text of an element with line breaks for <br> and between block elements, trimmed.
+ * Elements matching `skip` are left out with everything in them.
+ */
+export function getText(node: HtmlNode, skip?: (element: HtmlElement) => boolean): string {
+  const text: string[] = [];
+  const collect = (current: HtmlNode) => {
+    if (!isElement(current)) {
+      text.push(current);
+      return;
+    }
+    if (skip?.(current)) return;
+    if (current.tag === 'br') text.push('\n');
+    current.children.forEach(collect);
+    if (current.tag === 'div' || current.tag === 'p' || current.tag === 'li') text.push('\n');
+  };
+  collect(node);
+  return text
+    .join('')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
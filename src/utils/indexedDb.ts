@@ -0,0 +1,85 @@
+// Thin promise wrapper around the one IndexedDB database the app keeps in the browser
+
+const DB_NAME = 'messenger-archive-viewer';
+const DB_VERSION = 5;
+
+// Every object store is keyed by the record's "key" field
+export const STORES = {
+  threads: 'threads',
+  threadMetadata: 'threadMetadata',
+  threadSummaries: 'threadSummaries',
+  threadMedia: 'threadMedia',
+  thumbnails: 'thumbnails',
+  archives: 'archives',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'key' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function getRecord<T>(store: StoreName, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return requestToPromise<T | undefined>(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return requestToPromise<T[]>(db.transaction(store).objectStore(store).getAll());
+}
+
+export async function countRecords(store: StoreName): Promise<number> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store).objectStore(store).count());
+}
+
+export async function putRecord<T extends { key: string }>(
+  store: StoreName,
+  record: T,
+): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(record));
+}
+
+export async function deleteRecord(store: StoreName, key: string): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+export async function clearStore(store: StoreName): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
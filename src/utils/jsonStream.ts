@@ -0,0 +1,45 @@
+import oboe, { type OboeInstance } from 'oboe';
+
+/**
+ * Feeds a file to an oboe parser chunk by chunk, so only the nodes the callbacks keep are
+ * held in memory. `configure` registers the node callbacks; resolves once the JSON is done, or
+ * as soon as a callback calls `stop` because it has read all it needs.
+ */
+export function streamJsonFile(
+  file: File,
+  configure: (parser: OboeInstance, stop: () => void) => void,
+  onChunkRead?: (bytes: number) => void,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const parser = oboe();
+    let isStopped = false;
+    const stop = () => {
+      isStopped = true;
+      parser.abort();
+      resolve();
+    };
+    configure(parser, stop);
+    parser
+      .done(() => resolve())
+      .fail((report) => reject(report.thrown || new Error('Invalid JSON')));
+
+    const readChunks = async () => {
+      const reader = file.stream().getReader();
+      const decoder = new TextDecoder('utf-8');
+      for (;;) {
+        if (isStopped) {
+          await reader.cancel();
+          return;
+        }
+        const { done, value } = await reader.read();
+        if (done) break;
+        onChunkRead?.(value.byteLength);
+        parser.emit('data', decoder.decode(value, { stream: true }));
+      }
+      const tail = decoder.decode();
+      if (tail) parser.emit('data', tail);
+      parser.emit('end');
+    };
+    readChunks().catch(reject);
+  });
+}
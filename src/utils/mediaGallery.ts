@@ -0,0 +1,115 @@
+import type { Attachment, Message, ParsedThread } from '../types/messenger';
+import type { ArchiveMediaItem, ThreadMedia } from '../types/media';
+import { getThreadTitle, toMonthKey } from './archiveOverview';
+
+// Attachments flattened into one list for the media gallery of a thread and the photo
+// browser of the whole archive, each pointing back at the message it came from.
+
+export const MEDIA_KINDS = ['photo', 'video', 'gif', 'sticker', 'audio', 'file'] as const;
+
+export type MediaKind = (typeof MEDIA_KINDS)[number];
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  photo: 'Photos',
+  video: 'Videos',
+  gif: 'GIFs',
+  sticker: 'Stickers',
+  audio: 'Audio',
+  file: 'Files',
+};
+
+export interface MediaEntry {
+  uri: string; // Normalized by the worker, relative to the messages directory
+  kind: MediaKind;
+  messageIndex: number; // Index of the message in the thread
+  sender_name: string;
+  timestamp_ms: number; // When the message was sent
+}
+
+/**
+ * Collects every attachment of a thread in message order. Unsent messages keep their
+ * attachments in some exports, so they are listed too.
+ */
+export function collectThreadMedia(messages: Message[]): MediaEntry[] {
+  const entries: MediaEntry[] = [];
+  messages.forEach((message, messageIndex) => {
+    const add = (kind: MediaKind, uris: { uri: string }[] | undefined) => {
+      uris?.forEach(({ uri }) =>
+        entries.push({
+          uri,
+          kind,
+          messageIndex,
+          sender_name: message.sender_name,
+          timestamp_ms: message.timestamp_ms,
+        }),
+      );
+    };
+    add('photo', message.photos);
+    add('video', message.videos);
+    add('gif', message.gifs);
+    add('sticker', message.sticker && [message.sticker]);
+    add('audio', message.audio_files);
+    add('file', message.files);
+  });
+  return entries;
+}
+
+export interface MediaFilter {
+  kind?: MediaKind;
+  sender?: string;
+  from?: number; // Inclusive, ms
+  to?: number; // Exclusive, ms
+}
+
+export function filterMedia(entries: MediaEntry[], filter: MediaFilter): MediaEntry[] {
+  return entries.filter(
+    (entry) =>
+      (!filter.kind || entry.kind === filter.kind) &&
+      (!filter.sender || entry.sender_name === filter.sender) &&
+      (filter.from === undefined || entry.timestamp_ms >= filter.from) &&
+      (filter.to === undefined || entry.timestamp_ms < filter.to),
+  );
+}
+
+/**
+ * Collects the photos and videos of a thread for the archive-wide photo browser, dated by
+ * the file's creation_timestamp (seconds) where the export has one.
+ */
+export function collectArchiveMedia(thread: ParsedThread): ThreadMedia {
+  const items: ArchiveMediaItem[] = [];
+  for (const message of thread.messages) {
+    const add = (kind: ArchiveMediaItem['kind'], attachments: Attachment[] | undefined) => {
+      attachments?.forEach(({ uri, creation_timestamp }) =>
+        items.push({
+          uri,
+          kind,
+          threadId: thread.threadId,
+          sender_name: message.sender_name,
+          timestamp_ms: creation_timestamp ? creation_timestamp * 1000 : message.timestamp_ms,
+          message_timestamp_ms: message.timestamp_ms,
+        }),
+      );
+    };
+    add('photo', message.photos);
+    add('video', message.videos);
+  }
+  return { threadId: thread.threadId, title: getThreadTitle(thread), items };
+}
+
+export interface MediaMonth {
+  month: string; // "YYYY-MM"
+  items: ArchiveMediaItem[];
+}
+
+/**
+ * Sorts media newest first and groups it by the month it was taken.
+ */
+export function groupMediaByMonth(items: ArchiveMediaItem[]): MediaMonth[] {
+  const months: MediaMonth[] = [];
+  for (const item of [...items].sort((a, b) => b.timestamp_ms - a.timestamp_ms)) {
+    const month = toMonthKey(item.timestamp_ms);
+    if (months[months.length - 1]?.month !== month) months.push({ month, items: [] });
+    months[months.length - 1].items.push(item);
+  }
+  return months;
+}
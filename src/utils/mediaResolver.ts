@@ -0,0 +1,199 @@
+import type { ArchiveDirectoryHandle, ArchiveFileHandle } from '../types/archive';
+import { logger } from './logger';
+import { EXPORT_MESSAGES_PREFIX } from './platform';
+import { getThumbnail } from './thumbnails';
+
+// Turns media URIs into object URLs. Handles are resolved once per archive and object URLs
+// are shared by everything showing the same media, then revoked when the last one is gone.
+
+export type MediaErrorKind = 'not-found' | 'permission-denied' | 'unreadable';
+
+export class MediaError extends Error {
+  readonly kind: MediaErrorKind;
+  readonly uri: string;
+
+  constructor(kind: MediaErrorKind, uri: string, message: string) {
+    super(message);
+    this.name = 'MediaError';
+    this.kind = kind;
+    this.uri = uri;
+  }
+}
+
+export interface ResolvedMedia {
+  url: string;
+  isThumbnail: boolean;
+}
+
+interface HandleCache {
+  directories: Map<string, Promise<ArchiveDirectoryHandle>>;
+  files: Map<string, Promise<ArchiveFileHandle>>;
+}
+
+interface ObjectUrlEntry {
+  media: Promise<ResolvedMedia>;
+  count: number;
+}
+
+// Keyed by the archive's messages folder, so opening another archive starts afresh
+const handleCaches = new WeakMap<ArchiveDirectoryHandle, HandleCache>();
+const objectUrls = new WeakMap<ArchiveDirectoryHandle, Map<string, ObjectUrlEntry>>();
+
+const toMediaError = (uri: string, error: unknown): MediaError => {
+  if (error instanceof MediaError) return error;
+  // File System Access errors are DOMExceptions, which aren't Errors everywhere
+  const isError = error instanceof Error || error instanceof DOMException;
+  const message = isError ? error.message : String(error);
+  const name = isError ? error.name : '';
+  switch (name) {
+    case 'NotFoundError':
+    case 'TypeMismatchError':
+      return new MediaError('not-found', uri, message);
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new MediaError('permission-denied', uri, message);
+    default:
+      return new MediaError('unreadable', uri, message);
+  }
+};
+
+/**
+ * Folders from the messages folder to a media file. URIs are normalized relative to it when
+ * threads are parsed; a leftover "your_*_activity/messages/" prefix is skipped.
+ */
+export function getMediaPath(uri: string): { folders: string[]; fileName: string } {
+  const path = uri
+    .split('/')
+    .filter((segment) => segment !== '' && segment !== '.')
+    .join('/')
+    .replace(EXPORT_MESSAGES_PREFIX, '');
+  const segments = path ? path.split('/') : [];
+  const fileName = segments.pop() ?? '';
+  return { folders: segments, fileName };
+}
+
+// Failed lookups aren't kept, so they are retried once e.g. access has been granted
+const getCached = <T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>) => {
+  let value = cache.get(key);
+  if (!value) {
+    value = load();
+    cache.set(key, value);
+    value.catch(() => {
+      if (cache.get(key) === value) cache.delete(key);
+    });
+  }
+  return value;
+};
+
+const getDirectory = (
+  root: ArchiveDirectoryHandle,
+  cache: HandleCache,
+  folders: string[],
+): Promise<ArchiveDirectoryHandle> => {
+  if (folders.length === 0) return Promise.resolve(root);
+  return getCached(cache.directories, folders.join('/'), async () => {
+    const parent = await getDirectory(root, cache, folders.slice(0, -1));
+    return parent.getDirectoryHandle(folders[folders.length - 1]);
+  });
+};
+
+/**
+ * Finds the file handle a media URI points to, without reading the file. Rejects with a
+ * MediaError.
+ */
+export async function resolveMediaHandle(
+  root: ArchiveDirectoryHandle,
+  uri: string,
+): Promise<ArchiveFileHandle> {
+  const { folders, fileName } = getMediaPath(uri);
+  if (!fileName) throw new MediaError('not-found', uri, 'Invalid media URI (no filename)');
+
+  let cache = handleCaches.get(root);
+  if (!cache) {
+    cache = { directories: new Map(), files: new Map() };
+    handleCaches.set(root, cache);
+  }
+  const handleCache = cache;
+
+  try {
+    return await getCached(handleCache.files, [...folders, fileName].join('/'), async () =>
+      (await getDirectory(root, handleCache, folders)).getFileHandle(fileName),
+    );
+  } catch (error) {
+    throw toMediaError(uri, error);
+  }
+}
+
+/**
+ * Reads the file a media URI points to. Rejects with a MediaError.
+ */
+export async function resolveMediaFile(root: ArchiveDirectoryHandle, uri: string): Promise<File> {
+  const fileHandle = await resolveMediaHandle(root, uri);
+  try {
+    return await fileHandle.getFile();
+  } catch (error) {
+    throw toMediaError(uri, error);
+  }
+}
+
+async function loadMedia(
+  root: ArchiveDirectoryHandle,
+  uri: string,
+  thumbnailKind: 'photo' | 'video' | undefined,
+): Promise<ResolvedMedia> {
+  const file = await resolveMediaFile(root, uri);
+  const thumbnail = thumbnailKind ? await getThumbnail(uri, file, thumbnailKind) : undefined;
+  return {
+    url: URL.createObjectURL(thumbnail ?? file),
+    isThumbnail: Boolean(thumbnail),
+  };
+}
+
+/**
+ * Gets an object URL for a media URI, or for its thumbnail when thumbnailKind is set. Calls
+ * for the same media share one URL; release() must be called once it's no longer shown, and
+ * the URL is revoked when nothing holds it anymore.
+ */
+export function acquireMedia(
+  root: ArchiveDirectoryHandle,
+  uri: string,
+  thumbnailKind?: 'photo' | 'video',
+): { media: Promise<ResolvedMedia>; release: () => void } {
+  let entries = objectUrls.get(root);
+  if (!entries) {
+    entries = new Map();
+    objectUrls.set(root, entries);
+  }
+  const urls = entries;
+
+  const key = `${thumbnailKind ? 'thumbnail' : 'original'}:${uri}`;
+  let entry = urls.get(key);
+  if (!entry) {
+    const created: ObjectUrlEntry = { media: loadMedia(root, uri, thumbnailKind), count: 0 };
+    created.media.catch(() => {
+      if (urls.get(key) === created) urls.delete(key);
+    });
+    urls.set(key, created);
+    entry = created;
+  }
+  const acquired = entry;
+  acquired.count++;
+
+  let isReleased = false;
+  const release = () => {
+    if (isReleased) return;
+    isReleased = true;
+    acquired.count--;
+    if (acquired.count > 0) return;
+    if (urls.get(key) === acquired) urls.delete(key);
+    acquired.media.then(
+      ({ url }) => {
+        URL.revokeObjectURL(url);
+        logger.debug('MEDIA_URL_REVOKED', { uri, url });
+      },
+      () => {},
+    );
+  };
+
+  return { media: acquired.media, release };
+}
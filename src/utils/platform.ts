@@ -0,0 +1,82 @@
+import type { Message, Platform } from '../types/messenger';
+import type { ArchiveSource } from '../types/archive';
+
+// Messenger and Instagram exports share their layout and JSON format, so the platform is
+// told apart by names the exports use and, failing that, by the messages themselves.
+// WhatsApp and Telegram chats have formats of their own and are recognized when parsed.
+
+export const PLATFORM_LABELS: Record<Platform, string> = {
+  messenger: 'Messenger',
+  instagram: 'Instagram',
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+};
+
+// Where recent Messenger and Instagram exports keep the messages folder. Media URIs start with
+// it, while the app resolves them from the messages folder.
+export const EXPORT_MESSAGES_PREFIX = /^(?:your_(?:facebook|instagram)_activity\/)?messages\//;
+
+// "your_instagram_activity/" inside the export, "instagram-<user>-<date>.zip" around it
+const INSTAGRAM_NAME = /instagram/i;
+
+/**
+ * Platform of an export judging by its folder, ZIP or file paths. Undefined when the names
+ * don't tell, e.g. when the "messages" folder itself was picked.
+ */
+export function getSourcePlatform(source: ArchiveSource): Platform | undefined {
+  let names: string[];
+  switch (source.kind) {
+    case 'directory':
+      names = [source.handle.name];
+      break;
+    case 'zip':
+      names = source.files.map((file) => file.name);
+      break;
+    case 'files':
+      names = [source.name, source.entries[0]?.path ?? ''];
+      break;
+    case 'merged':
+      return undefined;
+  }
+  if (names.some((name) => INSTAGRAM_NAME.test(name))) return 'instagram';
+  if (names.some((name) => name.startsWith('WhatsApp Chat'))) return 'whatsapp';
+  // Telegram Desktop names exports "ChatExport_<date>" or "DataExport_<date>"
+  if (names.some((name) => /^(Chat|Data)Export_/.test(name))) return 'telegram';
+  if (names.some((name) => name.includes('facebook'))) return 'messenger';
+  return undefined;
+}
+
+/**
+ * Platform of a message judging by its raw (not yet normalized) attachment URIs, which
+ * start with "your_instagram_activity/" or "your_facebook_activity/" in recent exports.
+ */
+export function getMessagePlatform(m: Message): Platform | undefined {
+  const uris = [
+    ...(m.photos ?? []),
+    ...(m.videos ?? []),
+    ...(m.audio_files ?? []),
+    ...(m.gifs ?? []),
+    ...(m.files ?? []),
+  ].map((attachment) => attachment.uri);
+
+  for (const uri of uris) {
+    if (uri.startsWith('your_instagram_activity/')) return 'instagram';
+    if (uri.startsWith('your_facebook_activity/')) return 'messenger';
+  }
+  // Only Instagram records whose post was shared
+  if (m.share?.original_content_owner) return 'instagram';
+  return undefined;
+}
+
+/**
+ * Platform of a thread: the export's platform when known, otherwise the first message
+ * that gives it away. Messenger is assumed when nothing does.
+ */
+export function getThreadPlatform(messages: Message[], sourcePlatform?: Platform): Platform {
+  if (sourcePlatform) return sourcePlatform;
+  for (const message of messages) {
+    const platform = getMessagePlatform(message);
+    if (platform) return platform;
+  }
+  return 'messenger';
+}
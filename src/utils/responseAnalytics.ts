@@ -0,0 +1,156 @@
+import type { Message } from '../types/messenger';
+
+// Who starts conversations and how fast people answer. A thread is split into sessions
+// wherever nobody wrote for the inactivity gap; whoever writes first opens the session.
+// Within a session, a message from someone other than the previous sender is a reply to it,
+// which in group threads means replies to whoever spoke last. A second message after the
+// sender's own, once the double-text gap has passed without an answer, is a double text.
+// Group notices are left out.
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const DEFAULT_SESSION_GAP_MS = 6 * HOUR_MS;
+export const DEFAULT_DOUBLE_TEXT_GAP_MS = 20 * MINUTE_MS;
+
+export interface ResponseAnalyticsOptions {
+  sessionGapMs?: number;
+  doubleTextGapMs?: number;
+}
+
+export interface ParticipantResponses {
+  name: string;
+  messages: number;
+  sessionsStarted: number;
+  replies: number;
+  medianReplyMs?: number;
+  p90ReplyMs?: number;
+  doubleTexts: number;
+  doubleTextRate: number; // Double texts per turn (run of consecutive messages)
+}
+
+export interface YearResponses {
+  year: number;
+  sessions: number;
+  participants: ParticipantResponses[];
+}
+
+export interface ResponseAnalytics {
+  sessions: number;
+  participants: ParticipantResponses[]; // Most active first
+  years: YearResponses[]; // Oldest first, participants in the same order as above
+}
+
+interface Tally {
+  messages: number;
+  sessionsStarted: number;
+  turns: number;
+  doubleTexts: number;
+  replyTimes: number[];
+}
+
+const newTally = (): Tally => ({
+  messages: 0,
+  sessionsStarted: 0,
+  turns: 0,
+  doubleTexts: 0,
+  replyTimes: [],
+});
+
+/**
+ * The value below which the given share of sorted values falls, interpolating between
+ * neighbours. Undefined for no values.
+ */
+export function percentile(sorted: number[], share: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const summarize = (name: string, tally: Tally = newTally()): ParticipantResponses => {
+  const replyTimes = [...tally.replyTimes].sort((a, b) => a - b);
+  return {
+    name,
+    messages: tally.messages,
+    sessionsStarted: tally.sessionsStarted,
+    replies: replyTimes.length,
+    medianReplyMs: percentile(replyTimes, 0.5),
+    p90ReplyMs: percentile(replyTimes, 0.9),
+    doubleTexts: tally.doubleTexts,
+    doubleTextRate: tally.turns > 0 ? tally.doubleTexts / tally.turns : 0,
+  };
+};
+
+/**
+ * Session, reply and double-text figures of a thread, overall and per year, from its
+ * messages in chronological order.
+ */
+export function computeResponseAnalytics(
+  messages: Message[],
+  {
+    sessionGapMs = DEFAULT_SESSION_GAP_MS,
+    doubleTextGapMs = DEFAULT_DOUBLE_TEXT_GAP_MS,
+  }: ResponseAnalyticsOptions = {},
+): ResponseAnalytics {
+  const overall = new Map<string, Tally>();
+  const byYear = new Map<number, { sessions: number; tallies: Map<string, Tally> }>();
+  let sessions = 0;
+  let previous: Message | undefined;
+
+  for (const message of messages) {
+    if (message.system_event) continue;
+
+    const year = new Date(message.timestamp_ms).getFullYear();
+    let yearEntry = byYear.get(year);
+    if (!yearEntry) {
+      yearEntry = { sessions: 0, tallies: new Map() };
+      byYear.set(year, yearEntry);
+    }
+    const yearTallies = yearEntry.tallies;
+    const sender = message.sender_name;
+    // Every figure is counted both overall and for the message's year
+    const tallies = [overall, yearTallies].map((map) => {
+      let tally = map.get(sender);
+      if (!tally) {
+        tally = newTally();
+        map.set(sender, tally);
+      }
+      return tally;
+    });
+
+    const gap = previous ? message.timestamp_ms - previous.timestamp_ms : Infinity;
+    const startsSession = gap >= sessionGapMs;
+    const sameSender = !startsSession && previous?.sender_name === sender;
+
+    if (startsSession) {
+      sessions++;
+      yearEntry.sessions++;
+    }
+    for (const tally of tallies) {
+      tally.messages++;
+      if (startsSession) tally.sessionsStarted++;
+      if (!sameSender) tally.turns++;
+      if (!startsSession && !sameSender) tally.replyTimes.push(gap);
+      if (sameSender && gap >= doubleTextGapMs) tally.doubleTexts++;
+    }
+    previous = message;
+  }
+
+  const participants = [...overall]
+    .map(([name, tally]) => summarize(name, tally))
+    .sort((a, b) => b.messages - a.messages);
+
+  return {
+    sessions,
+    participants,
+    years: [...byYear]
+      .sort(([a], [b]) => a - b)
+      .map(([year, { sessions: yearSessions, tallies }]) => ({
+        year,
+        sessions: yearSessions,
+        participants: participants.map(({ name }) => summarize(name, tallies.get(name))),
+      })),
+  };
+}
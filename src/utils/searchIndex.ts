@@ -0,0 +1,101 @@
+import { Index, Charset } from 'flexsearch';
+import type { Message } from '../types/messenger';
+import type { SearchHit } from '../types/search';
+
+interface IndexedMessage {
+  threadIndex: number;
+  messageIndex: number;
+  sender_name: string;
+  timestamp_ms: number;
+  content: string;
+}
+
+export const DEFAULT_RESULT_LIMIT = 500;
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Lowercases text and strips diacritics one UTF-16 unit at a time, so offsets in the
+ * folded string still point at the same characters in the original (needed for snippets).
+ * "ł" has no Unicode decomposition, so it is mapped explicitly for Polish.
+ */
+export function foldText(text: string): string {
+  return text.toLowerCase().replace(/[^\x20-\x7e]/g, (char) => {
+    if (char === 'ł') return 'l';
+    const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return folded.length === 1 ? folded : char;
+  });
+}
+
+export function buildSnippet(content: string, query: string): string {
+  const foldedContent = foldText(content);
+  const terms = foldText(query).split(/\s+/).filter(Boolean);
+
+  let matchIndex = -1;
+  for (const term of terms) {
+    matchIndex = foldedContent.indexOf(term);
+    if (matchIndex !== -1) break;
+  }
+
+  if (matchIndex === -1 || content.length <= SNIPPET_RADIUS * 2) {
+    return content.length > SNIPPET_RADIUS * 2
+      ? `${content.substring(0, SNIPPET_RADIUS * 2)}…`
+      : content;
+  }
+
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(content.length, matchIndex + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.substring(start, end)}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text index over the messages of many threads. Only the text of each message is
+ * indexed; unsent and empty messages are left out.
+ */
+export function createSearchIndex() {
+  const index = new Index({ tokenize: 'forward', encoder: Charset.LatinBalance });
+  const documents: IndexedMessage[] = [];
+  const threadIds: string[] = [];
+  const threadTitles: string[] = [];
+
+  return {
+    get messageCount() {
+      return documents.length;
+    },
+
+    addThread(threadId: string, title: string, messages: Message[]) {
+      const threadIndex = threadIds.length;
+      threadIds.push(threadId);
+      threadTitles.push(title);
+
+      messages.forEach((message, messageIndex) => {
+        if (!message.content || message.is_unsent) return;
+        const documentId = documents.length;
+        documents.push({
+          threadIndex,
+          messageIndex,
+          sender_name: message.sender_name,
+          timestamp_ms: message.timestamp_ms,
+          content: message.content,
+        });
+        index.add(documentId, foldText(message.content));
+      });
+    },
+
+    search(query: string, limit = DEFAULT_RESULT_LIMIT): SearchHit[] {
+      const ids = index.search(foldText(query), { limit });
+      return ids.map((id) => {
+        const doc = documents[id as number];
+        return {
+          threadId: threadIds[doc.threadIndex],
+          threadTitle: threadTitles[doc.threadIndex],
+          sender_name: doc.sender_name,
+          timestamp_ms: doc.timestamp_ms,
+          messageIndex: doc.messageIndex,
+          snippet: buildSnippet(doc.content, query),
+        };
+      });
+    },
+  };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
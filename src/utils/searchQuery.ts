@@ -0,0 +1,348 @@
+import type { Message } from '../types/messenger';
+
+/**
+ * Structured search query language for messages.
+ *
+ * Supported syntax:
+ *  - plain words and "quoted exact phrases"
+ *  - from:anna, from:"Anna Kowalska"
+ *  - before:2020, after:2019-05, on:2019-05-12 (before is exclusive, after/on are inclusive)
+ *  - has:photo|video|audio|gif|sticker|file|link|call
+ *  - is:unsent
+ *  - reacted:❤ (reacted: with no value matches any reaction)
+ *  - AND (implicit between terms), OR, NOT or a leading "-", and (parentheses)
+ */
+
+export type FilterField = 'from' | 'before' | 'after' | 'on' | 'has' | 'is' | 'reacted';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; value: string; exact: boolean }
+  | { type: 'filter'; field: FilterField; value: string };
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { kind: 'word' | 'phrase'; value: string }
+  | { kind: 'filter'; field: FilterField; value: string };
+
+const FILTER_FIELDS: FilterField[] = ['from', 'before', 'after', 'on', 'has', 'is', 'reacted'];
+
+const HAS_ALIASES: Record<string, string> = {
+  photo: 'photo',
+  photos: 'photo',
+  image: 'photo',
+  images: 'photo',
+  video: 'video',
+  videos: 'video',
+  audio: 'audio',
+  gif: 'gif',
+  gifs: 'gif',
+  sticker: 'sticker',
+  stickers: 'sticker',
+  file: 'file',
+  files: 'file',
+  attachment: 'file',
+  link: 'link',
+  links: 'link',
+  url: 'link',
+  call: 'call',
+  calls: 'call',
+};
+
+const LINK_PATTERN = /https?:\/\/\S+/i;
+
+// Reaction emoji are compared without variation selectors so "❤" matches "❤️"
+const normalizeEmoji = (text: string) => text.replace(/\uFE0F/g, '');
+
+/**
+ * Parses YYYY, YYYY-MM or YYYY-MM-DD (also with "/" or ".") into a local-time range.
+ */
+export function parseDateRange(value: string): { start: number; end: number } | null {
+  const match = value.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  if (month !== undefined && (month < 0 || month > 11)) return null;
+
+  if (month === undefined) {
+    return { start: new Date(year, 0, 1).getTime(), end: new Date(year + 1, 0, 1).getTime() };
+  }
+  if (day === undefined) {
+    return {
+      start: new Date(year, month, 1).getTime(),
+      end: new Date(year, month + 1, 1).getTime(),
+    };
+  }
+  // Day 0 of the next month is the last day of this one, so "2024-02-31" doesn't roll over
+  if (day < 1 || day > new Date(year, month + 1, 0).getDate()) return null;
+  return {
+    start: new Date(year, month, day).getTime(),
+    end: new Date(year, month, day + 1).getTime(),
+  };
+}
+
+function isValidFilter(field: FilterField, value: string): boolean {
+  switch (field) {
+    case 'before':
+    case 'after':
+    case 'on':
+      return parseDateRange(value) !== null;
+    case 'has':
+      return value.toLowerCase() in HAS_ALIASES;
+    case 'is':
+      return value.toLowerCase() === 'unsent';
+    case 'from':
+      return value.length > 0;
+    case 'reacted':
+      return true;
+  }
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = () => {
+    // i points at the opening quote; an unterminated quote runs to the end of the query
+    const closing = query.indexOf('"', i + 1);
+    const end = closing === -1 ? query.length : closing;
+    const value = query.substring(i + 1, end);
+    i = closing === -1 ? query.length : closing + 1;
+    return value;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'rparen' });
+      i++;
+    } else if (char === '"') {
+      const value = readQuoted();
+      if (value.trim()) tokens.push({ kind: 'phrase', value });
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      let word = '';
+      while (i < query.length && !/[\s()"]/.test(query[i])) {
+        word += query[i];
+        i++;
+      }
+
+      const colonIndex = word.indexOf(':');
+      const field = word.substring(0, colonIndex).toLowerCase() as FilterField;
+      if (colonIndex > 0 && FILTER_FIELDS.includes(field)) {
+        let value = word.substring(colonIndex + 1);
+        // Support quoted filter values, e.g. from:"Anna Kowalska"
+        if (!value && query[i] === '"') {
+          value = readQuoted();
+        }
+        if (isValidFilter(field, value)) {
+          tokens.push({ kind: 'filter', field, value });
+          continue;
+        }
+      }
+
+      if (word === 'AND') tokens.push({ kind: 'and' });
+      else if (word === 'OR') tokens.push({ kind: 'or' });
+      else if (word === 'NOT') tokens.push({ kind: 'not' });
+      else tokens.push({ kind: 'word', value: word });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a query string into an AST. Returns null for an empty query.
+ * The parser never throws: stray operators and unbalanced parentheses are ignored.
+ */
+export function parseSearchQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null => {
+    if (children.length === 0) return null;
+    if (children.length === 1) return children[0];
+    return { type, children };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++];
+    if (!token) return null;
+
+    switch (token.kind) {
+      case 'not': {
+        const child = parseUnary();
+        return child ? { type: 'not', child } : null;
+      }
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.kind === 'rparen') position++;
+        return node;
+      }
+      case 'phrase':
+        return { type: 'term', value: token.value, exact: true };
+      case 'word':
+        return { type: 'term', value: token.value, exact: false };
+      case 'filter':
+        return { type: 'filter', field: token.field, value: token.value };
+      default:
+        return null;
+    }
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (position < tokens.length) {
+      const token = peek();
+      if (token.kind === 'rparen' || token.kind === 'or') break;
+      if (token.kind === 'and') {
+        position++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return combine('and', children);
+  };
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (peek()?.kind === 'or') {
+      position++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    return combine('or', children);
+  };
+
+  let root = parseOr();
+  // Skip any unmatched closing parentheses and keep parsing the rest as AND-ed terms
+  while (position < tokens.length) {
+    position++;
+    const rest = parseOr();
+    if (rest) root = root ? combine('and', [root, rest]) : rest;
+  }
+  return root;
+}
+
+/**
+ * True when the query only contains plain words, so the fuzzy matcher can be used instead.
+ */
+export function isPlainQuery(node: QueryNode | null): boolean {
+  if (!node) return false;
+  if (node.type === 'term') return !node.exact;
+  if (node.type === 'and') return node.children.every(isPlainQuery);
+  return false;
+}
+
+function hasAttachment(message: Message, kind: string): boolean {
+  switch (kind) {
+    case 'photo':
+      return Boolean(message.photos?.length);
+    case 'video':
+      return Boolean(message.videos?.length);
+    case 'audio':
+      return Boolean(message.audio_files?.length);
+    case 'gif':
+      return Boolean(message.gifs?.length);
+    case 'sticker':
+      return Boolean(message.sticker);
+    case 'file':
+      return Boolean(message.files?.length);
+    case 'link':
+      return Boolean(message.content && LINK_PATTERN.test(message.content));
+    case 'call':
+      return message.call_duration != null;
+    default:
+      return false;
+  }
+}
+
+function matchesFilter(message: Message, field: FilterField, value: string): boolean {
+  switch (field) {
+    case 'from':
+      return message.sender_name.toLowerCase().includes(value.toLowerCase());
+    case 'before': {
+      const range = parseDateRange(value);
+      return range !== null && message.timestamp_ms < range.start;
+    }
+    case 'after': {
+      const range = parseDateRange(value);
+      return range !== null && message.timestamp_ms >= range.start;
+    }
+    case 'on': {
+      const range = parseDateRange(value);
+      return (
+        range !== null && message.timestamp_ms >= range.start && message.timestamp_ms < range.end
+      );
+    }
+    case 'has':
+      return hasAttachment(message, HAS_ALIASES[value.toLowerCase()]);
+    case 'is':
+      return Boolean(message.is_unsent);
+    case 'reacted': {
+      if (!message.reactions?.length) return false;
+      if (!value) return true;
+      const emoji = normalizeEmoji(value);
+      return message.reactions.some((r) => normalizeEmoji(r.reaction).includes(emoji));
+    }
+  }
+}
+
+/**
+ * Evaluates a parsed query against a single message.
+ */
+export function matchesQuery(message: Message, node: QueryNode): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesQuery(message, child));
+    case 'or':
+      return node.children.some((child) => matchesQuery(message, child));
+    case 'not':
+      return !matchesQuery(message, node.child);
+    case 'filter':
+      return matchesFilter(message, node.field, node.value);
+    case 'term': {
+      const needle = node.value.toLowerCase();
+      const content = message.content?.toLowerCase() || '';
+      if (node.exact) return content.includes(needle);
+      return content.includes(needle) || message.sender_name.toLowerCase().includes(needle);
+    }
+  }
+}
+
+/**
+ * Returns the text fragments that should be highlighted in matching messages.
+ * Plain queries are highlighted as a whole, like before the query language existed.
+ */
+export function getHighlightTerms(query: string): string[] {
+  const node = parseSearchQuery(query);
+  if (!node) return [];
+  if (isPlainQuery(node)) return [query.trim()];
+
+  const terms: string[] = [];
+  const collect = (current: QueryNode) => {
+    if (current.type === 'term') terms.push(current.value);
+    else if (current.type === 'and' || current.type === 'or') current.children.forEach(collect);
+    // Terms under NOT never appear in results, and filters have no text to highlight
+  };
+  collect(node);
+  return terms;
+}
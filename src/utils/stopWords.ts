@@ -0,0 +1,72 @@
+import { logger } from './logger';
+
+// Words left out of the word and phrase frequencies. Polish chats are often typed without
+// diacritics, so the lists carry both spellings ("się" and "sie").
+
+export const STOP_WORD_LANGUAGES = ['en', 'pl'] as const;
+
+export type StopWordLanguage = (typeof STOP_WORD_LANGUAGES)[number];
+
+export const STOP_WORD_LANGUAGE_LABELS: Record<StopWordLanguage, string> = {
+  en: 'English',
+  pl: 'Polish',
+};
+
+// Space-separated to keep the lists compact
+const STOP_WORD_LISTS: Record<StopWordLanguage, string> = {
+  en: `
+    a about after again all also am an and any are as at be because been before being but by
+    can could did do does doing don't dont for from get got had has have he her here him his
+    how i i'm im if in into is it it's its just me my no not now of oh ok on one or our out so
+    some that that's the their them then there they this to too up us was we were what when
+    where which who why will with would yeah yes you you're your
+  `,
+  pl: `
+    a aby ale bardzo bo by być byc był byl była byla było bylo chyba co czy dla do gdy go i ich
+    ja jak jakby jakiś jakis jest jestem jeszcze jej jego już juz każdy kazdy kiedy kto która
+    ktora które ktore który ktory lub ma mam mi mnie może moze mój moj na nad nas nic nie no o
+    od on ona one oni ono po pod przez przy sie się są sa ta tak tam te tego tej ten też tez to
+    tu tylko tym u w we więc wiec wszystko z za ze że żeby zeby
+  `,
+};
+
+export const STOP_WORDS = Object.fromEntries(
+  Object.entries(STOP_WORD_LISTS).map(([language, list]) => [language, list.trim().split(/\s+/)]),
+) as Record<StopWordLanguage, string[]>;
+
+export interface StopWordSettings {
+  languages: StopWordLanguage[];
+  extraWords: string[]; // Lowercase, added to the languages' lists
+}
+
+const SETTINGS_KEY = 'stop_word_settings';
+
+export const DEFAULT_STOP_WORD_SETTINGS: StopWordSettings = {
+  languages: [...STOP_WORD_LANGUAGES],
+  extraWords: [],
+};
+
+export function loadStopWordSettings(): StopWordSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_STOP_WORD_SETTINGS;
+    const parsed = JSON.parse(saved) as Partial<StopWordSettings>;
+    return {
+      languages: (parsed.languages ?? []).filter((language) =>
+        (STOP_WORD_LANGUAGES as readonly string[]).includes(language),
+      ),
+      extraWords: parsed.extraWords ?? [],
+    };
+  } catch (error) {
+    logger.debug('STOP_WORD_SETTINGS_ERROR', error);
+    return DEFAULT_STOP_WORD_SETTINGS;
+  }
+}
+
+export function saveStopWordSettings(settings: StopWordSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function getStopWords({ languages, extraWords }: StopWordSettings): Set<string> {
+  return new Set([...languages.flatMap((language) => STOP_WORDS[language]), ...extraWords]);
+}
@@ -0,0 +1,173 @@
+import type { Message, SystemEvent, SystemEventKind } from '../types/messenger';
+
+// Group chats record joins, renames, nicknames, polls and calls as messages from the person
+// who did it, with an English sentence as content ("Anna added Bob to the group.") and, for
+// joins and leaves, type "Subscribe" or "Unsubscribe". The account owner is "You" in them.
+// Telegram service messages are converted to the same sentences.
+
+const EVENT_PATTERNS: [SystemEventKind, RegExp][] = [
+  ['member_added', /^(?<actor>.+?) added (?<targets>.+) to the group\.?$/],
+  ['member_removed', /^(?<actor>.+?) removed (?<targets>.+) from the group\.?$/],
+  ['member_left', /^(?<actor>.+?) left the group\.?$/],
+  ['member_joined', /^(?<actor>.+?) joined the group(?: via invite link)?\.?$/],
+  ['group_created', /^(?<actor>.+?) created the group(?: (?<value>.+?))?\.?$/],
+  [
+    'group_renamed',
+    /^(?<actor>.+?) (?:named the group|changed the group name to) (?<value>.+?)\.?$/,
+  ],
+  ['group_photo_changed', /^(?<actor>.+?) changed the group photo\.?$/],
+  [
+    'nickname_set',
+    /^(?<actor>.+?) set (?:the nickname for (?<targets>.+?)|(?:his|her|their|your) own nickname) to (?<value>.+?)\.?$/,
+  ],
+  [
+    'nickname_set',
+    /^(?<actor>.+?) cleared (?:the nickname for (?<targets>.+?)|(?:his|her|their|your) own nickname)\.?$/,
+  ],
+  ['poll', /^(?<actor>.+?) created (?:a|the) poll:? (?<value>.+?)\.?$/],
+  ['poll', /^(?<actor>.+?) voted for "?(?<value>.+?)"? in the poll.*$/],
+  [
+    'call',
+    /^(?<actor>.+?) (?:started (?:sharing video|a video chat|a call|an audio call)|joined the (?:video chat|call))\.?$/,
+  ],
+  [
+    'chat_settings',
+    /^(?<actor>.+?) (?:changed the (?:chat )?theme to|(?:set|changed) the (?:emoji|quick reaction) to) (?<value>.+?)\.?$/,
+  ],
+  ['pinned', /^(?<actor>.+?) pinned a message\.?$/],
+];
+
+// Kinds shown on the group history panel
+export const GROUP_HISTORY_KINDS: SystemEventKind[] = [
+  'group_created',
+  'member_added',
+  'member_joined',
+  'member_removed',
+  'member_left',
+  'group_renamed',
+  'group_photo_changed',
+  'nickname_set',
+];
+
+/**
+ * Names of a list like "Anna, Tom and Jerry and Bob". Only the last " and " separates names,
+ * so names like "Tom and Jerry" stay whole anywhere but in the last two places.
+ */
+export function splitNames(names: string): string[] {
+  const parts = names.split(', ');
+  const last = parts.pop() ?? '';
+  const lastAnd = last.lastIndexOf(' and ');
+  if (lastAnd === -1) parts.push(last);
+  else parts.push(last.substring(0, lastAnd), last.substring(lastAnd + ' and '.length));
+  return parts.map((name) => name.trim()).filter(Boolean);
+}
+
+const hasAttachments = (m: Message) =>
+  Boolean(m.photos?.length || m.videos?.length || m.audio_files?.length || m.gifs?.length) ||
+  Boolean(m.files?.length || m.sticker || m.share);
+
+/**
+ * The group event a message records, or undefined for ordinary messages. A sentence only
+ * counts when its actor is the sender (or "You"), so messages that merely quote one aren't
+ * mistaken for events.
+ */
+export function classifySystemEvent(m: Message): SystemEvent | undefined {
+  if (hasAttachments(m)) return undefined;
+  const content = m.content?.trim();
+
+  if (content) {
+    for (const [kind, pattern] of EVENT_PATTERNS) {
+      const groups = content.match(pattern)?.groups;
+      if (!groups) continue;
+      if (groups.actor !== m.sender_name && groups.actor !== 'You') continue;
+
+      const event: SystemEvent = { kind, actor: m.sender_name };
+      if (groups.targets) event.targets = splitNames(groups.targets);
+      else if (kind === 'nickname_set') event.targets = [m.sender_name]; // Own nickname
+      if (groups.value) event.value = groups.value;
+      return event;
+    }
+  }
+
+  // Joins and leaves whose sentence is missing or in another language
+  if (m.type === 'Subscribe') return { kind: 'member_joined', actor: m.sender_name };
+  if (m.type === 'Unsubscribe') return { kind: 'member_left', actor: m.sender_name };
+  return undefined;
+}
+
+/**
+ * Marks the group events among parsed messages. Returns the same array when there are none.
+ */
+export function withSystemEvents(messages: Message[]): Message[] {
+  let changed = false;
+  const marked = messages.map((message) => {
+    const systemEvent = classifySystemEvent(message);
+    if (!systemEvent) return message;
+    changed = true;
+    return { ...message, system_event: systemEvent };
+  });
+  return changed ? marked : messages;
+}
+
+const joinNames = (names: string[] = []) =>
+  names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+
+/**
+ * A sentence for an event, used when its message has no content of its own.
+ */
+export function describeSystemEvent(event: SystemEvent): string {
+  const { actor, targets, value } = event;
+  switch (event.kind) {
+    case 'member_added':
+      return `${actor} added ${joinNames(targets)} to the group.`;
+    case 'member_removed':
+      return `${actor} removed ${joinNames(targets)} from the group.`;
+    case 'member_left':
+      return `${actor} left the group.`;
+    case 'member_joined':
+      return `${actor} joined the group.`;
+    case 'group_created':
+      return value ? `${actor} created the group ${value}.` : `${actor} created the group.`;
+    case 'group_renamed':
+      return `${actor} named the group ${value}.`;
+    case 'group_photo_changed':
+      return `${actor} changed the group photo.`;
+    case 'nickname_set':
+      return value
+        ? `${actor} set the nickname for ${joinNames(targets)} to ${value}.`
+        : `${actor} cleared the nickname for ${joinNames(targets)}.`;
+    case 'poll':
+      return `${actor} created a poll: ${value}`;
+    case 'call':
+      return `${actor} started a call.`;
+    case 'chat_settings':
+      return `${actor} changed the chat settings.`;
+    case 'pinned':
+      return `${actor} pinned a message.`;
+  }
+}
+
+export interface GroupHistoryEntry {
+  index: number; // Position of the event's message in the thread
+  timestamp_ms: number;
+  event: SystemEvent;
+  text: string;
+}
+
+/**
+ * Membership and name changes of a thread, oldest first.
+ */
+export function getGroupHistory(messages: Message[]): GroupHistoryEntry[] {
+  const entries: GroupHistoryEntry[] = [];
+  messages.forEach((message, index) => {
+    const event = message.system_event;
+    if (!event || !GROUP_HISTORY_KINDS.includes(event.kind)) return;
+    entries.push({
+      index,
+      timestamp_ms: message.timestamp_ms,
+      event,
+      text: message.content || describeSystemEvent(event),
+    });
+  });
+  return entries;
+}
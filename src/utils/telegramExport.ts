@@ -0,0 +1,233 @@
+import oboe, { type OboeInstance } from 'oboe';
+import type { ArchiveDirectoryHandle, ArchiveFileHandle } from '../types/archive';
+import { streamJsonFile } from './jsonStream';
+import { logger } from './logger';
+import { nestDirectory, notFound, renameDirectory } from './virtualDirectory';
+
+// Telegram Desktop exports everything into one "result.json": either a single chat
+// ({ name, type, id, messages }, from "Export chat history") or a whole account
+// ({ chats: { list: [...] }, left_chats: { list: [...] }, ... }). Media paths in messages are
+// relative to the folder holding result.json.
+
+export const TELEGRAM_EXPORT_FILE = 'result.json';
+
+export const isTelegramExportFile = (name: string) => name === TELEGRAM_EXPORT_FILE;
+
+// Chats of a whole-account export, and their message streams
+const TELEGRAM_CHATS = ['!.chats.list.*', '!.left_chats.list.*'];
+const TELEGRAM_CHAT_MESSAGES = TELEGRAM_CHATS.map((pattern) => `${pattern}.messages.*`);
+
+export interface TelegramChatInfo {
+  id?: number | string;
+  name?: string | null;
+  type?: string;
+}
+
+export interface TelegramChatSummary {
+  id: string;
+  name: string;
+  type?: string;
+  messageCount: number;
+  lastMessageTime: number;
+  participants: string[];
+}
+
+// Registered for every chat folder handed out, so the conversation list can show a chat
+// without converting it
+const chatSummaries = new WeakMap<ArchiveDirectoryHandle, () => Promise<TelegramChatSummary>>();
+
+// Oboe hands nodes over untyped. Chats and messages are objects in any export; anything else
+// is read as an empty one.
+const asTelegramNode = <T extends object>(node: unknown): Partial<T> =>
+  typeof node === 'object' && node !== null ? (node as Partial<T>) : {};
+
+export const getTelegramChatName = (chat: TelegramChatInfo) =>
+  chat.name || (chat.type === 'saved_messages' ? 'Saved Messages' : 'Deleted Account');
+
+/**
+ * Milliseconds since the epoch from "date_unixtime" (seconds, as a string) or, in exports
+ * from before it was added, the local "date".
+ */
+export function getTelegramTimestamp(message: { date?: string; date_unixtime?: string }) {
+  if (message.date_unixtime) return Number(message.date_unixtime) * 1000;
+  return message.date ? Date.parse(message.date) : 0;
+}
+
+/**
+ * Folder name of a listed chat, e.g. "annakowalska_123456". The id at the end lets the chat be
+ * found again without listing the export.
+ */
+export function getTelegramChatFolder(chat: TelegramChatSummary): string {
+  const slug = getTelegramChatName(chat)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '');
+  return `${slug || 'chat'}_${chat.id}`;
+}
+
+/**
+ * Calls `onMessage` for every message of result.json, whether it holds one chat or a whole
+ * account, with the id of the chat it belongs to. Chats without an id are told apart by their
+ * position in the export. `onChatEnd` is called once all messages of a chat have been read;
+ * a single chat export just ends.
+ */
+export function onTelegramMessages(
+  parser: OboeInstance,
+  onMessage: (chatId: string, chat: TelegramChatInfo, message: unknown) => void,
+  onChatEnd?: (chatId: string) => void,
+) {
+  let chatIndex = 0;
+  const getChatId = (chat: TelegramChatInfo) => String(chat.id ?? chatIndex);
+
+  // The chat's name, type and id come before its messages, so the chat object is filled in.
+  // Ancestors run from the root to the message itself.
+  parser.node('!.messages.*', (message, _path, ancestors) => {
+    const chat = asTelegramNode<TelegramChatInfo>(ancestors[0]);
+    onMessage(getChatId(chat), chat, message);
+    return oboe.drop;
+  });
+  for (const pattern of TELEGRAM_CHAT_MESSAGES) {
+    parser.node(pattern, (message, _path, ancestors) => {
+      const chat = asTelegramNode<TelegramChatInfo>(ancestors[ancestors.length - 3]);
+      onMessage(getChatId(chat), chat, message);
+      return oboe.drop;
+    });
+  }
+  for (const pattern of TELEGRAM_CHATS) {
+    parser.node(pattern, (chat) => {
+      onChatEnd?.(getChatId(asTelegramNode<TelegramChatInfo>(chat)));
+      chatIndex++;
+      return oboe.drop;
+    });
+  }
+}
+
+export const getTelegramChatId = (folderName: string) => folderName.match(/_(-?\d+)$/)?.[1];
+
+/**
+ * Lists the chats of an export with their message counts, senders and last message time.
+ * Messages are counted as the file streams past and dropped right away.
+ */
+export async function listTelegramChats(file: File): Promise<TelegramChatSummary[]> {
+  const chats = new Map<string, TelegramChatSummary & { senders: Set<string> }>();
+
+  const countMessage = (id: string, chat: TelegramChatInfo, messageNode: unknown) => {
+    const message = asTelegramNode<{
+      date: string;
+      date_unixtime: string;
+      from: unknown;
+      actor: unknown;
+    }>(messageNode);
+    let summary = chats.get(id);
+    if (!summary) {
+      summary = {
+        id,
+        name: getTelegramChatName(chat),
+        type: chat.type,
+        messageCount: 0,
+        lastMessageTime: 0,
+        participants: [],
+        senders: new Set(),
+      };
+      chats.set(id, summary);
+    }
+    summary.messageCount++;
+    summary.lastMessageTime = Math.max(summary.lastMessageTime, getTelegramTimestamp(message));
+    const sender = message.from ?? message.actor;
+    if (typeof sender === 'string') summary.senders.add(sender);
+  };
+
+  await streamJsonFile(file, (parser) => onTelegramMessages(parser, countMessage));
+
+  logger.debug('TELEGRAM_CHATS_LISTED', { chats: chats.size });
+  return [...chats.values()].map(({ senders, ...summary }) => ({
+    ...summary,
+    participants: [...senders],
+  }));
+}
+
+/**
+ * Summary of a chat folder from a Telegram export, or undefined for other folders.
+ */
+export function getTelegramChatSummary(
+  threadHandle: ArchiveDirectoryHandle,
+): Promise<TelegramChatSummary> | undefined {
+  return chatSummaries.get(threadHandle)?.();
+}
+
+async function findExportFolder(root: ArchiveDirectoryHandle) {
+  const hasExportFile = async (folder: ArchiveDirectoryHandle) => {
+    try {
+      await folder.getFileHandle(TELEGRAM_EXPORT_FILE);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await hasExportFile(root)) return root;
+  // Unzipped exports may sit in one more folder
+  for await (const entry of root.values()) {
+    if (entry.kind === 'directory' && (await hasExportFile(entry as ArchiveDirectoryHandle))) {
+      return entry as ArchiveDirectoryHandle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Presents a Telegram Desktop export as a messages folder with one "inbox/<chat>_<id>" folder
+ * per chat. Each chat folder shows the export folder itself, so result.json and the media
+ * paths of its messages resolve from there. Chats are only listed (which reads all of
+ * result.json) when the inbox is browsed.
+ */
+export async function openTelegramExport(
+  root: ArchiveDirectoryHandle,
+): Promise<ArchiveDirectoryHandle | null> {
+  const exportFolder = await findExportFolder(root);
+  if (!exportFolder) return null;
+
+  let chats: Promise<TelegramChatSummary[]> | null = null;
+  const listChats = () => {
+    chats ??= exportFolder
+      .getFileHandle(TELEGRAM_EXPORT_FILE)
+      .then((handle: ArchiveFileHandle) => handle.getFile())
+      .then(listTelegramChats);
+    return chats;
+  };
+
+  const chatFolders = new Map<string, ArchiveDirectoryHandle>();
+  const getChatFolder = (name: string) => {
+    const id = getTelegramChatId(name);
+    if (!id) throw notFound(name);
+    let folder = chatFolders.get(name);
+    if (!folder) {
+      folder = renameDirectory(exportFolder, name);
+      chatFolders.set(name, folder);
+      chatSummaries.set(folder, async () => {
+        const summary = (await listChats()).find((chat) => chat.id === id);
+        if (!summary) throw notFound(name);
+        return summary;
+      });
+    }
+    return folder;
+  };
+
+  const inbox: ArchiveDirectoryHandle = {
+    kind: 'directory',
+    name: 'inbox',
+    async getDirectoryHandle(name) {
+      return getChatFolder(name);
+    },
+    async getFileHandle(name) {
+      throw notFound(name);
+    },
+    async *values() {
+      for (const chat of await listChats()) {
+        yield getChatFolder(getTelegramChatFolder(chat));
+      }
+    },
+  };
+
+  logger.debug('TELEGRAM_EXPORT_OPENED', { folder: exportFolder.name });
+  return nestDirectory('messages', inbox);
+}
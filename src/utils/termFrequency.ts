@@ -0,0 +1,162 @@
+import type { TermAnalysis, TermCount, TermFrequencies, TermMessage } from '../types/terms';
+import { getStopWords, type StopWordSettings } from './stopWords';
+
+// Word, phrase, emoji and reaction counts of a thread, per participant and per year. Runs in
+// terms.worker.ts; message content has already had its encoding fixed by the parser, so
+// Polish words arrive with their diacritics intact.
+
+export const TOP_TERMS = 50;
+
+const URL_PATTERN = /https?:\/\/\S+|www\.\S+/gi;
+// Letters and digits, keeping apostrophes inside words ("don't")
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+// An emoji with its skin tone and zero-width-joined parts ("👍🏽", "👩‍💻")
+const EMOJI_PATTERN =
+  /\p{Extended_Pictographic}(?:️|[\u{1F3FB}-\u{1F3FF}]|‍\p{Extended_Pictographic}️?)*/gu;
+
+const ALL = '*';
+
+/**
+ * Key of the frequencies of a participant and year in TermAnalysis; undefined for everyone
+ * or every year.
+ */
+export const getTermKey = (participant?: string, year?: number) =>
+  `${participant ?? ALL}|${year ?? ALL}`;
+
+// Variation selectors are dropped so "❤" and "❤️" count as one
+const normalizeEmoji = (emoji: string) => emoji.replace(/️/g, '');
+
+export function tokenizeWords(text: string): string[] {
+  const words = text.replace(URL_PATTERN, ' ').toLowerCase().match(WORD_PATTERN) ?? [];
+  return words
+    .map((word) => word.replace(/’/g, "'"))
+    .filter((word) => word.length > 1 && !/^\d+$/.test(word));
+}
+
+export function extractEmoji(text: string): string[] {
+  return (text.match(EMOJI_PATTERN) ?? []).map(normalizeEmoji);
+}
+
+interface TermCounts {
+  messageCount: number;
+  words: Map<string, number>;
+  bigrams: Map<string, number>;
+  emoji: Map<string, number>;
+  reactions: Map<string, number>;
+}
+
+const newCounts = (): TermCounts => ({
+  messageCount: 0,
+  words: new Map(),
+  bigrams: new Map(),
+  emoji: new Map(),
+  reactions: new Map(),
+});
+
+const addAll = (counts: Map<string, number>, terms: string[]) =>
+  terms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+const topTerms = (counts: Map<string, number>): TermCount[] =>
+  [...counts]
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, TOP_TERMS);
+
+/**
+ * Counts the terms of a thread's messages. Stop words are left out of the words, and
+ * phrases are pairs of neighbouring words where neither is a stop word.
+ */
+export function analyzeTerms(
+  messages: TermMessage[],
+  stopWordSettings: StopWordSettings,
+): TermAnalysis {
+  const stopWords = getStopWords(stopWordSettings);
+  const counts = new Map<string, TermCounts>();
+  const messageCounts = new Map<string, number>();
+  const years = new Set<number>();
+
+  // Each term is counted for the person and year, the person overall, the year overall
+  // and the whole thread
+  const countsFor = (participant: string, year: number) =>
+    [
+      getTermKey(participant, year),
+      getTermKey(participant),
+      getTermKey(undefined, year),
+      getTermKey(),
+    ].map((key) => {
+      let entry = counts.get(key);
+      if (!entry) {
+        entry = newCounts();
+        counts.set(key, entry);
+      }
+      return entry;
+    });
+
+  for (const message of messages) {
+    if (message.system_event || message.is_unsent) continue;
+    const year = new Date(message.timestamp_ms).getFullYear();
+    years.add(year);
+
+    if (message.content) {
+      const tokens = tokenizeWords(message.content);
+      const words = tokens.filter((word) => !stopWords.has(word));
+      const bigrams: string[] = [];
+      for (let i = 1; i < tokens.length; i++) {
+        if (!stopWords.has(tokens[i - 1]) && !stopWords.has(tokens[i])) {
+          bigrams.push(`${tokens[i - 1]} ${tokens[i]}`);
+        }
+      }
+      const emoji = extractEmoji(message.content);
+
+      messageCounts.set(message.sender_name, (messageCounts.get(message.sender_name) ?? 0) + 1);
+      for (const entry of countsFor(message.sender_name, year)) {
+        entry.messageCount++;
+        addAll(entry.words, words);
+        addAll(entry.bigrams, bigrams);
+        addAll(entry.emoji, emoji);
+      }
+    }
+
+    for (const reaction of message.reactions ?? []) {
+      for (const entry of countsFor(reaction.actor, year)) {
+        addAll(entry.reactions, [normalizeEmoji(reaction.reaction)]);
+      }
+    }
+  }
+
+  const frequencies: Record<string, TermFrequencies> = {};
+  counts.forEach((entry, key) => {
+    frequencies[key] = {
+      messageCount: entry.messageCount,
+      words: topTerms(entry.words),
+      bigrams: topTerms(entry.bigrams),
+      emoji: topTerms(entry.emoji),
+      reactions: topTerms(entry.reactions),
+    };
+  });
+
+  return {
+    participants: [...messageCounts].sort((a, b) => b[1] - a[1]).map(([name]) => name),
+    years: [...years].sort((a, b) => a - b),
+    frequencies,
+  };
+}
+
+export type TermKind = 'word' | 'bigram' | 'emoji' | 'reaction';
+
+/**
+ * Search query (see searchQuery.ts) finding the messages behind a term, limited to the
+ * participant and year it was counted for. Reactions can't be filtered by who reacted, so
+ * only the year narrows them down.
+ */
+export function getTermQuery(
+  kind: TermKind,
+  term: string,
+  participant?: string,
+  year?: number,
+): string {
+  const parts = [kind === 'reaction' ? `reacted:${term}` : `"${term}"`];
+  if (participant && kind !== 'reaction') parts.push(`from:"${participant}"`);
+  if (year !== undefined) parts.push(`after:${year}`, `before:${year + 1}`);
+  return parts.join(' ');
+}
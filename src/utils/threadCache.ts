@@ -0,0 +1,155 @@
+import type { ParsedThread, ThreadMetadata } from '../types/messenger';
+import type { ThreadSummary } from '../types/dashboard';
+import type { ThreadMedia } from '../types/media';
+import type { ArchiveDirectoryHandle, ArchiveFileHandle } from '../types/archive';
+import { logger } from './logger';
+import { getFileMetadata } from './archiveSource';
+import { isHtmlMessageFile } from './facebookHtml';
+import { isTelegramExportFile } from './telegramExport';
+import { isWhatsAppChatFile } from './whatsappChat';
+import {
+  STORES,
+  clearStore,
+  countRecords,
+  getRecord,
+  putRecord,
+  type StoreName,
+} from './indexedDb';
+
+// Raised when parsed threads gain fields, so threads cached by an older version are parsed
+// again. 2: system events, 3: thread type, 4: invalid message files, 5: platform,
+// 6: Telegram replies and forwards, 7: shares, replies and edits of Messenger messages,
+// 8: re-encoded media URIs, 9: lines after WhatsApp notices, 10: names with "and" in them
+const CACHE_FORMAT = 10;
+
+interface CacheRecord<T> {
+  key: string; // thread path, e.g. "inbox/johndoe_123"
+  fingerprint: string;
+  format?: number; // CACHE_FORMAT when written; missing in the first format
+  cachedAt: number;
+  value: T;
+}
+
+export interface ThreadCacheStats {
+  threadCount: number;
+  metadataCount: number;
+  thumbnailCount: number;
+  // Bytes the browser reports for everything this site stores, not just the cache, when it
+  // can tell
+  siteUsageBytes?: number;
+}
+
+/**
+ * Describes the message files (or WhatsApp chat) of a thread folder by name, size and
+ * lastModified.
+ * Only metadata is read, never file contents, so this is cheap even for big threads.
+ * For merged exports every export's copy of the folder is described.
+ */
+export async function getThreadFingerprint(threadHandle: ArchiveDirectoryHandle): Promise<string> {
+  if (threadHandle.layers) {
+    const layerParts: string[] = [];
+    for (const { label, handle } of threadHandle.layers) {
+      layerParts.push(`${label}:${await getThreadFingerprint(handle)}`);
+    }
+    return layerParts.join('||');
+  }
+
+  const parts: string[] = [];
+  for await (const entry of threadHandle.values()) {
+    const isMessageFile =
+      (entry.name.startsWith('message_') && entry.name.endsWith('.json')) ||
+      isHtmlMessageFile(entry.name);
+    const isChatFile = isWhatsAppChatFile(entry.name) || isTelegramExportFile(entry.name);
+    if (entry.kind === 'file' && (isMessageFile || isChatFile)) {
+      const { size, lastModified } = await getFileMetadata(entry as ArchiveFileHandle);
+      parts.push(`${entry.name}:${size}:${lastModified}`);
+    }
+  }
+  return parts.sort().join('|');
+}
+
+async function readCache<T>(
+  store: StoreName,
+  threadId: string,
+  fingerprint: string,
+): Promise<T | undefined> {
+  try {
+    const record = await getRecord<CacheRecord<T>>(store, threadId);
+    // A different fingerprint means the export was replaced or re-downloaded
+    const isCurrent = record?.fingerprint === fingerprint && record.format === CACHE_FORMAT;
+    return isCurrent ? record.value : undefined;
+  } catch (error) {
+    logger.debug('CACHE_READ_ERROR', { store, threadId, error });
+    return undefined;
+  }
+}
+
+async function writeCache<T>(
+  store: StoreName,
+  threadId: string,
+  fingerprint: string,
+  value: T,
+): Promise<void> {
+  try {
+    await putRecord<CacheRecord<T>>(store, {
+      key: threadId,
+      fingerprint,
+      format: CACHE_FORMAT,
+      cachedAt: Date.now(),
+      value,
+    });
+  } catch (error) {
+    logger.debug('CACHE_WRITE_ERROR', { store, threadId, error });
+  }
+}
+
+export const getCachedThread = (threadId: string, fingerprint: string) =>
+  readCache<ParsedThread>(STORES.threads, threadId, fingerprint);
+
+export const cacheThread = (thread: ParsedThread, fingerprint: string) =>
+  writeCache(STORES.threads, thread.threadId, fingerprint, thread);
+
+export const getCachedThreadMetadata = (threadId: string, fingerprint: string) =>
+  readCache<ThreadMetadata>(STORES.threadMetadata, threadId, fingerprint);
+
+export const cacheThreadMetadata = (metadata: ThreadMetadata, fingerprint: string) =>
+  writeCache(STORES.threadMetadata, metadata.id, fingerprint, metadata);
+
+export const getCachedThreadSummary = (threadId: string, fingerprint: string) =>
+  readCache<ThreadSummary>(STORES.threadSummaries, threadId, fingerprint);
+
+export const cacheThreadSummary = (summary: ThreadSummary, fingerprint: string) =>
+  writeCache(STORES.threadSummaries, summary.threadId, fingerprint, summary);
+
+export const getCachedThreadMedia = (threadId: string, fingerprint: string) =>
+  readCache<ThreadMedia>(STORES.threadMedia, threadId, fingerprint);
+
+export const cacheThreadMedia = (media: ThreadMedia, fingerprint: string) =>
+  writeCache(STORES.threadMedia, media.threadId, fingerprint, media);
+
+export async function getThreadCacheStats(): Promise<ThreadCacheStats> {
+  const [threadCount, metadataCount, thumbnailCount] = await Promise.all([
+    countRecords(STORES.threads),
+    countRecords(STORES.threadMetadata),
+    countRecords(STORES.thumbnails),
+  ]);
+
+  let siteUsageBytes: number | undefined;
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    siteUsageBytes = estimate.usage;
+  }
+
+  return { threadCount, metadataCount, thumbnailCount, siteUsageBytes };
+}
+
+export async function clearThreadCache(): Promise<void> {
+  await Promise.all([
+    clearStore(STORES.threads),
+    clearStore(STORES.threadMetadata),
+    clearStore(STORES.threadSummaries),
+    clearStore(STORES.threadMedia),
+    clearStore(STORES.thumbnails),
+  ]);
+  logger.debug('THREAD_CACHE_CLEARED');
+}
@@ -0,0 +1,214 @@
+import { logger } from './logger';
+import oboe from 'oboe';
+import {
+  MessageSchema,
+  ParticipantSchema,
+  THREAD_FOLDERS,
+  type ThreadFolder,
+} from '../types/messenger';
+import type { ArchiveDirectoryHandle, ArchiveLayer } from '../types/archive';
+import { fixEncoding } from './encoding';
+import { streamJsonFile } from './jsonStream';
+import { mergeDirectories } from './virtualDirectory';
+import { getMessagePlatform, getThreadPlatform } from './platform';
+
+// Folders that sit next to conversations but only contain shared media
+const MEDIA_FOLDERS = ['photos', 'videos', 'gifs', 'audio', 'files'];
+
+export interface ThreadDirectory {
+  threadId: string;
+  handle: ArchiveDirectoryHandle;
+  folder?: ThreadFolder;
+}
+
+export const FOLDER_LABELS: Record<ThreadFolder, string> = {
+  inbox: 'Inbox',
+  e2ee_cutover: 'Encrypted',
+  archived_threads: 'Archived',
+  filtered_threads: 'Filtered',
+  message_requests: 'Message requests',
+};
+
+export const isThreadFolder = (name: string): name is ThreadFolder =>
+  (THREAD_FOLDERS as readonly string[]).includes(name);
+
+/**
+ * Returns the container folder a thread id starts with, e.g. "archived_threads".
+ */
+export function getThreadFolder(threadId: string): ThreadFolder | undefined {
+  const [firstPart] = threadId.split('/');
+  return threadId.includes('/') && isThreadFolder(firstPart) ? firstPart : undefined;
+}
+
+// Thread folders of a merged container, keyed by folder name, computed once per container
+const mergedThreadFolders = new WeakMap<
+  ArchiveDirectoryHandle,
+  Promise<Map<string, ArchiveDirectoryHandle>>
+>();
+
+const getLayerLabels = (handle: ArchiveDirectoryHandle) =>
+  (handle.layers ?? []).map((layer) => layer.label);
+
+/**
+ * Platform and sorted participant names from message_1.json, or null if they can't be read.
+ * Streams the file and stops once both are known: the participants come first, and messages
+ * are only read when the export doesn't tell the platform, until one gives it away.
+ */
+async function readParticipantsKey(threadHandle: ArchiveDirectoryHandle) {
+  try {
+    const file = await (await threadHandle.getFileHandle('message_1.json')).getFile();
+    let names: string[] | undefined;
+    let platform = threadHandle.layers?.[0]?.platform;
+
+    await streamJsonFile(file, (parser, stop) =>
+      parser
+        .node('!.participants', (participants) => {
+          const validated = ParticipantSchema.array().safeParse(participants);
+          names = validated.success ? validated.data.map((p) => fixEncoding(p.name)).sort() : [];
+          if (platform) stop();
+          return oboe.drop;
+        })
+        .node('!.messages.*', (rawMessage) => {
+          const validated = MessageSchema.safeParse(rawMessage);
+          if (validated.success) platform ??= getMessagePlatform(validated.data);
+          if (platform && names) stop();
+          return oboe.drop;
+        }),
+    );
+
+    // A lone participant (e.g. a deleted account) says nothing about who the thread is with
+    if (!names || names.length < 2) return null;
+    // Keeps a Messenger and an Instagram chat with the same people apart
+    return [getThreadPlatform([], platform), ...names].join('\u0000');
+  } catch (error) {
+    logger.debug('PARTICIPANTS_READ_ERROR', { thread: threadHandle.name, error });
+    return null;
+  }
+}
+
+/**
+ * Facebook sometimes renames a conversation folder between exports (e.g. "anna_123" and
+ * "anna_456"). Folders that never appear in the same export and have the same participants
+ * are merged under the name used by the earliest export.
+ */
+async function groupMergedThreadFolders(container: ArchiveDirectoryHandle) {
+  const labels = getLayerLabels(container);
+  const folders = new Map<string, ArchiveDirectoryHandle>();
+  const partial: ArchiveDirectoryHandle[] = [];
+
+  for await (const entry of container.values()) {
+    if (entry.kind !== 'directory') continue;
+    const handle = entry as ArchiveDirectoryHandle;
+    folders.set(handle.name, handle);
+    if (getLayerLabels(handle).length < labels.length) partial.push(handle);
+  }
+
+  const groups = new Map<string, ArchiveDirectoryHandle[][]>();
+  for (const handle of partial) {
+    const key = await readParticipantsKey(handle);
+    if (!key) continue;
+    const candidates = groups.get(key) ?? [];
+    const handleLabels = getLayerLabels(handle);
+    const group = candidates.find((members) =>
+      members.every((member) =>
+        getLayerLabels(member).every((label) => !handleLabels.includes(label)),
+      ),
+    );
+    if (group) group.push(handle);
+    else candidates.push([handle]);
+    groups.set(key, candidates);
+  }
+
+  for (const group of [...groups.values()].flat()) {
+    if (group.length < 2) continue;
+    const layers: ArchiveLayer[] = group
+      .flatMap((member) => member.layers ?? [])
+      .sort((a, b) => labels.indexOf(a.label) - labels.indexOf(b.label));
+    const [primary] = [...group].sort(
+      (a, b) => labels.indexOf(getLayerLabels(a)[0]) - labels.indexOf(getLayerLabels(b)[0]),
+    );
+    group.forEach((member) => folders.delete(member.name));
+    folders.set(primary.name, mergeDirectories(primary.name, layers));
+    logger.debug('RENAMED_THREADS_MERGED', {
+      folders: group.map((member) => member.name),
+      into: primary.name,
+    });
+  }
+
+  return folders;
+}
+
+// Thread folders in a container, with renamed folders merged when exports are merged
+async function getThreadFolders(container: ArchiveDirectoryHandle) {
+  if (!container.layers || container.layers.length < 2) {
+    const folders = new Map<string, ArchiveDirectoryHandle>();
+    for await (const entry of container.values()) {
+      if (entry.kind === 'directory') folders.set(entry.name, entry as ArchiveDirectoryHandle);
+    }
+    return folders;
+  }
+
+  let folders = mergedThreadFolders.get(container);
+  if (!folders) {
+    folders = groupMergedThreadFolders(container);
+    mergedThreadFolders.set(container, folders);
+  }
+  return folders;
+}
+
+/**
+ * Lists every conversation folder in the archive.
+ * Thread ids are paths relative to the messages folder, e.g. "inbox/johndoe_123".
+ */
+export async function listThreadDirectories(
+  directoryHandle: ArchiveDirectoryHandle,
+): Promise<ThreadDirectory[]> {
+  const threadDirectories: ThreadDirectory[] = [];
+
+  for (const container of THREAD_FOLDERS) {
+    try {
+      const containerHandle = await directoryHandle.getDirectoryHandle(container);
+      for (const [name, handle] of await getThreadFolders(containerHandle)) {
+        threadDirectories.push({ threadId: `${container}/${name}`, handle, folder: container });
+      }
+    } catch {
+      logger.debug('NO_THREAD_CONTAINER', { container });
+    }
+  }
+
+  // If no container folders found, treat every sub-folder of the current directory as a thread
+  if (threadDirectories.length === 0) {
+    for await (const entry of directoryHandle.values()) {
+      if (entry.kind === 'directory' && !MEDIA_FOLDERS.includes(entry.name)) {
+        threadDirectories.push({
+          threadId: entry.name,
+          handle: entry as ArchiveDirectoryHandle,
+        });
+      }
+    }
+  }
+
+  return threadDirectories;
+}
+
+/**
+ * Walks from the messages folder down to a thread folder by its thread id.
+ */
+export async function getThreadDirectory(
+  directoryHandle: ArchiveDirectoryHandle,
+  threadId: string,
+): Promise<ArchiveDirectoryHandle> {
+  const parts = threadId.split('/');
+  const threadName = parts.pop()!;
+  let currentHandle = directoryHandle;
+  for (const part of parts) {
+    currentHandle = await currentHandle.getDirectoryHandle(part);
+  }
+
+  if (currentHandle.layers && isThreadFolder(currentHandle.name)) {
+    const handle = (await getThreadFolders(currentHandle)).get(threadName);
+    if (!handle) throw new DOMException(`"${threadId}" was not found`, 'NotFoundError');
+    return handle;
+  }
+  return currentHandle.getDirectoryHandle(threadName);
+}
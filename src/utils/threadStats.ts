@@ -0,0 +1,149 @@
+import type { Message } from '../types/messenger';
+
+// Figures for the statistics page of a conversation. Group notices (system events) are
+// left out of the message counts, lengths and streaks; they still end silences.
+
+export interface ParticipantCount {
+  name: string;
+  count: number;
+}
+
+export interface MediaCounts {
+  photos: number;
+  videos: number;
+  audio: number;
+  gifs: number;
+  stickers: number;
+  files: number;
+  links: number;
+}
+
+export interface Silence {
+  start: number; // Timestamp of the message before the gap
+  end: number; // Timestamp of the message after it
+  durationMs: number;
+}
+
+export interface DayStreak {
+  start: string; // Local dates, "YYYY-MM-DD"
+  end: string;
+  days: number;
+}
+
+export interface ThreadStats {
+  messageCount: number;
+  messagesPerParticipant: ParticipantCount[];
+  media: MediaCounts;
+  averageLength: number; // Characters of text messages
+  longestSilences: Silence[];
+  longestStreak?: DayStreak;
+  busiestDay?: { date: string; count: number };
+  firstMessage?: Message;
+  lastMessage?: Message;
+  callCount: number;
+  totalCallSeconds: number; // call_duration is in seconds in the exports
+}
+
+const LONGEST_SILENCES = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Local midnight of a day key, so streaks can step day by day across DST changes
+const fromDayKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const isNextDay = (previous: string, next: string) =>
+  toDayKey(fromDayKey(previous) + DAY_MS + DAY_MS / 2) === next;
+
+/**
+ * Computes the statistics of a thread from its messages in chronological order.
+ */
+export function computeThreadStats(messages: Message[]): ThreadStats {
+  const chatMessages = messages.filter((message) => !message.system_event);
+  const perParticipant = new Map<string, number>();
+  const perDay = new Map<string, number>();
+  const media: MediaCounts = {
+    photos: 0,
+    videos: 0,
+    audio: 0,
+    gifs: 0,
+    stickers: 0,
+    files: 0,
+    links: 0,
+  };
+  let textMessages = 0;
+  let textLength = 0;
+  let callCount = 0;
+  let totalCallSeconds = 0;
+
+  for (const message of chatMessages) {
+    perParticipant.set(message.sender_name, (perParticipant.get(message.sender_name) ?? 0) + 1);
+    const day = toDayKey(message.timestamp_ms);
+    perDay.set(day, (perDay.get(day) ?? 0) + 1);
+
+    media.photos += message.photos?.length ?? 0;
+    media.videos += message.videos?.length ?? 0;
+    media.audio += message.audio_files?.length ?? 0;
+    media.gifs += message.gifs?.length ?? 0;
+    media.files += message.files?.length ?? 0;
+    if (message.sticker) media.stickers++;
+    if (message.share?.link) media.links++;
+
+    if (message.content && !message.is_unsent) {
+      textMessages++;
+      textLength += message.content.length;
+    }
+  }
+
+  // Call notices can be classified as events, so calls are counted over every message
+  for (const message of messages) {
+    if (message.call_duration === undefined) continue;
+    callCount++;
+    totalCallSeconds += message.call_duration;
+  }
+
+  const silences: Silence[] = [];
+  for (let i = 1; i < messages.length; i++) {
+    const start = messages[i - 1].timestamp_ms;
+    const end = messages[i].timestamp_ms;
+    silences.push({ start, end, durationMs: end - start });
+  }
+  silences.sort((a, b) => b.durationMs - a.durationMs);
+
+  let busiestDay: ThreadStats['busiestDay'];
+  let longestStreak: DayStreak | undefined;
+  let streak: DayStreak | undefined;
+  // Map keys are in insertion order, which is chronological
+  for (const [date, count] of perDay) {
+    if (!busiestDay || count > busiestDay.count) busiestDay = { date, count };
+    streak =
+      streak && isNextDay(streak.end, date)
+        ? { ...streak, end: date, days: streak.days + 1 }
+        : { start: date, end: date, days: 1 };
+    if (!longestStreak || streak.days > longestStreak.days) longestStreak = streak;
+  }
+
+  return {
+    messageCount: chatMessages.length,
+    messagesPerParticipant: [...perParticipant]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count),
+    media,
+    averageLength: textMessages > 0 ? textLength / textMessages : 0,
+    longestSilences: silences.slice(0, LONGEST_SILENCES),
+    longestStreak,
+    busiestDay,
+    firstMessage: chatMessages[0],
+    lastMessage: chatMessages[chatMessages.length - 1],
+    callCount,
+    totalCallSeconds,
+  };
+}
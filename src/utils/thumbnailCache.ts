@@ -0,0 +1,54 @@
+import { logger } from './logger';
+import { STORES, getRecord, putRecord } from './indexedDb';
+
+// Downsized photos and video poster frames, kept in IndexedDB so a thread's media doesn't
+// have to be decoded again on every visit. Shared by thumbnail.worker.ts and the page.
+
+// Longest side of a thumbnail in pixels; bubbles show photos at most 200px high
+export const THUMBNAIL_MAX_SIZE = 320;
+
+/**
+ * Size of the thumbnail of an image: at most THUMBNAIL_MAX_SIZE on its longest side, keeping
+ * the aspect ratio. Smaller images keep their size.
+ */
+export function getThumbnailSize(width: number, height: number) {
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+interface ThumbnailRecord {
+  key: string; // Media URI, relative to the messages directory
+  fingerprint: string;
+  cachedAt: number;
+  blob: Blob;
+}
+
+// Another export can have a different file under the same URI, so the file itself is
+// described too
+export const getFileFingerprint = (file: File) => `${file.size}:${file.lastModified}`;
+
+export async function getCachedThumbnail(uri: string, fingerprint: string) {
+  try {
+    const record = await getRecord<ThumbnailRecord>(STORES.thumbnails, uri);
+    return record?.fingerprint === fingerprint ? record.blob : undefined;
+  } catch (error) {
+    logger.debug('THUMBNAIL_CACHE_READ_ERROR', { uri, error });
+    return undefined;
+  }
+}
+
+export async function cacheThumbnail(uri: string, fingerprint: string, blob: Blob) {
+  try {
+    await putRecord<ThumbnailRecord>(STORES.thumbnails, {
+      key: uri,
+      fingerprint,
+      cachedAt: Date.now(),
+      blob,
+    });
+  } catch (error) {
+    logger.debug('THUMBNAIL_CACHE_WRITE_ERROR', { uri, error });
+  }
+}
@@ -0,0 +1,148 @@
+import type { ThumbnailWorkerMessage, ThumbnailWorkerRequest } from '../types/thumbnails';
+import { logger } from './logger';
+import { getCachedThumbnail, getFileFingerprint } from './thumbnailCache';
+
+// Thumbnails for media bubbles and grids. Cached thumbnails are read here; new ones are made
+// by one shared thumbnail.worker.ts, created the first time a thumbnail is missing.
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (blob: Blob | undefined) => void>();
+// The same photo can be on screen twice, e.g. in a bubble and the media gallery
+const inFlight = new Map<string, Promise<Blob | undefined>>();
+
+export const supportsThumbnails = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+function getWorker(): Worker {
+  if (!worker) {
+    const created = new Worker(new URL('../workers/thumbnail.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    created.addEventListener('message', (event: MessageEvent<ThumbnailWorkerMessage>) => {
+      const message = event.data;
+      const resolve = pendingRequests.get(message.requestId);
+      pendingRequests.delete(message.requestId);
+      if (message.type === 'THUMBNAIL_ERROR') {
+        logger.debug('THUMBNAIL_WORKER_ERROR', message.error);
+      }
+      resolve?.(message.blob);
+    });
+
+    // A worker that failed won't answer, so its requests fall back to the originals and the
+    // next thumbnail starts a new one
+    const fail = (event: Event) => {
+      logger.debug('THUMBNAIL_WORKER_FAILED', {
+        type: event.type,
+        pending: pendingRequests.size,
+        error: event instanceof ErrorEvent ? event.message : undefined,
+      });
+      created.terminate();
+      if (worker === created) worker = null;
+      pendingRequests.forEach((resolve) => resolve(undefined));
+      pendingRequests.clear();
+    };
+    created.addEventListener('error', fail);
+    created.addEventListener('messageerror', fail);
+    worker = created;
+  }
+  return worker;
+}
+
+// Long enough for a large file on a slow disk; a video that takes longer gets no thumbnail
+const VIDEO_TIMEOUT_MS = 10_000;
+
+// Starts loading or seeking and waits until `event` fires, the video fails or time runs out
+const waitForVideo = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked', start: () => void) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error(`Video timed out waiting for ${event}`)),
+      VIDEO_TIMEOUT_MS,
+    );
+    video.addEventListener(
+      event,
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true },
+    );
+    video.onerror = () => {
+      clearTimeout(timeout);
+      reject(new Error('Video could not be decoded'));
+    };
+    start();
+  });
+
+// Workers can't decode video, so a frame is grabbed here with a detached <video>
+async function grabVideoFrame(file: File): Promise<ImageBitmap> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  try {
+    await waitForVideo(video, 'loadeddata', () => {
+      video.src = url;
+    });
+    // The very first frame is often black
+    await waitForVideo(video, 'seeked', () => {
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 2) : 0;
+    });
+    return await createImageBitmap(video);
+  } finally {
+    video.onerror = null;
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function makeThumbnail(uri: string, file: File, kind: 'photo' | 'video') {
+  const fingerprint = getFileFingerprint(file);
+  const cached = await getCachedThumbnail(uri, fingerprint);
+  if (cached) return cached;
+
+  const frame = kind === 'video' ? await grabVideoFrame(file) : undefined;
+  const requestId = ++nextRequestId;
+  const request: ThumbnailWorkerRequest = {
+    type: 'MAKE_THUMBNAIL',
+    requestId,
+    uri,
+    fingerprint,
+    ...(frame ? { frame } : { file }),
+  };
+  return new Promise<Blob | undefined>((resolve) => {
+    pendingRequests.set(requestId, resolve);
+    getWorker().postMessage(request, frame ? [frame] : []);
+  });
+}
+
+/**
+ * Resolves to a small JPEG of a photo or of a frame of a video, or undefined when the
+ * browser can't make one, in which case the original should be shown.
+ */
+export function getThumbnail(
+  uri: string,
+  file: File,
+  kind: 'photo' | 'video',
+): Promise<Blob | undefined> {
+  if (!supportsThumbnails()) return Promise.resolve(undefined);
+
+  const key = `${uri}|${getFileFingerprint(file)}`;
+  let thumbnail = inFlight.get(key);
+  if (!thumbnail) {
+    thumbnail = makeThumbnail(uri, file, kind)
+      .catch((error) => {
+        logger.debug('THUMBNAIL_FAILED', {
+          uri,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, thumbnail);
+  }
+  return thumbnail;
+}
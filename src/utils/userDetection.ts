@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { readFileWithProperEncoding, fixEncoding } from './encoding';
 import { logger } from './logger';
+import type { ArchiveDirectoryHandle } from '../types/archive';
 
 // Schema for autofill_information.json
 // Note: Data is nested under autofill_information_v2, and values can be arrays
@@ -23,7 +24,7 @@ const AutofillInfoSchema = z
  * Returns the FULL_NAME if available, otherwise combines FIRST_NAME + LAST_NAME
  */
 export const detectUserName = async (
-  directoryHandle: FileSystemDirectoryHandle,
+  directoryHandle: ArchiveDirectoryHandle,
 ): Promise<string | null> => {
   try {
     logger.debug('READING_AUTOFILL_INFO');
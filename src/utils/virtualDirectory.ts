@@ -0,0 +1,186 @@
+import type { ArchiveDirectoryHandle, ArchiveFileHandle, ArchiveLayer } from '../types/archive';
+import { logger } from './logger';
+
+// In-memory directory tree built from a flat list of paths, for archives that don't come
+// with real directory handles (ZIP entries, <input webkitdirectory> and dropped files)
+
+export interface VirtualDirectory {
+  name: string;
+  children: Map<string, VirtualDirectory | ArchiveFileHandle>;
+}
+
+const isVirtualDirectory = (node: VirtualDirectory | ArchiveFileHandle): node is VirtualDirectory =>
+  'children' in node;
+
+export const notFound = (name: string) =>
+  new DOMException(`"${name}" was not found in the archive`, 'NotFoundError');
+
+export const createVirtualDirectory = (name: string): VirtualDirectory => ({
+  name,
+  children: new Map(),
+});
+
+/**
+ * Adds a file under its folders, creating them as needed. When the same path is added
+ * twice (e.g. a file repeated in two parts of an export) the first copy wins.
+ */
+export function addVirtualFile(
+  root: VirtualDirectory,
+  path: string,
+  createHandle: (name: string) => ArchiveFileHandle,
+) {
+  const parts = path.split('/').filter((part) => part && part !== '.');
+  const fileName = parts.pop();
+  if (!fileName) return;
+
+  let node = root;
+  for (const part of parts) {
+    let child = node.children.get(part);
+    if (!child) {
+      child = createVirtualDirectory(part);
+      node.children.set(part, child);
+    }
+    if (!isVirtualDirectory(child)) {
+      logger.debug('VIRTUAL_PATH_CONFLICT', { path });
+      return;
+    }
+    node = child;
+  }
+
+  if (!node.children.has(fileName)) {
+    node.children.set(fileName, createHandle(fileName));
+  }
+}
+
+export function toArchiveDirectory(node: VirtualDirectory): ArchiveDirectoryHandle {
+  return {
+    kind: 'directory',
+    name: node.name,
+    async getDirectoryHandle(name: string) {
+      const child = node.children.get(name);
+      if (!child || !isVirtualDirectory(child)) throw notFound(name);
+      return toArchiveDirectory(child);
+    },
+    async getFileHandle(name: string) {
+      const child = node.children.get(name);
+      if (!child || isVirtualDirectory(child)) throw notFound(name);
+      return child;
+    },
+    async *values() {
+      for (const child of node.children.values()) {
+        yield isVirtualDirectory(child) ? toArchiveDirectory(child) : child;
+      }
+    },
+  };
+}
+
+/**
+ * Opens loose files, each with its path inside the selected folder, as a directory tree.
+ */
+export function openFileList(
+  entries: { path: string; file: File }[],
+  name = 'archive',
+): ArchiveDirectoryHandle {
+  const root = createVirtualDirectory(name);
+  for (const { path, file } of entries) {
+    addVirtualFile(root, path, (fileName) => ({
+      kind: 'file',
+      name: fileName,
+      getFile: async () => file,
+    }));
+  }
+  return toArchiveDirectory(root);
+}
+
+/**
+ * Overlays the same folder from several exports. Sub-folders are merged the same way and
+ * files are read from the first export that has them; `layers` keeps the per-export
+ * folders for code that has to read every copy, like thread parsing.
+ */
+export function mergeDirectories(name: string, layers: ArchiveLayer[]): ArchiveDirectoryHandle {
+  // Children are cached so each merged folder is a single, stable object
+  const children = new Map<string, Promise<ArchiveDirectoryHandle>>();
+
+  const getDirectoryHandle = (childName: string) => {
+    let child = children.get(childName);
+    if (!child) {
+      child = (async () => {
+        const childLayers: ArchiveLayer[] = [];
+        for (const { label, handle } of layers) {
+          try {
+            childLayers.push({ label, handle: await handle.getDirectoryHandle(childName) });
+          } catch {
+            // Not in this export
+          }
+        }
+        if (childLayers.length === 0) throw notFound(childName);
+        return mergeDirectories(childName, childLayers);
+      })();
+      children.set(childName, child);
+    }
+    return child;
+  };
+
+  return {
+    kind: 'directory',
+    name,
+    layers,
+    getDirectoryHandle,
+    async getFileHandle(fileName: string) {
+      for (const { handle } of layers) {
+        try {
+          return await handle.getFileHandle(fileName);
+        } catch {
+          // Not in this export
+        }
+      }
+      throw notFound(fileName);
+    },
+    async *values() {
+      const seen = new Set<string>();
+      for (const { handle } of layers) {
+        for await (const entry of handle.values()) {
+          if (seen.has(entry.name)) continue;
+          seen.add(entry.name);
+          yield entry.kind === 'directory' ? await getDirectoryHandle(entry.name) : entry;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * The same folder under another name. Native handles can't be copied with a new name, so
+ * this forwards to the original.
+ */
+export const renameDirectory = (
+  directory: ArchiveDirectoryHandle,
+  name: string,
+): ArchiveDirectoryHandle => ({
+  kind: 'directory',
+  name,
+  getDirectoryHandle: (childName) => directory.getDirectoryHandle(childName),
+  getFileHandle: (fileName) => directory.getFileHandle(fileName),
+  values: () => directory.values(),
+});
+
+/**
+ * A folder whose only entry is `child`, e.g. to place an imported chat at "messages/inbox/".
+ */
+export const nestDirectory = (
+  name: string,
+  child: ArchiveDirectoryHandle,
+): ArchiveDirectoryHandle => ({
+  kind: 'directory',
+  name,
+  async getDirectoryHandle(childName) {
+    if (childName !== child.name) throw notFound(childName);
+    return child;
+  },
+  async getFileHandle(fileName) {
+    throw notFound(fileName);
+  },
+  async *values() {
+    yield child;
+  },
+});
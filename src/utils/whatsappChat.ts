@@ -0,0 +1,330 @@
+import type { Attachment, Message, Participant, UnparsedLine } from '../types/messenger';
+import type { ArchiveDirectoryHandle, ArchiveFileHandle } from '../types/archive';
+import { logger } from './logger';
+import { nestDirectory, renameDirectory } from './virtualDirectory';
+
+// WhatsApp's "Export chat" writes one text file per chat, "_chat.txt" on iOS and
+// "WhatsApp Chat with <name>.txt" on Android, next to the attached media files.
+// Each message starts with a date and time whose format follows the phone's locale:
+//   [31/01/2021, 14:05:33] Anna: Hi        (iOS)
+//   31.01.21, 14:05 - Anna: Hi             (Android)
+//   1/31/21, 2:05 PM - Anna: Hi            (Android, US)
+// Lines that don't start that way continue the previous message.
+
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface WhatsAppChat {
+  participants: Participant[];
+  messages: Message[];
+  dateOrder: DateOrder;
+  unparsedLines: UnparsedLine[];
+}
+
+const DATE_ORDERS: DateOrder[] = ['DMY', 'MDY', 'YMD'];
+
+// Left-to-right marks and other direction marks WhatsApp puts around dates and notices
+const DIRECTION_MARKS = /[\u200e\u200f\u202a-\u202e]/g;
+const LEADING_DIRECTION_MARKS = /^[\u200e\u200f\u202a-\u202e]+/;
+// Narrow and regular non-breaking spaces, used before AM/PM by recent versions
+const NON_BREAKING_SPACES = /[\u00a0\u202f]/g;
+
+const DATE = String.raw`(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})`;
+const TIME = String.raw`(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?: ?([AaPp])\.? ?[Mm]\.?)?`;
+const IOS_HEADER = new RegExp(String.raw`^\[${DATE},? ${TIME}\] (.*)$`);
+const ANDROID_HEADER = new RegExp(String.raw`^${DATE},? ${TIME} [-–] (.*)$`);
+
+const IOS_ATTACHMENT = /^<attached: (.+)>$/;
+const ANDROID_ATTACHMENT = /^(.+\.\w+) \(file attached\)$/;
+
+const CHAT_NAME_PREFIX = /^WhatsApp Chat (?:with |- )/i;
+
+const MEDIA_TYPES: [RegExp, keyof Pick<Message, 'photos' | 'videos' | 'audio_files' | 'gifs'>][] = [
+  [/\.(jpe?g|png|heic)$/i, 'photos'],
+  [/\.(mp4|mov|3gp)$/i, 'videos'],
+  [/\.(opus|m4a|mp3|aac|ogg|wav)$/i, 'audio_files'],
+  [/\.gif$/i, 'gifs'],
+];
+
+interface MessageHeader {
+  lineNumber: number;
+  dateParts: [number, number, number];
+  yearDigits: number; // Digits of the part that holds the year, to tell "21" from "2021"
+  hours: number;
+  minutes: number;
+  seconds: number;
+  meridiem?: 'a' | 'p';
+  text: string;
+}
+
+export const isWhatsAppChatFile = (name: string) =>
+  name === '_chat.txt' || /^WhatsApp Chat.*\.txt$/i.test(name);
+
+/**
+ * Conversation name from the export's ZIP, folder or text file name, e.g. "Anna" for
+ * "WhatsApp Chat - Anna.zip" or "WhatsApp Chat with Anna.txt".
+ */
+export function getWhatsAppChatName(fileName: string): string {
+  return (
+    fileName
+      .replace(/\.(zip|txt)$/i, '')
+      .replace(CHAT_NAME_PREFIX, '')
+      .trim() || 'WhatsApp'
+  );
+}
+
+const parseHeader = (line: string, lineNumber: number): MessageHeader | null => {
+  const match = line.match(IOS_HEADER) || line.match(ANDROID_HEADER);
+  if (!match) return null;
+  const [, a, b, c, hours, minutes, seconds, meridiem, text] = match;
+  const yearDigits = a.length === 4 ? a.length : c.length;
+  return {
+    lineNumber,
+    dateParts: [Number(a), Number(b), Number(c)],
+    yearDigits,
+    hours: Number(hours),
+    minutes: Number(minutes),
+    seconds: seconds ? Number(seconds) : 0,
+    meridiem: meridiem?.toLowerCase() as MessageHeader['meridiem'],
+    text,
+  };
+};
+
+const toFullYear = (year: number, digits: number) => {
+  if (digits > 2) return year;
+  // WhatsApp is from 2009, so two-digit years are this century
+  return 2000 + year;
+};
+
+// Local time of a header under the given date order, or null if the date is impossible
+const getTimestamp = (header: MessageHeader, order: DateOrder): number | null => {
+  const [a, b, c] = header.dateParts;
+  let year: number;
+  let month: number;
+  let day: number;
+  if (order === 'YMD') {
+    if (header.dateParts[0] < 1000) return null;
+    [year, month, day] = [a, b, c];
+  } else {
+    if (a >= 1000) return null;
+    [day, month] = order === 'DMY' ? [a, b] : [b, a];
+    year = toFullYear(c, header.yearDigits);
+  }
+
+  let hours = header.hours;
+  if (header.meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (header.meridiem === 'p' ? 12 : 0);
+  }
+  if (month < 1 || month > 12 || day < 1 || hours > 23 || header.minutes > 59) return null;
+
+  const date = new Date(year, month - 1, day, hours, header.minutes, header.seconds);
+  // Rolled over into the next month, e.g. 31/02
+  if (date.getDate() !== day) return null;
+  return date.getTime();
+};
+
+/**
+ * Picks the date order that reads every header as a valid date, preferring the one that
+ * keeps messages in chronological order (a chat is written top to bottom).
+ */
+function detectDateOrder(headers: MessageHeader[]): DateOrder {
+  let best: { order: DateOrder; invalid: number; outOfOrder: number } | null = null;
+
+  for (const order of DATE_ORDERS) {
+    let invalid = 0;
+    let outOfOrder = 0;
+    let previous = -Infinity;
+    for (const header of headers) {
+      const timestamp = getTimestamp(header, order);
+      if (timestamp === null) {
+        invalid++;
+        continue;
+      }
+      if (timestamp < previous) outOfOrder++;
+      previous = timestamp;
+    }
+    if (
+      !best ||
+      invalid < best.invalid ||
+      (invalid === best.invalid && outOfOrder < best.outOfOrder)
+    ) {
+      best = { order, invalid, outOfOrder };
+    }
+  }
+
+  return best?.order ?? 'DMY';
+}
+
+const toAttachmentMessage = (message: Message, fileName: string, mediaFolder: string) => {
+  const attachment: Attachment = { uri: `${mediaFolder}/${fileName}` };
+  // Stickers are sent as WebP files named STK-...
+  if (/\.webp$/i.test(fileName)) {
+    message.sticker = attachment;
+    return;
+  }
+  const [, key] = MEDIA_TYPES.find(([pattern]) => pattern.test(fileName)) ?? [];
+  if (key) {
+    message[key] = [...(message[key] ?? []), attachment];
+  } else {
+    message.files = [...(message.files ?? []), attachment];
+  }
+};
+
+/**
+ * Converts the text of a chat export into messages. Media file names become attachments
+ * under `mediaFolder`, which is the chat's thread path. Lines that can't be read, like
+ * text before the first message or an impossible date, are returned in `unparsedLines`.
+ */
+export function parseWhatsAppChat(text: string, mediaFolder: string): WhatsAppChat {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const headers: MessageHeader[] = [];
+  // Continuation lines, keyed by the index of the header they belong to
+  const continuations = new Map<number, UnparsedLine[]>();
+  const unparsedLines: UnparsedLine[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(LEADING_DIRECTION_MARKS, '').replace(NON_BREAKING_SPACES, ' ');
+    const header = parseHeader(line, index + 1);
+    if (header) {
+      headers.push(header);
+    } else if (headers.length > 0) {
+      const lastIndex = headers.length - 1;
+      const continued = continuations.get(lastIndex);
+      const continuation = { lineNumber: index + 1, text: line };
+      if (continued) continued.push(continuation);
+      else continuations.set(lastIndex, [continuation]);
+    } else if (line.trim()) {
+      unparsedLines.push({ lineNumber: index + 1, text: rawLine });
+    }
+  });
+
+  const dateOrder = detectDateOrder(headers);
+  const messages: Message[] = [];
+  const participants = new Set<string>();
+  let systemNotices = 0;
+
+  // Notices aren't kept as messages, so the lines they run on to are reported instead of
+  // being dropped with them
+  const skipNotice = (index: number) => {
+    systemNotices++;
+    for (const { lineNumber, text } of continuations.get(index) ?? []) {
+      if (text.trim()) unparsedLines.push({ lineNumber, text: lines[lineNumber - 1] });
+    }
+  };
+
+  headers.forEach((header, index) => {
+    const timestamp = getTimestamp(header, dateOrder);
+    if (timestamp === null) {
+      // The message's other lines can't be read without it either
+      for (const { lineNumber } of [header, ...(continuations.get(index) ?? [])]) {
+        unparsedLines.push({ lineNumber, text: lines[lineNumber - 1] });
+      }
+      return;
+    }
+
+    const senderMatch = header.text.match(/^(.+?): ([\s\S]*)$/);
+    if (!senderMatch) {
+      // Encryption notices, "Anna added Bob" and similar lines have no sender
+      skipNotice(index);
+      return;
+    }
+    const [, sender, markedLine] = senderMatch;
+    const firstLine = markedLine.replace(DIRECTION_MARKS, '');
+    const attachment = firstLine.match(IOS_ATTACHMENT) || firstLine.match(ANDROID_ATTACHMENT);
+    // iOS writes notices as messages from the chat itself, marked with a left-to-right mark
+    if (markedLine.startsWith('\u200e') && !attachment && !/ omitted$/.test(firstLine)) {
+      skipNotice(index);
+      return;
+    }
+    participants.add(sender);
+
+    const message: Message = { sender_name: sender, timestamp_ms: timestamp };
+    const contentLines = (continuations.get(index) ?? []).map(({ text }) => text);
+    if (attachment) {
+      toAttachmentMessage(message, attachment[1], mediaFolder);
+    } else {
+      contentLines.unshift(firstLine);
+    }
+    const content = contentLines.join('\n').trim();
+    if (content) message.content = content;
+    messages.push(message);
+  });
+
+  if (systemNotices > 0 || unparsedLines.length > 0) {
+    logger.debug('WHATSAPP_CHAT_PARSED', {
+      messages: messages.length,
+      systemNotices,
+      unparsedLines: unparsedLines.length,
+      dateOrder,
+    });
+  }
+
+  return {
+    participants: [...participants].map((name) => ({ name })),
+    messages,
+    dateOrder,
+    unparsedLines,
+  };
+}
+
+/**
+ * Finds the chat text file of a WhatsApp export folder, or null if it has none.
+ */
+export async function findWhatsAppChatFile(
+  directory: ArchiveDirectoryHandle,
+): Promise<ArchiveFileHandle | null> {
+  for await (const entry of directory.values()) {
+    if (entry.kind === 'file' && isWhatsAppChatFile(entry.name)) {
+      return entry as ArchiveFileHandle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads and parses the chat of a WhatsApp thread folder, or resolves to null if the folder
+ * isn't one.
+ */
+export async function readWhatsAppThread(
+  threadHandle: ArchiveDirectoryHandle,
+  threadPath: string,
+): Promise<WhatsAppChat | null> {
+  const chatFile = await findWhatsAppChatFile(threadHandle);
+  if (!chatFile) return null;
+  const text = await (await chatFile.getFile()).text();
+  return parseWhatsAppChat(text, threadPath);
+}
+
+/**
+ * Presents a WhatsApp export (the chat file and its media in one folder) as a messages
+ * folder holding a single conversation, "inbox/<chat name>", so it can be browsed, searched
+ * and merged like any other export.
+ */
+export async function openWhatsAppExport(
+  root: ArchiveDirectoryHandle,
+  exportName: string,
+): Promise<ArchiveDirectoryHandle | null> {
+  // ZIPs hold the files directly, unzipped exports may sit in one more folder
+  let chatFolder: ArchiveDirectoryHandle | null = null;
+  let chatFile = await findWhatsAppChatFile(root);
+  if (chatFile) {
+    chatFolder = root;
+  } else {
+    for await (const entry of root.values()) {
+      if (entry.kind !== 'directory') continue;
+      chatFile = await findWhatsAppChatFile(entry as ArchiveDirectoryHandle);
+      if (chatFile) {
+        chatFolder = entry as ArchiveDirectoryHandle;
+        break;
+      }
+    }
+  }
+  if (!chatFolder || !chatFile) return null;
+
+  // iOS names the file "_chat.txt", so the export's own name is the better source
+  const chatName = getWhatsAppChatName(chatFile.name === '_chat.txt' ? exportName : chatFile.name);
+  const thread = renameDirectory(chatFolder, chatName);
+  const inbox = nestDirectory('inbox', thread);
+  logger.debug('WHATSAPP_EXPORT_OPENED', { chatName });
+  return nestDirectory('messages', inbox);
+}
@@ -0,0 +1,237 @@
+import type { ArchiveDirectoryHandle, ArchiveFileHandle } from '../types/archive';
+import { logger } from './logger';
+import { addVirtualFile, createVirtualDirectory, toArchiveDirectory } from './virtualDirectory';
+
+// Reads Facebook export ZIPs lazily: only the central directory is parsed up front, and an
+// entry's bytes are sliced out of the ZIP (and inflated) when its getFile() is called.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Enough for the media types found in Messenger exports; the rest stay untyped
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  pdf: 'application/pdf',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+export interface ZipEntry {
+  zip: File;
+  path: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  lastModified: number;
+  encrypted: boolean;
+}
+
+const readBytes = async (zip: File, start: number, end: number) =>
+  new DataView(await zip.slice(start, end).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+// MS-DOS date and time fields, in local time like the rest of the export
+const dosDateTimeToMs = (date: number, time: number) =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ).getTime();
+
+async function findCentralDirectory(zip: File): Promise<{ offset: number; size: number }> {
+  const tailStart = Math.max(0, zip.size - EOCD_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readBytes(zip, tailStart, zip.size);
+
+  // The end of central directory record sits before an optional trailing comment
+  let eocdPos = -1;
+  for (let i = tail.byteLength - EOCD_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocdPos = i;
+      break;
+    }
+  }
+  if (eocdPos === -1) {
+    throw new Error(`${zip.name} is not a ZIP file`);
+  }
+
+  const entryCount = tail.getUint16(eocdPos + 10, true);
+  const size = tail.getUint32(eocdPos + 12, true);
+  const offset = tail.getUint32(eocdPos + 16, true);
+  if (entryCount !== 0xffff && size !== 0xffffffff && offset !== 0xffffffff) {
+    return { offset, size };
+  }
+
+  // Exports over 4 GB store the real values in the ZIP64 end of central directory record
+  const locatorPos = eocdPos - ZIP64_LOCATOR_SIZE;
+  if (locatorPos < 0 || tail.getUint32(locatorPos, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    throw new Error(`${zip.name} has an invalid ZIP64 directory`);
+  }
+  const zip64EocdOffset = readUint64(tail, locatorPos + 8);
+  const zip64Eocd = await readBytes(zip, zip64EocdOffset, zip64EocdOffset + 56);
+  if (zip64Eocd.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+    throw new Error(`${zip.name} has an invalid ZIP64 directory`);
+  }
+  return { size: readUint64(zip64Eocd, 40), offset: readUint64(zip64Eocd, 48) };
+}
+
+/**
+ * Lists every file stored in a ZIP by reading its central directory.
+ * Directory entries are skipped; folders are implied by file paths.
+ */
+export async function readZipEntries(zip: File): Promise<ZipEntry[]> {
+  const { offset, size } = await findCentralDirectory(zip);
+  const directory = await readBytes(zip, offset, offset + size);
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  while (pos + 46 <= directory.byteLength) {
+    if (directory.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) break;
+
+    const flags = directory.getUint16(pos + 8, true);
+    const method = directory.getUint16(pos + 10, true);
+    const time = directory.getUint16(pos + 12, true);
+    const date = directory.getUint16(pos + 14, true);
+    let compressedSize = directory.getUint32(pos + 20, true);
+    let uncompressedSize = directory.getUint32(pos + 24, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    let localHeaderOffset = directory.getUint32(pos + 42, true);
+
+    const nameStart = directory.byteOffset + pos + 46;
+    const path = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+
+    // ZIP64 extra field: only the values that overflowed in the header are present, in order
+    let extraPos = pos + 46 + nameLength;
+    const extraEnd = extraPos + extraLength;
+    while (extraPos + 4 <= extraEnd) {
+      const fieldId = directory.getUint16(extraPos, true);
+      const fieldSize = directory.getUint16(extraPos + 2, true);
+      if (fieldId === ZIP64_EXTRA_FIELD_ID) {
+        let valuePos = extraPos + 4;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64(directory, valuePos);
+          valuePos += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(directory, valuePos);
+          valuePos += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(directory, valuePos);
+        }
+      }
+      extraPos += 4 + fieldSize;
+    }
+
+    if (!path.endsWith('/')) {
+      entries.push({
+        zip,
+        path,
+        method,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        lastModified: dosDateTimeToMs(date, time),
+        encrypted: (flags & 0x1) !== 0,
+      });
+    }
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  logger.debug('ZIP_ENTRIES_READ', { zip: zip.name, entries: entries.length });
+  return entries;
+}
+
+/**
+ * Extracts one entry as a File. Stored entries are a slice of the ZIP and are never read
+ * here; deflated entries are inflated through a stream.
+ */
+export async function readZipEntry(entry: ZipEntry): Promise<File> {
+  const name = entry.path.split('/').pop() || entry.path;
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  const options = { type: MIME_TYPES[extension] || '', lastModified: entry.lastModified };
+
+  if (entry.encrypted) {
+    throw new Error(`${entry.path} is encrypted`);
+  }
+
+  // The local header repeats the name and has its own extra field before the data
+  const localHeader = await readBytes(
+    entry.zip,
+    entry.localHeaderOffset,
+    entry.localHeaderOffset + 30,
+  );
+  if (localHeader.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`${entry.path} has an invalid local header`);
+  }
+  const dataStart =
+    entry.localHeaderOffset +
+    30 +
+    localHeader.getUint16(26, true) +
+    localHeader.getUint16(28, true);
+  const data = entry.zip.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return new File([data], name, options);
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new File([await new Response(inflated).blob()], name, options);
+  }
+  throw new Error(`${entry.path} uses unsupported compression method ${entry.method}`);
+}
+
+const toFileHandle = (entry: ZipEntry, name: string): ArchiveFileHandle => ({
+  kind: 'file',
+  name,
+  getFile: () => readZipEntry(entry),
+  getMetadata: async () => ({ size: entry.uncompressedSize, lastModified: entry.lastModified }),
+});
+
+/**
+ * Opens one or more ZIPs as a single directory tree. Facebook splits big exports into
+ * several ZIPs that each hold part of the same folder structure, so a thread's JSON and
+ * its media can come from different parts; their entries are merged here.
+ */
+export async function openZipArchive(zips: File[]): Promise<ArchiveDirectoryHandle> {
+  const root = createVirtualDirectory(zips[0]?.name ?? 'archive');
+
+  for (const zip of zips) {
+    for (const entry of await readZipEntries(zip)) {
+      addVirtualFile(root, entry.path, (name) => toFileHandle(entry, name));
+    }
+  }
+
+  return toArchiveDirectory(root);
+}
@@ -0,0 +1,96 @@
+import type { ArchiveScanMessage, ArchiveScanRequest } from '../types/archiveScan';
+import type { ArchiveDirectoryHandle, ArchiveSource } from '../types/archive';
+import type { ParsedThread } from '../types/messenger';
+import { openArchive } from '../utils/archiveSource';
+import { getSourcePlatform } from '../utils/platform';
+import { getCachedThread, getThreadFingerprint } from '../utils/threadCache';
+import { listThreadDirectories } from '../utils/threadDiscovery';
+import { logDebug, parseThreadDirectory } from './threadParser';
+
+// The thread folder a result is derived for
+export interface ScannedFolder {
+  root: ArchiveDirectoryHandle; // The messages folder
+  handle: ArchiveDirectoryHandle;
+}
+
+export interface ThreadScan<T> {
+  name: string; // Prefixes log events, e.g. "SUMMARY"
+  derive: (thread: ParsedThread, folder: ScannedFolder) => T | Promise<T>;
+  // When both are set, results are cached under the thread's fingerprint
+  getCached?: (threadId: string, fingerprint: string) => Promise<T | undefined>;
+  cache?: (result: T, fingerprint: string) => Promise<void>;
+  // Results left out of the list, e.g. threads without media
+  isEmpty?: (result: T) => boolean;
+  // Result listed for a thread that failed; such threads are skipped without it
+  onThreadError?: (threadId: string, error: string) => T;
+}
+
+/**
+ * Derives a result for every thread of the archive. For each thread: its cached result when
+ * its files haven't changed, otherwise the cached or freshly parsed thread is derived and the
+ * result cached. Threads that fail are logged, and skipped unless `onThreadError` is set.
+ */
+export async function scanArchive<T>(
+  source: ArchiveSource,
+  scan: ThreadScan<T>,
+  post: (message: ArchiveScanMessage<T>) => void,
+) {
+  const root = await openArchive(source);
+  const threadDirectories = await listThreadDirectories(root);
+  const sourcePlatform = getSourcePlatform(source);
+  const total = threadDirectories.length;
+  const results: T[] = [];
+  let parsed = 0;
+  post({ type: 'SCAN_PROGRESS', scanned: 0, total });
+
+  for (let i = 0; i < threadDirectories.length; i++) {
+    const { threadId, handle } = threadDirectories[i];
+    try {
+      const fingerprint = await getThreadFingerprint(handle);
+      let result = await scan.getCached?.(threadId, fingerprint);
+      if (!result) {
+        let thread = await getCachedThread(threadId, fingerprint);
+        if (!thread) {
+          thread = await parseThreadDirectory(handle, threadId, undefined, sourcePlatform);
+          parsed++;
+        }
+        result = await scan.derive(thread, { root, handle });
+        await scan.cache?.(result, fingerprint);
+      }
+      if (!scan.isEmpty?.(result)) results.push(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logDebug(`${scan.name}_THREAD_ERROR`, { threadId, error: message });
+      if (scan.onThreadError) results.push(scan.onThreadError(threadId, message));
+    }
+    post({ type: 'SCAN_PROGRESS', scanned: i + 1, total });
+  }
+
+  logDebug(`${scan.name}_READY`, { total, parsed });
+  post({ type: 'SCAN_READY', results, parsed });
+}
+
+/**
+ * Makes the current worker run `scan` over the archive of every SCAN_ARCHIVE request. Each
+ * hook starts its own worker per archive and terminates it when done with it, so a scan
+ * never has to be cancelled.
+ */
+export function handleArchiveScans<T>(scan: ThreadScan<T>) {
+  const post = (message: ArchiveScanMessage<T>) => {
+    self.postMessage(message);
+  };
+
+  self.addEventListener('message', async (event: MessageEvent<ArchiveScanRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'SCAN_ARCHIVE') {
+      try {
+        await scanArchive(request.source, scan, post);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logDebug(`${scan.name}_ERROR`, { error: message });
+        post({ type: 'SCAN_ERROR', error: message || 'Failed to scan the archive' });
+      }
+    }
+  });
+}
@@ -0,0 +1,15 @@
+import type { ThreadIntegrity } from '../types/integrity';
+import { checkThreadIntegrity, getUnreadableThreadIntegrity } from '../utils/archiveIntegrity';
+import { handleArchiveScans } from './archiveScan';
+
+// Checks every thread of the archive for missing and orphaned media and invalid message
+// files. Threads are read from the cache when they can be, but reports aren't cached: the
+// folders are always walked, so the report reflects the files as they are now.
+handleArchiveScans<ThreadIntegrity>({
+  name: 'INTEGRITY',
+  derive: (thread, { root, handle }) => checkThreadIntegrity(root, handle, thread),
+  onThreadError: getUnreadableThreadIntegrity,
+});
+
+// Export empty object to make TypeScript happy
+export {};
@@ -0,0 +1,17 @@
+import type { ThreadMedia } from '../types/media';
+import { collectArchiveMedia } from '../utils/mediaGallery';
+import { cacheThreadMedia, getCachedThreadMedia } from '../utils/threadCache';
+import { handleArchiveScans } from './archiveScan';
+
+// Lists the photos and videos of every thread for the photo browser. Like the dashboard
+// summaries, each thread's list is cached under its fingerprint.
+handleArchiveScans<ThreadMedia>({
+  name: 'MEDIA',
+  derive: collectArchiveMedia,
+  getCached: getCachedThreadMedia,
+  cache: cacheThreadMedia,
+  isEmpty: (media) => media.items.length === 0,
+});
+
+// Export empty object to make TypeScript happy
+export {};
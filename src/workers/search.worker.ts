@@ -0,0 +1,90 @@
+import type { SearchWorkerMessage, SearchWorkerRequest } from '../types/search';
+import type { ArchiveSource } from '../types/archive';
+import { listThreadDirectories } from '../utils/threadDiscovery';
+import { openArchive } from '../utils/archiveSource';
+import { getThreadTitle } from '../utils/archiveOverview';
+import { getSourcePlatform } from '../utils/platform';
+import { getCachedThread, getThreadFingerprint } from '../utils/threadCache';
+import { DEFAULT_RESULT_LIMIT, createSearchIndex } from '../utils/searchIndex';
+import { logDebug, parseThreadDirectory } from './threadParser';
+
+let index = createSearchIndex();
+// Bumped on every rebuild so an outdated build loop stops adding documents
+let buildGeneration = 0;
+
+const postMessage = (message: SearchWorkerMessage) => {
+  self.postMessage(message);
+};
+
+/**
+ * Indexes the text of every thread, reading threads from the cache when their files
+ * haven't changed.
+ */
+async function buildIndex(source: ArchiveSource) {
+  const generation = ++buildGeneration;
+  index = createSearchIndex();
+
+  const directoryHandle = await openArchive(source);
+  if (generation !== buildGeneration) return;
+
+  const threadDirectories = await listThreadDirectories(directoryHandle);
+  const sourcePlatform = getSourcePlatform(source);
+  const total = threadDirectories.length;
+  logDebug('SEARCH_INDEX_STARTED', { total });
+  postMessage({ type: 'INDEX_PROGRESS', indexed: 0, total });
+
+  for (let i = 0; i < threadDirectories.length; i++) {
+    const { threadId, handle } = threadDirectories[i];
+    try {
+      const fingerprint = await getThreadFingerprint(handle);
+      const thread =
+        (await getCachedThread(threadId, fingerprint)) ??
+        (await parseThreadDirectory(handle, threadId, undefined, sourcePlatform));
+      if (generation !== buildGeneration) return;
+      index.addThread(threadId, getThreadTitle(thread), thread.messages);
+    } catch (error) {
+      logDebug('SEARCH_INDEX_THREAD_ERROR', {
+        threadId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    postMessage({ type: 'INDEX_PROGRESS', indexed: i + 1, total });
+  }
+
+  logDebug('SEARCH_INDEX_READY', { messageCount: index.messageCount });
+  postMessage({ type: 'INDEX_READY', messageCount: index.messageCount });
+}
+
+// Worker message handler
+self.addEventListener('message', async (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'BUILD_INDEX') {
+    try {
+      await buildIndex(request.source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logDebug('SEARCH_INDEX_ERROR', { error: message });
+      postMessage({ type: 'SEARCH_ERROR', error: message || 'Failed to build index' });
+    }
+  } else if (request.type === 'SEARCH') {
+    try {
+      postMessage({
+        type: 'SEARCH_RESULTS',
+        requestId: request.requestId,
+        results: index.search(request.query, request.limit || DEFAULT_RESULT_LIMIT),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      postMessage({
+        type: 'SEARCH_ERROR',
+        requestId: request.requestId,
+        error: message || 'Search failed',
+      });
+    }
+  }
+});
+
+// Export empty object to make TypeScript happy
+export {};
@@ -0,0 +1,16 @@
+import type { ThreadSummary } from '../types/dashboard';
+import { summarizeThread } from '../utils/archiveOverview';
+import { cacheThreadSummary, getCachedThreadSummary } from '../utils/threadCache';
+import { handleArchiveScans } from './archiveScan';
+
+// Summarizes every thread of the archive for the dashboard, caching each summary next to
+// the thread
+handleArchiveScans<ThreadSummary>({
+  name: 'SUMMARY',
+  derive: summarizeThread,
+  getCached: getCachedThreadSummary,
+  cache: cacheThreadSummary,
+});
+
+// Export empty object to make TypeScript happy
+export {};
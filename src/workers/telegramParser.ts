@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import type { Attachment, Message, ReplyReference } from '../types/messenger';
+import type { ArchiveFileHandle } from '../types/archive';
+import { streamJsonFile } from '../utils/jsonStream';
+import {
+  getTelegramChatId,
+  getTelegramChatName,
+  getTelegramTimestamp,
+  onTelegramMessages,
+  type TelegramChatInfo,
+} from '../utils/telegramExport';
+import { logger } from '../utils/logger';
+import { MESSAGE_BATCH_SIZE, type StreamThreadHandlers, type ThreadHeader } from './threadStream';
+
+// Converts messages of a Telegram Desktop export (result.json) to the Message model.
+// Replies, forwards and edits have no Messenger counterpart and are kept in the fields
+// Message has for them.
+
+// Formatted text is an array of plain strings and entities such as links or bold runs
+const TextSchema = z.union([
+  z.string(),
+  z.array(z.union([z.string(), z.object({ type: z.string().optional(), text: z.string() })])),
+]);
+
+const TelegramReactionSchema = z.object({
+  emoji: z.string().optional(),
+  recent: z
+    .array(z.object({ from: z.string().nullable().optional(), date: z.string().optional() }))
+    .optional(),
+});
+
+export const TelegramMessageSchema = z.object({
+  id: z.number(),
+  type: z.string(), // "message" or "service"
+  date: z.string().optional(),
+  date_unixtime: z.string().optional(),
+  from: z.string().nullable().optional(),
+  actor: z.string().nullable().optional(),
+  action: z.string().optional(),
+  title: z.string().optional(),
+  members: z.array(z.string().nullable()).optional(),
+  duration_seconds: z.number().optional(),
+  text: TextSchema.optional(),
+  edited: z.string().optional(),
+  edited_unixtime: z.string().optional(),
+  forwarded_from: z.string().nullable().optional(),
+  reply_to_message_id: z.number().optional(),
+  photo: z.string().optional(),
+  file: z.string().optional(),
+  media_type: z.string().optional(),
+  sticker_emoji: z.string().optional(),
+  reactions: z.array(TelegramReactionSchema).optional(),
+});
+
+export type TelegramMessage = z.infer<typeof TelegramMessageSchema>;
+
+// Where each media_type goes on Message; anything else is a plain file
+const MEDIA_FIELDS: Record<string, 'videos' | 'audio_files' | 'gifs'> = {
+  video_file: 'videos',
+  video_message: 'videos',
+  voice_message: 'audio_files',
+  audio_file: 'audio_files',
+  animation: 'gifs',
+};
+
+const getText = (text: TelegramMessage['text']) =>
+  typeof text === 'string'
+    ? text
+    : (text ?? []).map((part) => (typeof part === 'string' ? part : part.text)).join('');
+
+const joinNames = (names: (string | null)[] = []) =>
+  names.map((name) => name ?? 'Deleted Account').join(', ');
+
+// Service messages read like Messenger's own notices ("Anna added Bob to the group.")
+const describeService = (m: TelegramMessage, actor: string): string => {
+  switch (m.action) {
+    case 'create_group':
+      return `${actor} created the group ${m.title ?? ''}.`.replace(' .', '.');
+    case 'invite_members':
+      return `${actor} added ${joinNames(m.members)} to the group.`;
+    case 'remove_members':
+      return `${actor} removed ${joinNames(m.members)} from the group.`;
+    case 'join_group_by_link':
+      return `${actor} joined the group via invite link.`;
+    case 'edit_group_title':
+      return `${actor} named the group ${m.title ?? ''}.`;
+    case 'edit_group_photo':
+      return `${actor} changed the group photo.`;
+    case 'pin_message':
+      return `${actor} pinned a message.`;
+    default:
+      return `${actor} ${(m.action ?? 'did something').replace(/_/g, ' ')}.`;
+  }
+};
+
+const SERVICE_TYPES: Record<string, string> = {
+  invite_members: 'Subscribe',
+  join_group_by_link: 'Subscribe',
+  remove_members: 'Unsubscribe',
+  phone_call: 'Call',
+  group_call: 'Call',
+};
+
+// Media that wasn't exported is recorded as "(File not included. ...)"
+const toAttachment = (path: string | undefined, mediaFolder: string): Attachment | undefined =>
+  path && !path.startsWith('(') ? { uri: `${mediaFolder}/${path}` } : undefined;
+
+/**
+ * Converts one Telegram message. `replies` holds earlier messages of the chat by id, so a
+ * reply can quote the message it answers; the converted message is added to it.
+ */
+export function convertTelegramMessage(
+  m: TelegramMessage,
+  chatName: string,
+  mediaFolder: string,
+  replies: Map<string, ReplyReference>,
+): Message {
+  const sender = (m.type === 'service' ? m.actor : m.from) ?? chatName;
+  const message: Message = {
+    sender_name: sender,
+    timestamp_ms: getTelegramTimestamp(m),
+    message_id: String(m.id),
+  };
+
+  if (m.type === 'service') {
+    message.type = SERVICE_TYPES[m.action ?? ''] ?? 'Generic';
+    if (m.duration_seconds !== undefined) message.call_duration = m.duration_seconds;
+    else message.content = describeService(m, sender);
+  } else {
+    const content = getText(m.text) || m.sticker_emoji;
+    if (content) message.content = content;
+  }
+
+  const photo = toAttachment(m.photo, mediaFolder);
+  if (photo) message.photos = [photo];
+  const file = toAttachment(m.file, mediaFolder);
+  if (file) {
+    const field = MEDIA_FIELDS[m.media_type ?? ''];
+    if (m.media_type === 'sticker') message.sticker = file;
+    else if (field) message[field] = [file];
+    else message.files = [file];
+  }
+
+  message.reactions = m.reactions?.flatMap((reaction) =>
+    (reaction.recent ?? []).map((recent) => ({
+      reaction: reaction.emoji ?? '',
+      actor: recent.from ?? 'Deleted Account',
+      // Seconds, like Instagram's reaction timestamps
+      timestamp: recent.date ? Math.floor(Date.parse(recent.date) / 1000) : undefined,
+    })),
+  );
+  if (!message.reactions?.length) delete message.reactions;
+
+  if (m.forwarded_from !== undefined) {
+    message.forwarded_from = m.forwarded_from ?? 'Deleted Account';
+  }
+  if (m.edited_unixtime || m.edited) {
+    message.edited_timestamp_ms = getTelegramTimestamp({
+      date: m.edited,
+      date_unixtime: m.edited_unixtime,
+    });
+  }
+  if (m.reply_to_message_id !== undefined) {
+    const id = String(m.reply_to_message_id);
+    message.reply_to = replies.get(id) ?? { message_id: id };
+  }
+
+  replies.set(message.message_id!, {
+    message_id: message.message_id,
+    timestamp_ms: message.timestamp_ms,
+    sender_name: message.sender_name,
+    content: message.content,
+  });
+  return message;
+}
+
+/**
+ * Streams the messages of one chat out of result.json, like streamThreadFile does for
+ * message_N.json. The chat is picked by the id at the end of the thread folder's name, and
+ * the file is only read up to the end of it. Resolves to false if the file could not be parsed.
+ */
+export async function streamTelegramChat(
+  fileHandle: ArchiveFileHandle,
+  threadPath: string,
+  header: ThreadHeader,
+  onBatch: StreamThreadHandlers['onBatch'],
+  onChunkRead?: (bytes: number) => void,
+): Promise<boolean> {
+  const chatId = getTelegramChatId(threadPath.split('/').pop() ?? '');
+  const replies = new Map<string, ReplyReference>();
+  const senders = new Set(header.participants.map((p) => p.name));
+  let batch: Message[] = [];
+  let skippedMessages = 0;
+
+  const flush = () => {
+    onBatch(batch, header);
+    batch = [];
+  };
+
+  const handleMessage = (id: string, chat: TelegramChatInfo, rawMessage: unknown) => {
+    if (chatId !== undefined && id !== chatId) return;
+
+    const validated = TelegramMessageSchema.safeParse(rawMessage);
+    if (!validated.success) {
+      skippedMessages++;
+      return;
+    }
+    const chatName = getTelegramChatName(chat);
+    header.title ??= chatName;
+    header.threadType ??= chat.type;
+    const message = convertTelegramMessage(validated.data, chatName, threadPath, replies);
+    if (!senders.has(message.sender_name)) {
+      senders.add(message.sender_name);
+      header.participants = [...header.participants, { name: message.sender_name }];
+    }
+    batch.push(message);
+    if (batch.length >= MESSAGE_BATCH_SIZE) flush();
+  };
+
+  header.platform = 'telegram';
+  try {
+    const file = await fileHandle.getFile();
+    await streamJsonFile(
+      file,
+      // The rest of a whole-account export holds other chats only
+      (parser, stop) =>
+        onTelegramMessages(parser, handleMessage, (id) => {
+          if (id === chatId) stop();
+        }),
+      onChunkRead,
+    );
+    flush();
+
+    if (skippedMessages > 0) {
+      logger.debug('INVALID_TELEGRAM_MESSAGES_SKIPPED', { threadPath, skippedMessages });
+    }
+    return true;
+  } catch (error) {
+    logger.debug('PARSE_ERROR in streamTelegramChat', {
+      threadPath,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    flush();
+    return false;
+  }
+}
@@ -0,0 +1,28 @@
+import type { TermWorkerMessage, TermWorkerRequest } from '../types/terms';
+import { analyzeTerms } from '../utils/termFrequency';
+import { logger } from '../utils/logger';
+
+const postMessage = (message: TermWorkerMessage) => {
+  self.postMessage(message);
+};
+
+// Worker message handler
+self.addEventListener('message', (event: MessageEvent<TermWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'ANALYZE_TERMS') {
+    const { requestId } = request;
+    try {
+      const analysis = analyzeTerms(request.messages, request.stopWords);
+      logger.debug('TERMS_READY', { requestId, messages: request.messages.length });
+      postMessage({ type: 'TERMS_READY', requestId, analysis });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug('TERMS_ERROR', { requestId, error: message });
+      postMessage({ type: 'TERMS_ERROR', requestId, error: message || 'Failed to count terms' });
+    }
+  }
+});
+
+// Export empty object to make TypeScript happy
+export {};
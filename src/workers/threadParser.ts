@@ -0,0 +1,479 @@
+import oboe from 'oboe';
+import type { ZodError } from 'zod';
+import {
+  MessageSchema,
+  ParticipantSchema,
+  type Message,
+  type ParsedThread,
+  type Platform,
+} from '../types/messenger';
+import type { ArchiveDirectoryHandle, ArchiveFileHandle } from '../types/archive';
+import { fixEncoding } from '../utils/encoding';
+import { getFileMetadata } from '../utils/archiveSource';
+import { isHtmlMessageFile, parseFacebookHtml } from '../utils/facebookHtml';
+import { streamJsonFile } from '../utils/jsonStream';
+import { EXPORT_MESSAGES_PREFIX, getMessagePlatform } from '../utils/platform';
+import { withSystemEvents } from '../utils/systemEvents';
+import { isTelegramExportFile, TELEGRAM_EXPORT_FILE } from '../utils/telegramExport';
+import { findWhatsAppChatFile, isWhatsAppChatFile, parseWhatsAppChat } from '../utils/whatsappChat';
+import { streamTelegramChat } from './telegramParser';
+import { MESSAGE_BATCH_SIZE, type StreamThreadHandlers, type ThreadHeader } from './threadStream';
+
+// Shared by every worker that needs to turn a thread folder into a ParsedThread
+
+export const logDebug = (event: string, data?: any) => {
+  console.debug(`[Worker] ${event}`, data || '');
+};
+
+// Add this helper function to normalize asset URIs
+export function normalizeAssetUri(uri: string | undefined): string | undefined {
+  if (!uri) return undefined;
+  // Recent Messenger and Instagram exports nest the messages folder in "your_*_activity/"
+  const exportPrefix = uri.match(EXPORT_MESSAGES_PREFIX);
+  if (exportPrefix) return uri.substring(exportPrefix[0].length);
+  const messagesSegment = 'messages/';
+  const messagesIndex = uri.indexOf(messagesSegment);
+  if (messagesIndex !== -1) {
+    return uri.substring(messagesIndex + messagesSegment.length);
+  }
+  // If "messages/" is not found, it might be an external URL or already relative.
+  // Or it could be from a different export structure. For now, log a warning and return as is.
+  // This covers cases like stickers that might already have a path relative to 'messages' if they are in 'stickers_used'
+  if (uri.startsWith('stickers_used/')) {
+    // Stickers are directly under 'messages'
+    return uri;
+  }
+
+  logDebug('UNEXPECTED_URI_FORMAT', { uri });
+  // Potentially return uri or an empty string/undefined if it's an error
+  // For safety, let's return the original uri if it doesn't match the expected pattern,
+  // so external URLs (if any) are not broken.
+  return uri;
+}
+
+/**
+ * Fixes mojibake in every text field of a message and normalizes its asset URIs.
+ * Encoding is fixed per field, so the raw file never has to be held as one string.
+ */
+export function normalizeMessage(m: Message): Message {
+  return {
+    // File names in URIs are mis-encoded like the text
+    ...mapAssetUris(m, (uri) => normalizeAssetUri(fixEncoding(uri)) || uri),
+    sender_name: fixEncoding(m.sender_name), // Fix sender names
+    content: m.content ? fixEncoding(m.content) : undefined, // Ensure undefined if not present
+    share: m.share
+      ? {
+          ...m.share,
+          share_text: m.share.share_text ? fixEncoding(m.share.share_text) : undefined,
+          original_content_owner: m.share.original_content_owner
+            ? fixEncoding(m.share.original_content_owner)
+            : undefined,
+        }
+      : undefined,
+    story_share: m.story_share
+      ? {
+          ...m.story_share,
+          share_text: m.story_share.share_text ? fixEncoding(m.story_share.share_text) : undefined,
+        }
+      : undefined,
+    reactions: m.reactions?.map((r) => ({
+      ...r,
+      reaction: fixEncoding(r.reaction),
+      actor: fixEncoding(r.actor),
+    })),
+    bumped_message_metadata: m.bumped_message_metadata?.bumped_message
+      ? {
+          ...m.bumped_message_metadata,
+          bumped_message: fixEncoding(m.bumped_message_metadata.bumped_message),
+        }
+      : m.bumped_message_metadata,
+  };
+}
+
+/**
+ * Makes a message's asset URIs relative to the messages folder. Text is left as it is,
+ * for imports whose text isn't mis-encoded.
+ */
+export function normalizeAssetUris(m: Message): Message {
+  return mapAssetUris(m, (uri) => normalizeAssetUri(uri) || uri /* fallback */);
+}
+
+function mapAssetUris(m: Message, mapUri: (uri: string) => string): Message {
+  return {
+    ...m,
+    photos: m.photos?.map((p) => ({ ...p, uri: mapUri(p.uri) })),
+    videos: m.videos?.map((v) => ({ ...v, uri: mapUri(v.uri) })),
+    audio_files: m.audio_files?.map((a) => ({ ...a, uri: mapUri(a.uri) })),
+    gifs: m.gifs?.map((g) => ({ ...g, uri: mapUri(g.uri) })),
+    files: m.files?.map((f) => ({ ...f, uri: mapUri(f.uri) })),
+    sticker: m.sticker ? { ...m.sticker, uri: mapUri(m.sticker.uri) } : undefined,
+  };
+}
+
+// Where and how a node fails its schema, e.g. "messages.3.timestamp_ms: Required"
+const describeSchemaError = (path: (string | number)[], error: ZodError) => {
+  const [issue] = error.issues;
+  return [...path, ...issue.path].join('.') + `: ${issue.message}`;
+};
+
+/**
+ * Streams one message_N.json file through oboe, emitting messages in batches as they
+ * are found. Only the current batch is kept in memory, never the whole file text.
+ * The first way the file fails ThreadSchema is added to the header's invalidFiles.
+ * Resolves to false if the file could not be parsed.
+ */
+export async function streamThreadFile(
+  fileHandle: ArchiveFileHandle,
+  threadId: string,
+  header: ThreadHeader,
+  onBatch: StreamThreadHandlers['onBatch'],
+  onChunkRead?: (bytes: number) => void,
+): Promise<boolean> {
+  let batch: Message[] = [];
+  let skippedMessages = 0;
+  let hasParticipants = false;
+  let hasMessages = false;
+  let schemaError: string | undefined;
+
+  const flush = () => {
+    onBatch(batch, header);
+    batch = [];
+  };
+  const reportInvalid = () => {
+    if (!schemaError) return;
+    const invalidFile = { fileName: fileHandle.name, error: schemaError };
+    header.invalidFiles = [...(header.invalidFiles ?? []), invalidFile];
+  };
+
+  try {
+    const file = await fileHandle.getFile();
+
+    await streamJsonFile(
+      file,
+      (parser) =>
+        parser
+          .node('!.participants', (participants) => {
+            hasParticipants = true;
+            const validated = ParticipantSchema.array().safeParse(participants);
+            if (!validated.success) {
+              schemaError ??= describeSchemaError(['participants'], validated.error);
+            } else if (!header.participants.length) {
+              header.participants = validated.data.map((p) => ({
+                ...p,
+                name: fixEncoding(p.name), // Fix participant names
+              }));
+            }
+            return oboe.drop;
+          })
+          .node('!.messages', () => {
+            hasMessages = true;
+          })
+          .node('!.messages.*', (rawMessage, path) => {
+            const validated = MessageSchema.safeParse(rawMessage);
+            if (validated.success) {
+              // Checked before normalizing, which strips the "your_*_activity/" prefixes
+              header.platform ??= getMessagePlatform(validated.data);
+              batch.push(normalizeMessage(validated.data));
+              if (batch.length >= MESSAGE_BATCH_SIZE) flush();
+            } else {
+              skippedMessages++;
+              schemaError ??= describeSchemaError(path, validated.error);
+            }
+            return oboe.drop;
+          })
+          .node('!.title', (title) => {
+            if (typeof title === 'string' && !header.title) {
+              header.title = fixEncoding(title);
+            }
+          })
+          .node('!.thread_type', (threadType) => {
+            if (typeof threadType === 'string') header.threadType ??= threadType;
+          }),
+      onChunkRead,
+    );
+    flush();
+    if (!hasParticipants) schemaError ??= 'participants: Required';
+    if (!hasMessages) schemaError ??= 'messages: Required';
+    reportInvalid();
+
+    if (skippedMessages > 0) {
+      logDebug('INVALID_MESSAGES_SKIPPED', {
+        threadId,
+        fileName: fileHandle.name,
+        skippedMessages,
+      });
+    }
+    return true;
+  } catch (error: any) {
+    logDebug('PARSE_ERROR in streamThreadFile', {
+      threadId,
+      fileName: fileHandle.name,
+      errorMessage: error?.message,
+      errorStack: error?.stack,
+    });
+    // Keep whatever was parsed before the error
+    flush();
+    schemaError ??= error?.message ?? String(error);
+    reportInvalid();
+    return false;
+  }
+}
+
+const getAttachmentNames = (m: Message) =>
+  [
+    ...(m.photos ?? []),
+    ...(m.videos ?? []),
+    ...(m.audio_files ?? []),
+    ...(m.gifs ?? []),
+    ...(m.files ?? []),
+    ...(m.sticker ? [m.sticker] : []),
+  ]
+    // Folder names differ between exports, file names don't
+    .map((attachment) => attachment.uri.split('/').pop())
+    .join(',');
+
+/**
+ * Identifies a message across exports of the same account: the same message downloaded
+ * twice has the same timestamp, sender, text and attachment file names.
+ */
+export function getMessageFingerprint(m: Message): string {
+  return [
+    m.timestamp_ms,
+    m.sender_name,
+    m.content ?? '',
+    getAttachmentNames(m),
+    m.call_duration ?? '',
+  ].join('\u0000');
+}
+
+const listMessageFiles = async (dirHandle: ArchiveDirectoryHandle) => {
+  let messageFiles: ArchiveFileHandle[] = [];
+  const htmlFiles: ArchiveFileHandle[] = [];
+  for await (const entry of dirHandle.values()) {
+    if (entry.kind !== 'file') continue;
+    if (entry.name.startsWith('message_') && entry.name.endsWith('.json')) {
+      messageFiles.push(entry as ArchiveFileHandle);
+    } else if (isHtmlMessageFile(entry.name)) {
+      htmlFiles.push(entry as ArchiveFileHandle);
+    }
+  }
+
+  // Exports downloaded in the HTML format have message_N.html pages instead
+  if (messageFiles.length === 0) messageFiles = htmlFiles;
+
+  // Imported WhatsApp chats hold one text file instead, Telegram chats the export's result.json
+  if (messageFiles.length === 0) {
+    const chatFile = await findWhatsAppChatFile(dirHandle);
+    if (chatFile) return [chatFile];
+    try {
+      return [await dirHandle.getFileHandle(TELEGRAM_EXPORT_FILE)];
+    } catch {
+      return [];
+    }
+  }
+
+  // message_1.json holds the newest messages, so stream files in numeric order
+  return messageFiles.sort(
+    (a, b) => parseInt(a.name.replace(/\D/g, ''), 10) - parseInt(b.name.replace(/\D/g, ''), 10),
+  );
+};
+
+/**
+ * Reads a message_N.html page of an HTML-format export and reports its messages in
+ * batches, like streamThreadFile. Pages are a few hundred kilobytes, so each is read whole.
+ * Resolves to false if the page could not be read or has a layout we don't know.
+ */
+async function streamHtmlThreadFile(
+  fileHandle: ArchiveFileHandle,
+  threadPath: string,
+  header: ThreadHeader,
+  onBatch: StreamThreadHandlers['onBatch'],
+  onChunkRead?: (bytes: number) => void,
+): Promise<boolean> {
+  try {
+    const file = await fileHandle.getFile();
+    const page = parseFacebookHtml(await file.text());
+    onChunkRead?.(file.size);
+
+    if (!page.layout) {
+      logDebug('UNKNOWN_HTML_LAYOUT', { threadPath, fileName: fileHandle.name });
+      return false;
+    }
+    if (!header.participants.length) header.participants = page.participants;
+    header.title ??= page.title;
+
+    const messages = page.messages.map((message) => {
+      // Checked before normalizing, which strips the "your_*_activity/" prefixes
+      header.platform ??= getMessagePlatform(message);
+      return normalizeAssetUris(message);
+    });
+    for (let start = 0; start < messages.length; start += MESSAGE_BATCH_SIZE) {
+      onBatch(messages.slice(start, start + MESSAGE_BATCH_SIZE), header);
+    }
+    return true;
+  } catch (error) {
+    logDebug('PARSE_ERROR in streamHtmlThreadFile', {
+      threadPath,
+      fileName: fileHandle.name,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Reads a WhatsApp chat export and reports its messages in batches, like streamThreadFile.
+ * Chat text is small next to Messenger JSON, so it is read in one go.
+ */
+async function streamWhatsAppChat(
+  fileHandle: ArchiveFileHandle,
+  threadPath: string,
+  header: ThreadHeader,
+  onBatch: StreamThreadHandlers['onBatch'],
+  onChunkRead?: (bytes: number) => void,
+) {
+  const file = await fileHandle.getFile();
+  const chat = parseWhatsAppChat(await file.text(), threadPath);
+  onChunkRead?.(file.size);
+
+  if (!header.participants.length) header.participants = chat.participants;
+  // The chat has no title of its own; its folder is named after the conversation
+  header.title ??= threadPath.split('/').pop();
+  header.platform = 'whatsapp';
+  if (chat.unparsedLines.length > 0) {
+    header.unparsedLines = [...(header.unparsedLines ?? []), ...chat.unparsedLines];
+    logDebug('WHATSAPP_LINES_UNPARSED', { threadPath, lines: chat.unparsedLines.length });
+  }
+
+  for (let start = 0; start < chat.messages.length; start += MESSAGE_BATCH_SIZE) {
+    onBatch(chat.messages.slice(start, start + MESSAGE_BATCH_SIZE), header);
+  }
+}
+
+// How each kind of message file is read; message_N.json is the default
+const getFileStreamer = (fileName: string) => {
+  if (isHtmlMessageFile(fileName)) return streamHtmlThreadFile;
+  if (isWhatsAppChatFile(fileName)) return streamWhatsAppChat;
+  if (isTelegramExportFile(fileName)) return streamTelegramChat;
+  return streamThreadFile;
+};
+
+/**
+ * Streams every message_N.json file of a thread folder, reporting messages in batches.
+ * For a folder of merged exports each export's copy is streamed in turn; messages already
+ * seen in an earlier export are dropped and the rest are tagged with their export. Group
+ * notices get their `system_event`. Resolves to the thread header once all files are done.
+ */
+export async function streamThreadDirectory(
+  dirHandle: ArchiveDirectoryHandle,
+  threadPath: string,
+  { onBatch, onProgress }: StreamThreadHandlers,
+  sourcePlatform?: Platform,
+): Promise<ThreadHeader> {
+  const layers: { label?: string; handle: ArchiveDirectoryHandle; platform?: Platform }[] =
+    dirHandle.layers ?? [{ handle: dirHandle, platform: sourcePlatform }];
+  const header: ThreadHeader = {
+    participants: [],
+    platform: layers.find((layer) => layer.platform)?.platform,
+  };
+
+  const layerFiles: ArchiveFileHandle[][] = [];
+  let totalBytes = 0;
+  for (const { handle } of layers) {
+    const messageFiles = await listMessageFiles(handle);
+    for (const fileHandle of messageFiles) {
+      totalBytes += (await getFileMetadata(fileHandle)).size;
+    }
+    layerFiles.push(messageFiles);
+  }
+  logDebug('FILES_FOUND', {
+    threadPath,
+    exports: layers.length,
+    totalFiles: layerFiles.flat().length,
+    totalBytes,
+  });
+
+  let bytesRead = 0;
+  const handleChunkRead = (bytes: number) => {
+    bytesRead += bytes;
+    onProgress?.(bytesRead, totalBytes);
+  };
+
+  // Fingerprints of earlier exports only, so repeated messages within one export are kept
+  const seenInEarlierExports = new Set<string>();
+  let duplicates = 0;
+
+  for (const [index, { label }] of layers.entries()) {
+    const seenInThisExport = new Set<string>();
+    const onLayerBatch: StreamThreadHandlers['onBatch'] = (parsedBatch, batchHeader) => {
+      const batch = withSystemEvents(parsedBatch);
+      if (!label) {
+        onBatch(batch, batchHeader);
+        return;
+      }
+      const merged: Message[] = [];
+      for (const message of batch) {
+        const fingerprint = getMessageFingerprint(message);
+        if (seenInEarlierExports.has(fingerprint)) {
+          duplicates++;
+          continue;
+        }
+        seenInThisExport.add(fingerprint);
+        merged.push({ ...message, source_export: label });
+      }
+      onBatch(merged, batchHeader);
+    };
+
+    for (const fileHandle of layerFiles[index]) {
+      const stream = getFileStreamer(fileHandle.name);
+      const invalidBefore = header.invalidFiles?.length ?? 0;
+      await stream(fileHandle, threadPath, header, onLayerBatch, handleChunkRead);
+      // Every export has its own message_1.json, so say which one is broken
+      if (label && header.invalidFiles && header.invalidFiles.length > invalidBefore) {
+        header.invalidFiles = header.invalidFiles.map((invalidFile, fileIndex) =>
+          fileIndex < invalidBefore
+            ? invalidFile
+            : { ...invalidFile, fileName: `${label}/${invalidFile.fileName}` },
+        );
+      }
+    }
+    seenInThisExport.forEach((fingerprint) => seenInEarlierExports.add(fingerprint));
+  }
+
+  if (duplicates > 0) logDebug('DUPLICATE_MESSAGES_MERGED', { threadPath, duplicates });
+  header.platform ??= 'messenger';
+  return header;
+}
+
+/**
+ * Parses every message_N.json file of a thread folder into one ParsedThread.
+ */
+export async function parseThreadDirectory(
+  dirHandle: ArchiveDirectoryHandle,
+  threadPath: string,
+  onProgress?: StreamThreadHandlers['onProgress'],
+  sourcePlatform?: Platform,
+): Promise<ParsedThread> {
+  const messages: Message[] = [];
+
+  const header = await streamThreadDirectory(
+    dirHandle,
+    threadPath,
+    { onBatch: (batch) => messages.push(...batch), onProgress },
+    sourcePlatform,
+  );
+
+  // Sort all messages by timestamp
+  messages.sort((a, b) => a.timestamp_ms - b.timestamp_ms);
+
+  return {
+    threadId: threadPath,
+    participants: header.participants,
+    messages,
+    title: header.title,
+    platform: header.platform,
+    threadType: header.threadType,
+    unparsedLines: header.unparsedLines,
+    invalidFiles: header.invalidFiles,
+  };
+}
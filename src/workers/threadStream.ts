@@ -0,0 +1,25 @@
+import type { InvalidThreadFile } from '../types/integrity';
+import type { Message, Participant, Platform, UnparsedLine } from '../types/messenger';
+
+// What the streamers of each export format (threadParser.ts, telegramParser.ts) share. Kept
+// apart from both so they don't import each other.
+
+// Messages are handed to callers in batches of this size while a file is streamed
+export const MESSAGE_BATCH_SIZE = 500;
+
+export interface ThreadHeader {
+  participants: Participant[];
+  title?: string;
+  // Known once a message or the export gives it away; Messenger when streaming ends without
+  platform?: Platform;
+  threadType?: string;
+  unparsedLines?: UnparsedLine[]; // Lines of WhatsApp chats that couldn't be read
+  invalidFiles?: InvalidThreadFile[]; // message_N.json files that don't match ThreadSchema
+}
+
+export interface StreamThreadHandlers {
+  // Called with each batch of parsed messages, in file order (not sorted)
+  onBatch: (messages: Message[], header: ThreadHeader) => void;
+  // Called as file chunks are read, with byte counts across all files of the thread
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+}
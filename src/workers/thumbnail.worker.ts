@@ -0,0 +1,56 @@
+import type { ThumbnailWorkerMessage, ThumbnailWorkerRequest } from '../types/thumbnails';
+import { cacheThumbnail, getThumbnailSize } from '../utils/thumbnailCache';
+import { logger } from '../utils/logger';
+
+const postMessage = (message: ThumbnailWorkerMessage) => {
+  self.postMessage(message);
+};
+
+/**
+ * Downsizes a photo or video frame to at most THUMBNAIL_MAX_SIZE on its longest side and
+ * caches the JPEG.
+ */
+async function makeThumbnail(request: ThumbnailWorkerRequest) {
+  const { uri, fingerprint } = request;
+  const bitmap = 'frame' in request ? request.frame : await createImageBitmap(request.file);
+  try {
+    const { width, height } = getThumbnailSize(bitmap.width, bitmap.height);
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('No 2D canvas context');
+    context.drawImage(bitmap, 0, 0, width, height);
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+    await cacheThumbnail(uri, fingerprint, blob);
+    return blob;
+  } finally {
+    bitmap.close();
+  }
+}
+
+// One thumbnail at a time, so a screen full of photos isn't decoded at full size all at once
+let queue: Promise<void> = Promise.resolve();
+
+// Worker message handler
+self.addEventListener('message', (event: MessageEvent<ThumbnailWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'MAKE_THUMBNAIL') {
+    queue = queue.then(async () => {
+      try {
+        const blob = await makeThumbnail(request);
+        postMessage({ type: 'THUMBNAIL_READY', requestId: request.requestId, blob });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.debug('THUMBNAIL_ERROR', { uri: request.uri, error: message });
+        postMessage({
+          type: 'THUMBNAIL_ERROR',
+          requestId: request.requestId,
+          error: message || 'Failed to make a thumbnail',
+        });
+      }
+    });
+  }
+});
+
+// Export empty object to make TypeScript happy
+export {};